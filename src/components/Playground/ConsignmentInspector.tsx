@@ -1,11 +1,95 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styles from './Playground.module.css';
-import { hexToBytes, bytesToHex, parseRgbId } from './encodingUtils';
+import { hexToBytes, bytesToHex, parseRgbId, EncodingError } from './encodingUtils';
+import { parseArmor, isArmored, armorHeader, encodeArmor, ARMOR_LABELS } from './armor';
+import type { Armor } from './armor';
+import OpretVerifier from './OpretVerifier';
+import TxDecoder from './TxDecoder';
+import EncodingErrorView from './EncodingErrorView';
+import HexDump from './HexDump';
+import type { HexDumpField } from './HexDump';
 
-export default function ConsignmentInspector() {
-  const [consignmentData, setConsignmentData] = useState('');
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+
+/**
+ * Fields of an armored payload: the payload itself and each top-level member of its JSON
+ * Scans bytes, which is safe for UTF-8 as multi-byte sequences never contain ASCII punctuation
+ */
+function payloadFields(armor: Armor): HexDumpField[] {
+  const { payload } = armor;
+  const fields: HexDumpField[] = [{
+    name: armor.label,
+    offset: 0,
+    length: payload.length,
+    type: 'Armor payload',
+    value: `checksum ${armor.checksum}`,
+    depth: 0,
+  }];
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+  let keyStart = -1;
+  let key = '';
+  let end = -1;
+  const closeMember = () => {
+    if (start !== -1) fields.push({ name: key, offset: start, length: end - start + 1, type: 'JSON member', depth: 1 });
+    start = -1;
+  };
+
+  payload.forEach((byte, i) => {
+    if (inString) {
+      end = i;
+      if (escaped) {
+        escaped = false;
+      } else if (byte === BACKSLASH) {
+        escaped = true;
+      } else if (byte === QUOTE) {
+        inString = false;
+        if (keyStart !== -1) {
+          key = new TextDecoder().decode(payload.subarray(keyStart + 1, i));
+          keyStart = -1;
+        }
+      }
+      return;
+    }
+    const char = String.fromCharCode(byte);
+    if (/\s/.test(char)) return;
+    if (depth === 1 && char === ',') {
+      closeMember();
+      return;
+    }
+    if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        closeMember();
+        return;
+      }
+    } else if (byte === QUOTE) {
+      inString = true;
+      if (depth === 1 && start === -1) {
+        start = i;
+        keyStart = i;
+      }
+    }
+    end = i;
+  });
+  return fields;
+}
+
+export default function ConsignmentInspector({initialData = ''}: {initialData?: string}) {
+  const [consignmentData, setConsignmentData] = useState(initialData);
   const [parsed, setParsed] = useState<any>(null);
-  const [error, setError] = useState('');
+  const [armor, setArmor] = useState<Armor | null>(null);
+  const [dump, setDump] = useState<HexDumpField[] | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [armoredExample, setArmoredExample] = useState(false);
+  const [verifyingAnchor, setVerifyingAnchor] = useState<number | null>(null);
+  const [checkingTx, setCheckingTx] = useState<number | null>(null);
 
   const loadExample = () => {
     const example = {
@@ -47,38 +131,92 @@ export default function ConsignmentInspector() {
         },
       ],
       anchors: [
-        { txid: 'a1b2c3d4...', method: 'tapret', commitment: '0xabcd...' },
-        { txid: 'e5f6g7h8...', method: 'tapret', commitment: '0xef12...' },
+        {
+          txid: 'a93d6167fb80ef47f6033c4f0c26201fa3decf3779b4bad523eb9ce4ca01ce06',
+          method: 'tapret',
+          commitment: '0x4ceafe1f4c3b51f372dceb92dec34516dee2905af2a659917f7e3a6e89a9e3ad',
+          internal_key: 'f5b0e2796b18acf51dc0a536bbb155812daadb5f9d9f5ef467a610f318aef690',
+          witness_tx: '020000000001015c5496f662339295e9a9528636171c148859652a3981186cbaed4de8b3f212ee0100000000fdffffff02e8030000000000002251200cc2ea3ff63a872df6cfa21d220bd460b21ab0a6624f4f562fcc10aff76c14f1087e0100000000001600142a967e52ef9ae2f97c3df6238b2b2a225bda8bd0024730447c9389b0b7de02cbd02a88841fb821aae021e4729f0fc376c7c980f2c74402e05b5cfd014cbf37f1b0b7987640947f37316057ef19e0fa20c05008eb27b54d15478c9083012103f9b1879b0d6926576d26895979e6e83a904f26605d6ba6d543a795448f334abd00000000',
+        },
+        {
+          txid: '3c1a1c98200e865c10cb2eb67dc5599770fb96032d980b97870d8fef4a675fdf',
+          method: 'opret',
+          commitment: '0x3b5f1e0c9a2d4f6b8e7c1a3d5f7b9e0c2a4d6f8b1c3e5a7d9f0b2c4e6a8d1f3b',
+          script: '6a203b5f1e0c9a2d4f6b8e7c1a3d5f7b9e0c2a4d6f8b1c3e5a7d9f0b2c4e6a8d1f3b',
+          witness_tx: '02000000000101c6f822dc89edcab01f5b7d0568e83ed3e8a71cbfdd6482357b5096160206fe330100000000fdffffff0274bd00000000000016001405a93e00334802fe43faa5976898abea8cf4ff530000000000000000226a203b5f1e0c9a2d4f6b8e7c1a3d5f7b9e0c2a4d6f8b1c3e5a7d9f0b2c4e6a8d1f3b0247304447dea3b1c02653e4a767c35d508b58f54db80c364adaf02a8f54e696b0be826685aa59609a1dd7a32183bac1fd69405e8dd91d2d512ac05803cd9dfcb020d9de9ca4e872012102a4aa3d2402f8a23600923e08da30c933b6b275b8473380e9a240503bf283ceea00000000',
+        },
       ],
     };
 
-    setConsignmentData(JSON.stringify(example, null, 2));
+    setConsignmentData(armoredExample
+      ? encodeArmor(ARMOR_LABELS.consignment, new TextEncoder().encode(JSON.stringify(example)), [
+        { name: 'Id', value: example.contract_id },
+        { name: 'Version', value: example.version },
+      ])
+      : JSON.stringify(example, null, 2));
+    setArmoredExample(!armoredExample);
   };
 
   const parseConsignment = () => {
-    setError('');
+    setError(null);
     setParsed(null);
+    setArmor(null);
+    setDump(null);
+    setVerifyingAnchor(null);
+    setCheckingTx(null);
 
     try {
-      const data = JSON.parse(consignmentData);
+      let json = consignmentData;
+      let armored: Armor | null = null;
+      if (isArmored(consignmentData)) {
+        armored = parseArmor(consignmentData);
+        if (armored.label !== ARMOR_LABELS.consignment) {
+          throw new EncodingError('invalid_format', `Expected an ${ARMOR_LABELS.consignment} block, found ${armored.label}`, {
+            range: armored.labelRange,
+            expected: ARMOR_LABELS.consignment,
+          });
+        }
+        json = new TextDecoder().decode(armored.payload);
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(json);
+      } catch (e) {
+        throw armored ? new Error(`Armored payload is not consignment JSON: ${e.message}`) : e;
+      }
 
       // Validate basic structure
       if (!data.contract_id || !data.history) {
         throw new Error('Invalid consignment format: missing contract_id or history');
       }
 
+      const id = armored && armorHeader(armored, 'Id');
+      if (id && id.value !== data.contract_id) {
+        throw new EncodingError('invalid_format', 'Id header does not match the contract_id of the payload', {
+          range: id.range,
+          expected: data.contract_id,
+        });
+      }
+
+      setArmor(armored);
+      setDump(armored && payloadFields(armored));
       setParsed(data);
     } catch (e) {
-      setError(e.message);
+      setError(e);
     }
   };
 
+  useEffect(() => {
+    if (initialData) parseConsignment();
+  }, []);
+
   return (
     <div className={styles.tool}>
       <div className={styles.toolHeader}>
         <h3>📦 Consignment Inspector</h3>
         <button className={styles.exampleBtn} onClick={loadExample}>
-          Load Example
+          Load {armoredExample ? 'Armored' : 'JSON'} Example
         </button>
       </div>
 
@@ -88,11 +226,11 @@ export default function ConsignmentInspector() {
 
       <div className={styles.ioSection}>
         <div className={styles.inputSection}>
-          <label>Consignment JSON:</label>
+          <label>Consignment (JSON or armored):</label>
           <textarea
             value={consignmentData}
             onChange={(e) => setConsignmentData(e.target.value)}
-            placeholder='{"contract_id": "rgb:...", "history": [...], ...}'
+            placeholder={'{"contract_id": "rgb:...", "history": [...], ...}\nor -----BEGIN RGB CONSIGNMENT-----'}
             rows={8}
             style={{fontFamily: 'monospace', fontSize: '0.85rem'}}
           />
@@ -102,9 +240,7 @@ export default function ConsignmentInspector() {
           🔍 Inspect Consignment
         </button>
 
-        {error && (
-          <div className={styles.error}>❌ {error}</div>
-        )}
+        {error && <EncodingErrorView input={consignmentData} error={error} />}
 
         {parsed && (
           <div style={{marginTop: '2rem'}}>
@@ -117,6 +253,22 @@ export default function ConsignmentInspector() {
                 <code>{parsed.contract_id}</code>
               </div>
 
+              {armor && (
+                <>
+                  <div className={styles.field}>
+                    <span className={styles.fieldLabel}>Armor:</span>
+                    <code>{armor.label}, {armor.payload.length} bytes, checksum {armor.checksum} ✓</code>
+                  </div>
+                  {armor.headers.map(header => (
+                    <div key={header.name} className={styles.field}>
+                      <span className={styles.fieldLabel}>{header.name}:</span>
+                      <code>{header.value}</code>
+                    </div>
+                  ))}
+                  {dump && <HexDump bytes={armor.payload} fields={dump} />}
+                </>
+              )}
+
               {parsed.genesis && (
                 <div className={styles.field}>
                   <span className={styles.fieldLabel}>Genesis:</span>
@@ -186,6 +338,43 @@ export default function ConsignmentInspector() {
                         <div><strong>TX ID:</strong> {anchor.txid}</div>
                         <div><strong>Commitment:</strong> <code style={{fontSize: '0.75rem'}}>{anchor.commitment}</code></div>
                       </div>
+                      <div style={{display: 'flex', gap: '0.5rem', marginTop: '0.75rem'}}>
+                        {anchor.method === 'opret' && (
+                          <button
+                            className={styles.exampleBtn}
+                            onClick={() => setVerifyingAnchor(verifyingAnchor === idx ? null : idx)}>
+                            {verifyingAnchor === idx ? 'Hide verification' : '🔍 Verify opret output'}
+                          </button>
+                        )}
+                        <button
+                          className={styles.exampleBtn}
+                          onClick={() => setCheckingTx(checkingTx === idx ? null : idx)}>
+                          {checkingTx === idx ? 'Hide transaction' : '🧾 Check witness transaction'}
+                        </button>
+                      </div>
+                      {verifyingAnchor === idx && (
+                        <div style={{marginTop: '0.75rem'}}>
+                          <OpretVerifier
+                            initialScript={anchor.script ?? ''}
+                            initialExpected={String(anchor.commitment ?? '')}
+                          />
+                        </div>
+                      )}
+                      {checkingTx === idx && (
+                        <div style={{marginTop: '0.75rem'}}>
+                          <TxDecoder
+                            initialTx={anchor.witness_tx ?? ''}
+                            anchor={{
+                              txid: String(anchor.txid ?? ''),
+                              method: anchor.method,
+                              commitment: String(anchor.commitment ?? ''),
+                              internalKey: anchor.internal_key,
+                              scriptTreeRoot: anchor.partner,
+                              nonce: anchor.nonce,
+                            }}
+                          />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
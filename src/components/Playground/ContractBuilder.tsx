@@ -1,463 +1,784 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import styles from './Playground.module.css';
-import { generateExampleContractId, bytesToHex } from './encodingUtils';
-
-type ContractType = 'rgb20' | 'rgb21' | 'rgb25';
+import QrCodeView from './QrCodeView';
+import HexDump from './HexDump';
+import MediaInput from './MediaInput';
+import {
+  buildGenesis,
+  genesisJson,
+  allocatedStates,
+  defaultAllocations,
+  allocationTarget,
+  emptyAllocation,
+  isRevealedSeal,
+  validateAllocations,
+  remapAllocations,
+  itemLabel,
+} from './contractGenesis';
+import type { ContractGenesis, AllocationInput, Allocations } from './contractGenesis';
+import { formatSecretSeal, randomBlinding } from './blindSeal';
+import type { CloseMethod } from './blindSeal';
+import { bytesToHex } from './encodingUtils';
+import {
+  RGB20_SCHEMA,
+  RGB20_INFLATABLE_SCHEMA,
+  RGB21_SCHEMA,
+  RGB25_SCHEMA,
+  BUILTIN_SCHEMAS,
+  defaultValues,
+  validateValues,
+  formatFieldValue,
+  emptyRow,
+  listTotals,
+  importListCsv,
+  parseSchemaDescription,
+} from './contractSchema';
+import type {
+  ContractSchemaDef,
+  OwnedStateDef,
+  SchemaField,
+  FieldValue,
+  FormValues,
+  ScalarValue,
+  RowValue,
+} from './contractSchema';
+import { encodeArmor, ARMOR_LABELS } from './armor';
+import { EMBEDDED_MEDIA_MAX, isMedia, retainMedia, releaseMedia } from './mediaAttachment';
+
+/** Tabs with several variants switch between schemas of the same standard */
+const BUILDER_TABS: { label: string; variants: { label: string; schema: ContractSchemaDef }[] }[] = [
+  {
+    label: 'RGB20 Token',
+    variants: [
+      { label: 'Fixed Supply', schema: RGB20_SCHEMA },
+      { label: 'Inflatable', schema: RGB20_INFLATABLE_SCHEMA },
+    ],
+  },
+  { label: 'RGB21 NFT', variants: [{ label: 'NFT', schema: RGB21_SCHEMA }] },
+  { label: 'RGB25 Collectible', variants: [{ label: 'Collectible', schema: RGB25_SCHEMA }] },
+];
 
 export default function ContractBuilder() {
-  const [contractType, setContractType] = useState<ContractType>('rgb20');
+  const [activeTab, setActiveTab] = useState<number | 'custom'>(0);
+  const [variants, setVariants] = useState<Record<number, number>>({});
 
   return (
     <div className={styles.playground}>
       <div className={styles.toolTabs}>
+        {BUILDER_TABS.map((tab, idx) => (
+          <button
+            key={tab.label}
+            className={activeTab === idx ? styles.active : ''}
+            onClick={() => setActiveTab(idx)}>
+            {tab.label}
+          </button>
+        ))}
         <button
-          className={contractType === 'rgb20' ? styles.active : ''}
-          onClick={() => setContractType('rgb20')}>
-          RGB20 Token
-        </button>
-        <button
-          className={contractType === 'rgb21' ? styles.active : ''}
-          onClick={() => setContractType('rgb21')}>
-          RGB21 NFT
-        </button>
-        <button
-          className={contractType === 'rgb25' ? styles.active : ''}
-          onClick={() => setContractType('rgb25')}>
-          RGB25 Collectible
+          className={activeTab === 'custom' ? styles.active : ''}
+          onClick={() => setActiveTab('custom')}>
+          Custom Schema
         </button>
       </div>
 
       <div className={styles.toolContent}>
-        {contractType === 'rgb20' && <RGB20Builder />}
-        {contractType === 'rgb21' && <RGB21Builder />}
-        {contractType === 'rgb25' && <RGB25Builder />}
+        {activeTab === 'custom' ? <CustomSchemaBuilder /> : (
+          <>
+            {BUILDER_TABS[activeTab].variants.length > 1 && (
+              <div className={styles.modeSwitch}>
+                {BUILDER_TABS[activeTab].variants.map((variant, idx) => (
+                  <button
+                    key={variant.schema.name}
+                    className={(variants[activeTab] ?? 0) === idx ? styles.active : ''}
+                    onClick={() => setVariants({ ...variants, [activeTab]: idx })}>
+                    {variant.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <SchemaBuilder
+              key={BUILDER_TABS[activeTab].variants[variants[activeTab] ?? 0].schema.name}
+              schema={BUILDER_TABS[activeTab].variants[variants[activeTab] ?? 0].schema}
+            />
+          </>
+        )}
       </div>
     </div>
   );
 }
 
-function RGB20Builder() {
-  const [name, setName] = useState('');
-  const [ticker, setTicker] = useState('');
-  const [supply, setSupply] = useState('1000000');
-  const [precision, setPrecision] = useState('8');
-  const [description, setDescription] = useState('');
-  const [generated, setGenerated] = useState(false);
-  const [contractId, setContractId] = useState('');
+/**
+ * Contract export as JSON or as an armored block carrying the same JSON
+ */
+function ContractExport({genesis, json}: {genesis: ContractGenesis; json: string}) {
+  const [format, setFormat] = useState<'json' | 'armored'>('json');
 
-  const generate = () => {
-    setContractId(generateExampleContractId());
-    setGenerated(true);
-  };
-
-  const exportJSON = () => {
-    const contract = {
-      contract_type: 'RGB20',
-      version: '0.12.0',
-      metadata: {
-        name,
-        ticker,
-        description,
-      },
-      genesis: {
-        total_supply: supply,
-        precision: parseInt(precision),
-        timestamp: new Date().toISOString(),
-        contract_id: contractId,
-      },
-    };
-    return JSON.stringify(contract, null, 2);
-  };
+  const exported = format === 'json'
+    ? json
+    : encodeArmor(ARMOR_LABELS.contract, new TextEncoder().encode(json), [
+      { name: 'Id', value: genesis.contractId },
+      { name: 'Schema', value: genesis.schemaId },
+      { name: 'Standard', value: genesis.schema.standard },
+    ]);
 
   return (
-    <div className={styles.tool}>
-      <div className={styles.toolHeader}>
-        <h3>🪙 RGB20 Fungible Token Builder</h3>
+    <div className={styles.exportSection}>
+      <div className={styles.modeSwitch}>
+        <button
+          className={format === 'json' ? styles.active : ''}
+          onClick={() => setFormat('json')}>
+          JSON
+        </button>
+        <button
+          className={format === 'armored' ? styles.active : ''}
+          onClick={() => setFormat('armored')}>
+          Armored
+        </button>
       </div>
+      <label>Contract {format === 'json' ? 'JSON' : 'Armored'}:</label>
+      <pre className={styles.codeExport}>{exported}</pre>
+      <button onClick={() => navigator.clipboard.writeText(exported)}>
+        📋 Copy {format === 'json' ? 'JSON' : 'Armored'}
+      </button>
+    </div>
+  );
+}
 
-      <p className={styles.description}>
-        Create a fungible token like stablecoins, utility tokens, or securities
-      </p>
+/**
+ * Input for one scalar field
+ */
+function FieldInput({field, value, onChange}: {
+  field: SchemaField;
+  value: ScalarValue;
+  onChange: (value: ScalarValue) => void;
+}) {
+  if (field.kind === 'media') {
+    return (
+      <MediaInput
+        value={value}
+        maxEmbedded={field.embedded ? field.max ?? EMBEDDED_MEDIA_MAX : null}
+        accept={field.accept}
+        onChange={onChange}
+      />
+    );
+  }
+  if (typeof value !== 'string') return null;
+  switch (field.kind) {
+    case 'enum':
+      return (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={styles.formInput}>
+          {field.options.map(option => (
+            <option key={option.value} value={String(option.value)}>{option.label}</option>
+          ))}
+        </select>
+      );
+    case 'map':
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder ?? 'key=value'}
+          rows={2}
+          className={styles.formInput}
+        />
+      );
+    case 'string':
+      return field.multiline ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          rows={3}
+          className={styles.formInput}
+        />
+      ) : (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(field.uppercase ? e.target.value.toUpperCase() : e.target.value)}
+          placeholder={field.placeholder}
+          className={styles.formInput}
+        />
+      );
+    case 'integer':
+    case 'decimal':
+      return (
+        <input
+          type="text"
+          inputMode={field.kind === 'integer' ? 'numeric' : 'decimal'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.kind === 'integer' ? field.placeholder : undefined}
+          className={styles.formInput}
+        />
+      );
+    default:
+      return null;
+  }
+}
 
-      <div className={styles.formGrid}>
-        <div className={styles.formField}>
-          <label>Token Name*</label>
-          <input
-            type="text"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="My Token"
-            className={styles.formInput}
-          />
-        </div>
+/** Sub-fields that get a whole row of the item card */
+const isWideField = (field: SchemaField) =>
+  field.kind === 'media' || field.kind === 'map' || (field.kind === 'string' && field.multiline);
 
-        <div className={styles.formField}>
-          <label>Ticker Symbol*</label>
-          <input
-            type="text"
-            value={ticker}
-            onChange={(e) => setTicker(e.target.value.toUpperCase())}
-            placeholder="MTK"
-            maxLength={10}
-            className={styles.formInput}
-          />
-        </div>
+// Keys of list rows, carried over to the edited copy of a row so that edits finishing
+// later (a file still hashing) find their row wherever it has moved
+const rowKeys = new WeakMap<RowValue, number>();
+let nextRowKey = 0;
 
-        <div className={styles.formField}>
-          <label>Total Supply*</label>
-          <input
-            type="number"
-            value={supply}
-            onChange={(e) => setSupply(e.target.value)}
-            placeholder="1000000"
-            className={styles.formInput}
-          />
-        </div>
+function rowKey(row: RowValue): number {
+  if (!rowKeys.has(row)) rowKeys.set(row, nextRowKey++);
+  return rowKeys.get(row);
+}
 
-        <div className={styles.formField}>
-          <label>Precision (decimals)*</label>
-          <select
-            value={precision}
-            onChange={(e) => setPrecision(e.target.value)}
-            className={styles.formInput}>
-            <option value="0">0 - Whole numbers only</option>
-            <option value="2">2 - 0.01 (cents)</option>
-            <option value="8">8 - 0.00000001 (satoshi-like)</option>
-            <option value="18">18 - 0.000000000000000001 (ether-like)</option>
-          </select>
-        </div>
+/** Drop the media previews held by rows going away */
+function releaseRows(rows: RowValue[]): void {
+  rows.forEach(row => Object.values(row).forEach(value => isMedia(value) && releaseMedia(value)));
+}
+
+/**
+ * Rows of a list field, one input per sub-field
+ * `order[i]` passed to `onChange` is the previous index of row i, null for new rows;
+ * cell edits go through `onEdit` and apply to the rows current at the time
+ */
+function ListFieldEditor({field, rows, errors, onChange, onEdit}: {
+  field: SchemaField & { kind: 'list' };
+  rows: RowValue[];
+  errors: Record<string, string>;
+  onChange: (rows: RowValue[], order: (number | null)[]) => void;
+  onEdit: (update: (rows: RowValue[]) => RowValue[]) => void;
+}) {
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [csv, setCsv] = useState('');
+  const [csvError, setCsvError] = useState('');
+
+  const indices = rows.map((_, i) => i);
+  const setCell = (key: number, name: string, value: ScalarValue) =>
+    onEdit(current => current.map(row => {
+      if (rowKey(row) !== key) return row;
+      const edited = { ...row, [name]: value };
+      rowKeys.set(edited, key);
+      return edited;
+    }));
+  const move = (idx: number, to: number) => {
+    const order = [...indices];
+    order.splice(to, 0, ...order.splice(idx, 1));
+    onChange(order.map(i => rows[i]), order);
+  };
+  // Media previews are counted per row holding them, so a copy keeps working when the original goes
+  const remove = (idx: number) => {
+    releaseRows([rows[idx]]);
+    onChange(rows.filter((_, i) => i !== idx), indices.filter(i => i !== idx));
+  };
+  const duplicate = (idx: number) => {
+    Object.values(rows[idx]).forEach(value => isMedia(value) && retainMedia(value));
+    onChange([...rows.slice(0, idx + 1), { ...rows[idx] }, ...rows.slice(idx + 1)],
+      [...indices.slice(0, idx + 1), null, ...indices.slice(idx + 1)]);
+  };
+
+  const importCsv = () => {
+    setCsvError('');
+    try {
+      const imported = importListCsv(field, csv);
+      releaseRows(rows);
+      onChange(imported, imported.map(() => null));
+      setCsvOpen(false);
+    } catch (e) {
+      setCsvError(e.message);
+    }
+  };
 
-        <div className={styles.formField} style={{gridColumn: '1 / -1'}}>
-          <label>Description</label>
+  return (
+    <div className={styles.itemsList}>
+      <h4>{field.label} ({rows.length})</h4>
+      {field.hint && <p className={styles.description}>{field.hint}</p>}
+      {rows.map((row, idx) => (
+        <div key={rowKey(row)} className={styles.itemCard}>
+          <div className={styles.itemActions}>
+            <span>#{idx + 1}</span>
+            <button onClick={() => move(idx, idx - 1)} disabled={idx === 0} title="Move up">↑</button>
+            <button onClick={() => move(idx, idx + 1)} disabled={idx === rows.length - 1} title="Move down">↓</button>
+            <button onClick={() => duplicate(idx)} disabled={rows.length >= field.max} title="Duplicate">⧉</button>
+            <button onClick={() => remove(idx)} title="Remove">✕</button>
+          </div>
+          <div className={styles.itemFields}>
+            {field.of.map(sub => (
+              <div key={sub.name} className={styles.formField} style={isWideField(sub) ? {gridColumn: '1 / -1'} : undefined}>
+                <label>{sub.label}{sub.optional || sub.kind === 'map' ? '' : '*'}</label>
+                <FieldInput field={sub} value={row[sub.name] ?? ''} onChange={(value) => setCell(rowKey(row), sub.name, value)} />
+              </div>
+            ))}
+          </div>
+          {field.of.map(sub => errors[`${field.name}[${idx}].${sub.name}`] && (
+            <div key={sub.name} className={styles.fieldError}>{errors[`${field.name}[${idx}].${sub.name}`]}</div>
+          ))}
+        </div>
+      ))}
+      {listTotals(field, rows).map(total => (
+        <div key={total.field.name}>
+          <small>Total {total.field.label}: {total.sum.toLocaleString()}</small>
+        </div>
+      ))}
+      {errors[field.name] && <div className={styles.fieldError}>{errors[field.name]}</div>}
+      <div className={styles.itemsToolbar}>
+        {rows.length < field.max && (
+          <button className={styles.exampleBtn} onClick={() => onChange([...rows, emptyRow(field)], [...indices, null])}>
+            + Add
+          </button>
+        )}
+        <button className={styles.exampleBtn} onClick={() => setCsvOpen(!csvOpen)}>
+          📥 Import CSV
+        </button>
+      </div>
+      {csvOpen && (
+        <div className={styles.inputSection}>
+          <label>
+            CSV with a header row ({field.of.filter(sub => sub.kind !== 'media').map(sub => sub.name).join(', ')}); replaces all rows:
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) setCsv(await file.text());
+                e.target.value = '';
+              }}
+              style={{width: 'auto', border: 'none', padding: 0}}
+            />
+          </label>
           <textarea
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            placeholder="A description of your token..."
-            rows={3}
-            className={styles.formInput}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={field.of.filter(sub => sub.kind !== 'media').map(sub => sub.name).join(',')}
+            rows={5}
           />
+          <button className={styles.exampleBtn} onClick={importCsv} disabled={!csv.trim()}>
+            Import {field.label}
+          </button>
+          {csvError && <div className={styles.fieldError}>{csvError}</div>}
         </div>
-      </div>
+      )}
+    </div>
+  );
+}
 
-      <button
-        className={styles.primaryBtn}
-        onClick={generate}
-        disabled={!name || !ticker || !supply}>
-        🚀 Generate Contract
-      </button>
+/**
+ * Outpoint of a made-up transaction, for trying the builder out
+ */
+function randomOutpoint(): string {
+  return `${bytesToHex(crypto.getRandomValues(new Uint8Array(32)))}:0`;
+}
 
-      {generated && (
-        <div className={styles.generatedContract}>
-          <h4>✅ Contract Generated</h4>
+/**
+ * Genesis allocations of one owned state type: seal, item and amount per row;
+ * declarative rights take a seal alone
+ */
+function AllocationsEditor({owned, items, target, rows, errors, onChange}: {
+  owned: OwnedStateDef;
+  /** Entries of the items list, null without per-item supply */
+  items: RowValue[] | null;
+  /** Amount the rows must add up to, when known */
+  target: bigint | null;
+  rows: AllocationInput[];
+  errors: Record<string, string>;
+  onChange: (rows: AllocationInput[]) => void;
+}) {
+  const setRow = (idx: number, changes: Partial<AllocationInput>) =>
+    onChange(rows.map((row, i) => (i === idx ? { ...row, ...changes } : row)));
+  const allocated = rows.reduce((sum, row) => sum + (/^\d+$/.test(row.amount.trim()) ? BigInt(row.amount.trim()) : 0n), 0n);
 
-          <div className={styles.contractPreview}>
-            <div className={styles.previewField}>
-              <span>Contract ID:</span>
-              <code>{contractId}</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Type:</span>
-              <code>RGB20 Fungible Token</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Name:</span>
-              <code>{name} ({ticker})</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Supply:</span>
-              <code>{parseInt(supply).toLocaleString()} (precision: {precision})</code>
+  return (
+    <div className={styles.itemsList}>
+      <h4>{owned.label ?? `Allocations: ${owned.name}`} ({rows.length})</h4>
+      {owned.hint && <p className={styles.description}>{owned.hint}</p>}
+      {rows.map((row, idx) => {
+        const path = `${owned.name}[${idx}]`;
+        const revealed = isRevealedSeal(row.seal);
+        return (
+          <div key={idx} className={styles.itemCard}>
+            <div className={styles.itemFields}>
+              <div className={styles.formField} style={{gridColumn: 'span 2'}}>
+                <label>
+                  Seal*
+                  <button
+                    className={styles.exampleBtn}
+                    onClick={() => setRow(idx, { seal: randomOutpoint() })}
+                    title="Outpoint of a made-up transaction; issue to a UTXO you control">
+                    🎲 Demo UTXO
+                  </button>
+                </label>
+                <input
+                  type="text"
+                  value={row.seal}
+                  onChange={(e) => setRow(idx, { seal: e.target.value })}
+                  placeholder="txid:vout or utxob:..."
+                  className={styles.formInput}
+                />
+              </div>
+              <div className={styles.formField}>
+                <label>Method</label>
+                <select
+                  value={row.method}
+                  onChange={(e) => setRow(idx, { method: e.target.value as CloseMethod })}
+                  disabled={!revealed}
+                  title={revealed ? undefined : 'A blinded seal already commits to its method'}
+                  className={styles.formInput}>
+                  <option value="tapret1st">tapret1st</option>
+                  <option value="opret1st">opret1st</option>
+                </select>
+              </div>
+              {revealed && (
+                <div className={styles.formField}>
+                  <label>
+                    Blinding
+                    <button
+                      className={styles.exampleBtn}
+                      onClick={() => setRow(idx, { blinding: randomBlinding().toString() })}
+                      title="Hide the outpoint behind a random factor; keep it, the contract ID depends on it">
+                      🎲 Randomize
+                    </button>
+                  </label>
+                  <input
+                    type="text"
+                    value={row.blinding}
+                    onChange={(e) => setRow(idx, { blinding: e.target.value })}
+                    placeholder="0"
+                    className={styles.formInput}
+                  />
+                </div>
+              )}
+              {items && (
+                <div className={styles.formField}>
+                  <label>Item</label>
+                  <select value={row.item} onChange={(e) => setRow(idx, { item: e.target.value })} className={styles.formInput}>
+                    {items.map((entry, i) => (
+                      <option key={i} value={String(i)}>{itemLabel(entry, i)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {owned.kind !== 'declarative' && (
+                <div className={styles.formField}>
+                  <label>Amount*</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={row.amount}
+                    onChange={(e) => setRow(idx, { amount: e.target.value })}
+                    className={styles.formInput}
+                  />
+                </div>
+              )}
+              <button
+                className={styles.itemRemove}
+                onClick={() => onChange(rows.filter((_, i) => i !== idx))}
+                title="Remove">
+                ✕
+              </button>
             </div>
+            {['seal', 'blinding', 'item', 'amount'].map(key => errors[`${path}.${key}`] && (
+              <div key={key} className={styles.fieldError}>{errors[`${path}.${key}`]}</div>
+            ))}
           </div>
-
-          <div className={styles.exportSection}>
-            <label>Contract JSON:</label>
-            <pre className={styles.codeExport}>{exportJSON()}</pre>
-            <button onClick={() => navigator.clipboard.writeText(exportJSON())}>
-              📋 Copy JSON
-            </button>
-          </div>
-
-          <div className={styles.info}>
-            💡 This is a demo contract. In production, use the RGB CLI or SDK to create actual contracts with proper validation.
-          </div>
-        </div>
+        );
+      })}
+      {target !== null && (
+        <small>
+          Allocated {allocated.toLocaleString()} of {target.toLocaleString()}
+          {allocated < target && ` (${(target - allocated).toLocaleString()} unallocated)`}
+        </small>
       )}
+      {errors[owned.name] && <div className={styles.fieldError}>{errors[owned.name]}</div>}
+      <button className={styles.exampleBtn} onClick={() => onChange([...rows, emptyAllocation()])}>
+        + Add Allocation
+      </button>
     </div>
   );
 }
 
-function RGB21Builder() {
-  const [name, setName] = useState('');
-  const [description, setDescription] = useState('');
-  const [creator, setCreator] = useState('');
-  const [royalty, setRoyalty] = useState('5');
+/**
+ * Builder form rendered from a schema description
+ */
+function SchemaBuilder({schema}: {schema: ContractSchemaDef}) {
+  const [values, setValues] = useState<FormValues>(() => defaultValues(schema));
+  const [allocations, setAllocations] = useState<Allocations>(() => defaultAllocations(schema, defaultValues(schema)));
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [generated, setGenerated] = useState(false);
-  const [contractId, setContractId] = useState('');
+  const [genesis, setGenesis] = useState<ContractGenesis | null>(null);
+  const [error, setError] = useState('');
+
+  // Previews of the form's media are released when the form goes, e.g. on a tab switch
+  const latestValues = useRef(values);
+  latestValues.current = values;
+  useEffect(() => () => {
+    Object.values(latestValues.current).forEach(value => {
+      if (Array.isArray(value)) releaseRows(value);
+      else if (isMedia(value)) releaseMedia(value);
+    });
+  }, []);
+
+  const errors = { ...validateValues(schema, values), ...validateAllocations(schema, values, allocations) };
+  const hasErrors = Object.keys(errors).length > 0;
+  const fields = schema.globals.flatMap(global => global.fields);
+
+  // Updates are functional: media inputs report back after hashing, by when other edits may have landed
+  const setValue = (name: string, value: FieldValue) => {
+    setValues(current => ({ ...current, [name]: value }));
+    setTouched(current => ({ ...current, [name]: true }));
+  };
+
+  const setList = (name: string, rows: RowValue[], order: (number | null)[]) => {
+    setValue(name, rows);
+    setAllocations(current => remapAllocations(schema, current, name, rows, order));
+  };
+
+  const editList = (name: string, update: (rows: RowValue[]) => RowValue[]) => {
+    setValues(current => ({ ...current, [name]: update(current[name] as RowValue[]) }));
+    setTouched(current => ({ ...current, [name]: true }));
+  };
+
+  const setAllocationRows = (owned: OwnedStateDef, rows: AllocationInput[]) => {
+    setAllocations(current => ({ ...current, [owned.type]: rows }));
+    setTouched(current => ({ ...current, [owned.name]: true }));
+  };
 
   const generate = () => {
-    setContractId(generateExampleContractId());
+    setError('');
     setGenerated(true);
+    if (hasErrors) {
+      setGenesis(null);
+      return;
+    }
+    try {
+      setGenesis(buildGenesis(schema, values, allocations));
+    } catch (e) {
+      setError(e.message);
+      setGenesis(null);
+    }
   };
 
-  const exportJSON = () => {
-    const contract = {
-      contract_type: 'RGB21',
-      version: '0.12.0',
-      metadata: {
-        name,
-        description,
-        creator,
-      },
-      genesis: {
-        royalty_rate: parseFloat(royalty),
-        timestamp: new Date().toISOString(),
-        contract_id: contractId,
-      },
-    };
-    return JSON.stringify(contract, null, 2);
+  // Keep the contract ID in step with the form once generated
+  useEffect(() => {
+    if (generated) generate();
+  }, [values, allocations]);
+
+  const exportJSON = () => JSON.stringify({
+    contract_type: schema.standard,
+    version: '0.12.0',
+    schema: schema.name,
+    genesis: genesisJson(genesis),
+  }, null, 2);
+
+  const allocationItem = (type: number, item: number) => {
+    const owned = schema.owned.find(o => o.type === type);
+    return itemLabel((values[owned.itemsField] as RowValue[])[item], item);
   };
 
+  const allocationSummary = (owned: OwnedStateDef) => {
+    const assigned = genesis.allocations.filter(a => a.type === owned.type);
+    const seals = `${assigned.length} ${assigned.length === 1 ? 'seal' : 'seals'}`;
+    if (owned.kind === 'declarative') return assigned.length ? `held by ${seals}` : 'not granted';
+    const total = assigned.reduce((sum, a) => sum + a.amount, 0n);
+    return assigned.length ? `${total.toLocaleString()} across ${seals}` : 'none';
+  };
+
+  const fieldError = (name: string) =>
+    (generated || touched[name]) && errors[name] ? <span className={styles.fieldError}>{errors[name]}</span> : null;
+
   return (
     <div className={styles.tool}>
       <div className={styles.toolHeader}>
-        <h3>🖼️ RGB21 NFT Builder</h3>
+        <h3>{schema.title}</h3>
       </div>
 
-      <p className={styles.description}>
-        Create unique non-fungible tokens for digital art, collectibles, and unique assets
-      </p>
+      {schema.description && <p className={styles.description}>{schema.description}</p>}
 
       <div className={styles.formGrid}>
-        <div className={styles.formField} style={{gridColumn: '1 / -1'}}>
-          <label>NFT Name*</label>
-          <input
-            type="text"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="My Unique NFT"
-            className={styles.formInput}
-          />
-        </div>
-
-        <div className={styles.formField} style={{gridColumn: '1 / -1'}}>
-          <label>Description*</label>
-          <textarea
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            placeholder="A unique digital artwork representing..."
-            rows={4}
-            className={styles.formInput}
-          />
-        </div>
-
-        <div className={styles.formField}>
-          <label>Creator</label>
-          <input
-            type="text"
-            value={creator}
-            onChange={(e) => setCreator(e.target.value)}
-            placeholder="Artist name"
-            className={styles.formInput}
-          />
-        </div>
-
-        <div className={styles.formField}>
-          <label>Royalty Rate (%)</label>
-          <input
-            type="number"
-            value={royalty}
-            onChange={(e) => setRoyalty(e.target.value)}
-            placeholder="5"
-            min="0"
-            max="100"
-            step="0.1"
-            className={styles.formInput}
-          />
-        </div>
+        {fields.filter(field => field.kind !== 'list').map(field => (
+          <div
+            key={field.name}
+            className={styles.formField}
+            style={(field.kind === 'string' && field.multiline) || field.kind === 'media' ? {gridColumn: '1 / -1'} : undefined}>
+            <label>{field.label}{field.optional ? '' : '*'}</label>
+            <FieldInput
+              field={field}
+              value={values[field.name] as ScalarValue}
+              onChange={(value) => setValue(field.name, value)}
+            />
+            {field.hint && <small>{field.hint}</small>}
+            {fieldError(field.name)}
+          </div>
+        ))}
       </div>
 
-      <button
-        className={styles.primaryBtn}
-        onClick={generate}
-        disabled={!name || !description}>
-        🚀 Generate NFT Contract
+      {fields.map(field => field.kind === 'list' && (
+        <ListFieldEditor
+          key={field.name}
+          field={field}
+          rows={values[field.name] as RowValue[]}
+          errors={generated || touched[field.name] ? errors : {}}
+          onChange={(rows, order) => setList(field.name, rows, order)}
+          onEdit={(update) => editList(field.name, update)}
+        />
+      ))}
+
+      {allocatedStates(schema).map(owned => (
+        <AllocationsEditor
+          key={owned.type}
+          owned={owned}
+          items={owned.itemsField ? values[owned.itemsField] as RowValue[] : null}
+          target={owned.kind === 'declarative' || owned.itemsField ? null : allocationTarget(owned, values)}
+          rows={allocations[owned.type] ?? []}
+          errors={generated || touched[owned.name] ? errors : {}}
+          onChange={(rows) => setAllocationRows(owned, rows)}
+        />
+      ))}
+
+      <button className={styles.primaryBtn} onClick={generate}>
+        🚀 Generate Contract
       </button>
 
-      {generated && (
+      {generated && hasErrors && (
+        <div className={styles.error}>❌ Fix the highlighted fields to generate the contract</div>
+      )}
+      {error && <div className={styles.error}>❌ {error}</div>}
+
+      {generated && genesis && (
         <div className={styles.generatedContract}>
-          <h4>✅ NFT Contract Generated</h4>
+          <h4>✅ Contract Generated</h4>
 
           <div className={styles.contractPreview}>
             <div className={styles.previewField}>
               <span>Contract ID:</span>
-              <code>{contractId}</code>
+              <code>{genesis.contractId}</code>
             </div>
             <div className={styles.previewField}>
-              <span>Type:</span>
-              <code>RGB21 Non-Fungible Token</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Name:</span>
-              <code>{name}</code>
+              <span>Schema ID:</span>
+              <code>{genesis.schemaId}</code>
             </div>
             <div className={styles.previewField}>
-              <span>Royalty:</span>
-              <code>{royalty}% on secondary sales</code>
+              <span>Type:</span>
+              <code>{schema.standard} ({schema.name})</code>
             </div>
+            {fields.map(field => (
+              <div key={field.name} className={styles.previewField}>
+                <span>{field.label}:</span>
+                <code>{formatFieldValue(field, values[field.name])}</code>
+              </div>
+            ))}
+            {allocatedStates(schema).map(owned => (
+              <div key={owned.type} className={styles.previewField}>
+                <span>{owned.label ?? owned.name}:</span>
+                <code>{allocationSummary(owned)}</code>
+              </div>
+            ))}
+            {genesis.allocations.map((allocation, idx) => (
+              <div key={idx} className={styles.previewField}>
+                <span>{schema.owned.find(o => o.type === allocation.type).label ?? allocation.name} #{idx + 1}:</span>
+                <code>
+                  {allocation.amount !== null && allocation.amount.toLocaleString()}
+                  {allocation.item !== null && ` × ${allocationItem(allocation.type, allocation.item)}`}
+                  {allocation.amount !== null && ' → '}
+                  {allocation.seal ? `${allocation.seal.method} ${allocation.seal.txid.slice(0, 8)}…:${allocation.seal.vout}` : formatSecretSeal(allocation.concealed)}
+                </code>
+              </div>
+            ))}
           </div>
 
           <div className={styles.exportSection}>
-            <label>Contract JSON:</label>
-            <pre className={styles.codeExport}>{exportJSON()}</pre>
-            <button onClick={() => navigator.clipboard.writeText(exportJSON())}>
-              📋 Copy JSON
-            </button>
+            <label>Contract ID QR Code:</label>
+            <QrCodeView value={genesis.contractId} filename="rgb-contract-id" />
           </div>
 
-          <div className={styles.info}>
-            💡 This is a demo contract. Add media attachments and metadata using RGB CLI or SDK.
+          <div className={styles.exportSection}>
+            <label>Genesis Commitment ({genesis.commitment.bytes.length} bytes, hashed into the contract ID):</label>
+            <HexDump bytes={genesis.commitment.bytes} fields={genesis.commitment.fields} />
           </div>
+
+          <ContractExport genesis={genesis} json={exportJSON()} />
+
+          {schema.note && (
+            <div className={styles.info}>
+              💡 {schema.note}
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
 
-function RGB25Builder() {
-  const [collectionName, setCollectionName] = useState('');
-  const [symbol, setSymbol] = useState('');
-  const [items, setItems] = useState([
-    { name: 'Common Card', supply: 1000, rarity: 'Common' },
-    { name: 'Rare Card', supply: 100, rarity: 'Rare' },
-    { name: 'Ultra Rare Card', supply: 10, rarity: 'Ultra Rare' },
-  ]);
-  const [generated, setGenerated] = useState(false);
-  const [contractId, setContractId] = useState('');
-
-  const generate = () => {
-    setContractId(generateExampleContractId());
-    setGenerated(true);
+/**
+ * Builder for a schema description pasted or loaded from a file
+ */
+function CustomSchemaBuilder() {
+  const [description, setDescription] = useState(() => JSON.stringify(RGB20_SCHEMA, null, 2));
+  const [schema, setSchema] = useState<ContractSchemaDef | null>(null);
+  const [loads, setLoads] = useState(0);
+  const [error, setError] = useState('');
+
+  const loadSchema = (json: string) => {
+    setError('');
+    try {
+      setSchema(parseSchemaDescription(json));
+      // Remount the form so values start from the new defaults
+      setLoads(loads + 1);
+    } catch (e) {
+      setError(e.message);
+      setSchema(null);
+    }
   };
 
-  const exportJSON = () => {
-    const contract = {
-      contract_type: 'RGB25',
-      version: '0.12.0',
-      metadata: {
-        collection_name: collectionName,
-        symbol,
-      },
-      genesis: {
-        items: items.map((item, idx) => ({
-          item_id: `item-${idx}`,
-          name: item.name,
-          total_supply: item.supply,
-          rarity: item.rarity,
-        })),
-        timestamp: new Date().toISOString(),
-        contract_id: contractId,
-      },
-    };
-    return JSON.stringify(contract, null, 2);
+  const loadFile = async (file: File) => {
+    const json = await file.text();
+    setDescription(json);
+    loadSchema(json);
   };
 
   return (
     <div className={styles.tool}>
       <div className={styles.toolHeader}>
-        <h3>🎮 RGB25 Collectible Builder</h3>
+        <h3>📄 Custom Schema</h3>
+        <select
+          className={styles.formInput}
+          value=""
+          onChange={(e) => setDescription(JSON.stringify(BUILTIN_SCHEMAS[Number(e.target.value)], null, 2))}>
+          <option value="" disabled>Start from a template…</option>
+          {BUILTIN_SCHEMAS.map((builtin, idx) => (
+            <option key={builtin.name} value={idx}>{builtin.standard} {builtin.name}</option>
+          ))}
+        </select>
       </div>
 
       <p className={styles.description}>
-        Create collectible fungible assets like trading cards, game items, or limited editions
+        Paste or load a schema description: global state fields with their types, bounds and defaults,
+        and the owned state types. The builder form, validation and genesis export are generated from it.
       </p>
 
-      <div className={styles.formGrid}>
-        <div className={styles.formField}>
-          <label>Collection Name*</label>
-          <input
-            type="text"
-            value={collectionName}
-            onChange={(e) => setCollectionName(e.target.value)}
-            placeholder="Crypto Legends"
-            className={styles.formInput}
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>
+            Schema Description (JSON):
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+              style={{width: 'auto', border: 'none', padding: 0}}
+            />
+          </label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={14}
           />
         </div>
 
-        <div className={styles.formField}>
-          <label>Symbol*</label>
-          <input
-            type="text"
-            value={symbol}
-            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
-            placeholder="CLGD"
-            maxLength={10}
-            className={styles.formInput}
-          />
-        </div>
-      </div>
+        <button className={styles.primaryBtn} onClick={() => loadSchema(description)}>
+          🧩 Build Form
+        </button>
 
-      <div className={styles.itemsList}>
-        <h4>Collection Items ({items.length})</h4>
-        {items.map((item, idx) => (
-          <div key={idx} className={styles.itemCard}>
-            <div className={styles.itemInfo}>
-              <strong>{item.name}</strong>
-              <span>{item.supply.toLocaleString()} copies • {item.rarity}</span>
-            </div>
-          </div>
-        ))}
-        <div className={styles.info}>
-          💡 Edit items in the exported JSON to customize your collection
-        </div>
+        {error && <div className={styles.error}>❌ {error}</div>}
       </div>
 
-      <button
-        className={styles.primaryBtn}
-        onClick={generate}
-        disabled={!collectionName || !symbol}>
-        🚀 Generate Collection
-      </button>
-
-      {generated && (
-        <div className={styles.generatedContract}>
-          <h4>✅ Collection Generated</h4>
-
-          <div className={styles.contractPreview}>
-            <div className={styles.previewField}>
-              <span>Contract ID:</span>
-              <code>{contractId}</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Type:</span>
-              <code>RGB25 Collectible Fungibles</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Collection:</span>
-              <code>{collectionName} ({symbol})</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Total Items:</span>
-              <code>{items.length} item types</code>
-            </div>
-            <div className={styles.previewField}>
-              <span>Total Supply:</span>
-              <code>{items.reduce((sum, item) => sum + item.supply, 0).toLocaleString()} copies</code>
-            </div>
-          </div>
-
-          <div className={styles.exportSection}>
-            <label>Contract JSON:</label>
-            <pre className={styles.codeExport}>{exportJSON()}</pre>
-            <button onClick={() => navigator.clipboard.writeText(exportJSON())}>
-              📋 Copy JSON
-            </button>
-          </div>
-
-          <div className={styles.info}>
-            💡 This is a demo contract. Use RGB CLI or SDK to add media and attributes to items.
-          </div>
-        </div>
-      )}
+      {schema && !error && <SchemaBuilder key={loads} schema={schema} />}
     </div>
   );
 }
@@ -0,0 +1,48 @@
+import React from 'react';
+import styles from './Playground.module.css';
+import { EncodingError } from './encodingUtils';
+import { InvoiceError } from './rgbInvoice';
+
+const CONTEXT_CHARS = 32;
+const INVISIBLE_RE = /[\s\u200b-\u200d\u2060\ufeff]/;
+
+function visible(text: string): React.ReactNode[] {
+  return Array.from(text).map((char, idx) =>
+    INVISIBLE_RE.test(char) && char !== ' '
+      ? <small key={idx}>U+{char.codePointAt(0).toString(16).toUpperCase().padStart(4, '0')}</small>
+      : char,
+  );
+}
+
+/**
+ * Error message with the offending characters highlighted in the input
+ */
+export default function EncodingErrorView({input, error}: {input: string; error: Error}) {
+  const located = error instanceof EncodingError
+    ? error
+    : error instanceof InvoiceError ? error.encoding : null;
+  const range = located?.range && located.range.end <= input.length ? located.range : null;
+
+  const start = range ? Math.max(0, range.start - CONTEXT_CHARS) : 0;
+  const end = range ? Math.min(input.length, range.end + CONTEXT_CHARS) : 0;
+
+  return (
+    <div className={styles.error}>
+      ❌ {error.message}
+      {range && (range.end - range.start === 1
+        ? ` (position ${range.start})`
+        : ` (positions ${range.start}-${range.end - 1})`)}
+      {range && (
+        <pre className={styles.errorSource}>
+          {start > 0 && '…'}
+          {input.slice(start, range.start)}
+          <mark className={styles.errorMark}>{visible(input.slice(range.start, range.end))}</mark>
+          {input.slice(range.end, end)}
+          {end < input.length && '…'}
+        </pre>
+      )}
+      {located?.suggestion && <div className={styles.errorHint}>💡 {located.suggestion}</div>}
+      {located?.expected && <div className={styles.errorHint}>Expected: {located.expected}</div>}
+    </div>
+  );
+}
@@ -1,97 +1,401 @@
 import React, { useState, useEffect } from 'react';
 import styles from './Playground.module.css';
+import QrCodeView from './QrCodeView';
+import QrImageInput from './QrImageInput';
+import type { QrDecodeResult } from './qrReader';
 import {
   hexToBytes,
   bytesToHex,
+  EncodingError,
   encodeBaid64,
-  decodeBaid64,
+  parseBaid64,
+  baid64Components,
   parseRgbId,
   formatContractId,
   commitmentHash,
+  sha256,
+  sha256Sync,
+  taggedHashSteps,
+  ripemd160,
+  hash160,
   isValidHex,
+  isRecord,
   isValidBaid64,
   generateExampleContractId,
+  computeSchemaId,
+  computeInterfaceId,
+  computeContractId,
+  computeOperationId,
+  exampleGenesis,
+  formatRgbId,
+  RGB_ID_HRI,
+  RGB_ID_TAGS,
+  EXAMPLE_SCHEMA_DEFINITION,
   encodeBase64,
   encodeBech32,
+  decodeBech32,
+  bech32WordsToBytes,
+  decodeSegwitAddress,
   encodeBase58,
+  encodeBase58Check,
+  encodeSegwitAddress,
+  formatBitcoinAddress,
 } from './encodingUtils';
+import {
+  strictEncode,
+  strictDecode,
+  describeType,
+  EXAMPLE_STRICT_TYPES,
+} from './strictEncoding';
+import type { StrictType, StrictAnnotation } from './strictEncoding';
+import {
+  parseRgbInvoice,
+  serializeRgbInvoice,
+  validateRgbInvoice,
+} from './rgbInvoice';
+import type { RgbInvoice, InvoiceField, InvoiceState, InvoiceChain } from './rgbInvoice';
+import {
+  buildMpcTree,
+  mpcProof,
+  verifyMpcProof,
+  serializeMpcProof,
+  parseMpcProof,
+  MPC_LEAF_TAG,
+  MERKLE_BRANCH_TAG,
+} from './mpcTree';
+import type { MpcTree, MpcVerification } from './mpcTree';
+import {
+  buildTapretCommitment,
+  buildTapTree,
+  tapretScriptAsm,
+  TAPSCRIPT_LEAF_VERSION,
+} from './tapret';
+import type { TapretCommitment, TapTree } from './tapret';
+import { pointMultiply, compressPoint } from './secp256k1';
+import { opretScript, opretTxOut, OPRET_PROTOCOL_TAGS } from './opret';
+import { scriptToAsm } from './bitcoinScript';
+import OpretVerifier, { formatOpretTag } from './OpretVerifier';
+import TxDecoder from './TxDecoder';
+import EncodingErrorView from './EncodingErrorView';
+import HexDump from './HexDump';
+import type { HexDumpField } from './HexDump';
+import { detectInput } from './inputDetection';
+import type { Detection, DetectionTarget } from './inputDetection';
+import { parsePsbt, parsePsbtInput } from './psbt';
+import { formatSats, OUTPUT_SCRIPT_LABELS } from './bitcoinTx';
+import {
+  serializeBlindSeal,
+  concealSeal,
+  formatSecretSeal,
+  parseSecretSeal,
+  parseBlinding,
+  randomBlinding,
+  SECRET_SEAL_TAG,
+  CLOSE_METHOD_CODES,
+} from './blindSeal';
+import type { BlindSeal, CloseMethod } from './blindSeal';
+import { decodeAddress, ADDRESS_TYPE_LABELS } from './bitcoinAddress';
+import type { DecodedAddress } from './bitcoinAddress';
+import type { Psbt, PsbtEntry } from './psbt';
+import type {
+  Baid64Components,
+  Baid64Options,
+  Bech32Variant,
+  Bech32Decoded,
+  SegwitAddress,
+  RgbIdKind,
+  RgbIdCommitment,
+  CommitmentField,
+  OperationState,
+} from './encodingUtils';
+
+type Tool = 'detect' | 'baid64' | 'hex' | 'bech32' | 'hash' | 'strict' | 'invoice' | 'mpc' | 'tapret' | 'opret' | 'tx' | 'psbt' | 'seal' | 'address' | 'ids';
+
+export default function EncodingPlayground({onOpenConsignment}: {
+  /** Receives consignment JSON pasted into the smart input */
+  onOpenConsignment?: (json: string) => void;
+}) {
+  const [activeTool, setActiveTool] = useState<Tool>('detect');
+  const [routed, setRouted] = useState<{ tool: Tool; value: string } | null>(null);
 
-type Tool = 'baid64' | 'hex' | 'hash' | 'invoice';
+  const openDetection = (detection: Detection) => {
+    if (detection.target === 'consignment') {
+      onOpenConsignment?.(detection.value);
+      return;
+    }
+    setRouted({ tool: detection.target, value: detection.value });
+    setActiveTool(detection.target);
+  };
 
-export default function EncodingPlayground() {
-  const [activeTool, setActiveTool] = useState<Tool>('baid64');
+  const selectTool = (tool: Tool) => {
+    setRouted(null);
+    setActiveTool(tool);
+  };
+  const initialInput = (tool: Tool) => (routed?.tool === tool ? routed.value : '');
 
   return (
     <div className={styles.playground}>
       <div className={styles.toolTabs}>
+        <button
+          className={activeTool === 'detect' ? styles.active : ''}
+          onClick={() => selectTool('detect')}>
+          🔎 Smart Input
+        </button>
         <button
           className={activeTool === 'baid64' ? styles.active : ''}
-          onClick={() => setActiveTool('baid64')}>
+          onClick={() => selectTool('baid64')}>
           BAID64 Encoder
         </button>
         <button
           className={activeTool === 'hex' ? styles.active : ''}
-          onClick={() => setActiveTool('hex')}>
+          onClick={() => selectTool('hex')}>
           Hex Converter
         </button>
+        <button
+          className={activeTool === 'bech32' ? styles.active : ''}
+          onClick={() => selectTool('bech32')}>
+          Bech32
+        </button>
         <button
           className={activeTool === 'hash' ? styles.active : ''}
-          onClick={() => setActiveTool('hash')}>
+          onClick={() => selectTool('hash')}>
           Hash Calculator
         </button>
+        <button
+          className={activeTool === 'strict' ? styles.active : ''}
+          onClick={() => selectTool('strict')}>
+          Strict Types
+        </button>
         <button
           className={activeTool === 'invoice' ? styles.active : ''}
-          onClick={() => setActiveTool('invoice')}>
+          onClick={() => selectTool('invoice')}>
           Invoice Parser
         </button>
+        <button
+          className={activeTool === 'mpc' ? styles.active : ''}
+          onClick={() => selectTool('mpc')}>
+          MPC Tree
+        </button>
+        <button
+          className={activeTool === 'tapret' ? styles.active : ''}
+          onClick={() => selectTool('tapret')}>
+          Tapret
+        </button>
+        <button
+          className={activeTool === 'opret' ? styles.active : ''}
+          onClick={() => selectTool('opret')}>
+          Opret
+        </button>
+        <button
+          className={activeTool === 'tx' ? styles.active : ''}
+          onClick={() => selectTool('tx')}>
+          Transaction
+        </button>
+        <button
+          className={activeTool === 'psbt' ? styles.active : ''}
+          onClick={() => selectTool('psbt')}>
+          PSBT
+        </button>
+        <button
+          className={activeTool === 'seal' ? styles.active : ''}
+          onClick={() => selectTool('seal')}>
+          Blinded Seal
+        </button>
+        <button
+          className={activeTool === 'address' ? styles.active : ''}
+          onClick={() => selectTool('address')}>
+          Address
+        </button>
+        <button
+          className={activeTool === 'ids' ? styles.active : ''}
+          onClick={() => selectTool('ids')}>
+          Identifiers
+        </button>
       </div>
 
       <div className={styles.toolContent}>
-        {activeTool === 'baid64' && <Baid64Tool />}
-        {activeTool === 'hex' && <HexTool />}
+        {activeTool === 'detect' && (
+          <DetectTool onOpen={openDetection} canOpenConsignment={onOpenConsignment !== undefined} />
+        )}
+        {activeTool === 'baid64' && <Baid64Tool initialInput={initialInput('baid64')} />}
+        {activeTool === 'hex' && <HexTool initialInput={initialInput('hex')} />}
+        {activeTool === 'bech32' && <Bech32Tool initialInput={initialInput('bech32')} />}
         {activeTool === 'hash' && <HashTool />}
-        {activeTool === 'invoice' && <InvoiceTool />}
+        {activeTool === 'strict' && <StrictTypesTool />}
+        {activeTool === 'invoice' && <InvoiceTool initialInput={initialInput('invoice')} />}
+        {activeTool === 'mpc' && <MpcTool />}
+        {activeTool === 'tapret' && <TapretTool />}
+        {activeTool === 'opret' && <OpretTool />}
+        {activeTool === 'tx' && <TxTool initialInput={initialInput('tx')} />}
+        {activeTool === 'psbt' && <PsbtTool initialInput={initialInput('psbt')} />}
+        {activeTool === 'seal' && <SealTool initialInput={initialInput('seal')} />}
+        {activeTool === 'address' && <AddressTool initialInput={initialInput('address')} />}
+        {activeTool === 'ids' && <IdTool />}
       </div>
     </div>
   );
 }
 
-function Baid64Tool() {
-  const [mode, setMode] = useState<'encode' | 'decode'>('encode');
+const DETECTION_TARGET_LABELS: Record<DetectionTarget, string> = {
+  baid64: 'BAID64 Encoder',
+  hex: 'Hex Converter',
+  bech32: 'Bech32',
+  invoice: 'Invoice Parser',
+  tx: 'Transaction',
+  psbt: 'PSBT',
+  seal: 'Blinded Seal',
+  address: 'Address',
+  consignment: 'Consignment Inspector',
+};
+
+function DetectTool({onOpen, canOpenConsignment}: {
+  onOpen: (detection: Detection) => void;
+  canOpenConsignment: boolean;
+}) {
   const [input, setInput] = useState('');
+  const [detections, setDetections] = useState<Detection[]>([]);
+  const [example, setExample] = useState(0);
+
+  useEffect(() => {
+    // Drop results of an older input that resolve after a newer one
+    let current = true;
+    detectInput(input).then(found => {
+      if (current) setDetections(found);
+    });
+    return () => {
+      current = false;
+    };
+  }, [input]);
+
+  // Random examples are generated once, not on every render
+  const [examples] = useState(() => [
+    serializeRgbInvoice(exampleInvoice()),
+    generateExampleContractId(),
+    EXAMPLE_PSBT,
+    EXAMPLE_TX,
+    EXAMPLE_ADDRESSES[4],
+  ]);
+  const loadExample = () => {
+    setInput(examples[example]);
+    setExample((example + 1) % examples.length);
+  };
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Smart Input</h3>
+        <button className={styles.exampleBtn} onClick={loadExample}>
+          Load Example ({example + 1}/{examples.length})
+        </button>
+      </div>
+
+      <p className={styles.description}>
+        Paste anything: RGB IDs and invoices, blinded seals, addresses, hex, Base58, Base64, Bech32,
+        txids, raw transactions, PSBTs or consignment JSON. Every plausible reading is listed, most likely first.
+      </p>
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>Input:</label>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="rgb:..., utxob:..., bc1..., 02000000..., cHNidP8..., {&quot;contract_id&quot;: ...}"
+            rows={4}
+            style={{fontFamily: 'monospace', fontSize: '0.85rem'}}
+          />
+        </div>
+
+        {input.trim() && detections.length === 0 && (
+          <div className={styles.info}>
+            ℹ️ Not recognised as any supported encoding; the Hash Calculator accepts arbitrary text
+          </div>
+        )}
+
+        {detections.length > 0 && (
+          <div className={styles.detectionList}>
+            {detections.map((detection, idx) => (
+              <div
+                key={detection.detector}
+                className={idx === 0 ? `${styles.detectionCard} ${styles.detectionBest}` : styles.detectionCard}>
+                <div className={styles.detectionHeader}>
+                  <strong>{detection.label}</strong>
+                  <span>{Math.round(detection.confidence * 100)}%</span>
+                </div>
+                <div className={styles.confidenceBar}>
+                  <div style={{width: `${detection.confidence * 100}%`}} />
+                </div>
+                <p>{detection.summary}</p>
+                {(detection.target !== 'consignment' || canOpenConsignment) && (
+                  <button className={styles.exampleBtn} onClick={() => onOpen(detection)}>
+                    Open in {DETECTION_TARGET_LABELS[detection.target]} →
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Baid64Tool({initialInput = ''}: {initialInput?: string}) {
+  const [mode, setMode] = useState<'encode' | 'decode'>(initialInput ? 'decode' : 'encode');
+  const [input, setInput] = useState(initialInput);
   const [output, setOutput] = useState('');
-  const [error, setError] = useState('');
+  const [components, setComponents] = useState<Baid64Components | null>(null);
+  const [options, setOptions] = useState<Required<Baid64Options>>({
+    hri: 'rgb',
+    prefix: true,
+    chunking: true,
+    embedChecksum: false,
+    mnemonic: true,
+  });
+  // Decoded payload size in bytes; blank infers it from an embedded checksum
+  const [payloadLength, setPayloadLength] = useState('');
+  const [error, setError] = useState<Error | null>(null);
 
   const handleConvert = () => {
-    setError('');
+    setError(null);
+    setComponents(null);
     try {
       if (mode === 'encode') {
         const bytes = hexToBytes(input);
-        const baid64 = encodeBaid64(bytes);
-        setOutput(baid64);
+        setOutput(encodeBaid64(bytes, options));
+        setComponents(baid64Components(bytes, options));
       } else {
-        const bytes = decodeBaid64(input);
-        const hex = bytesToHex(bytes);
-        setOutput(hex);
+        if (!/^\d*$/.test(payloadLength.trim())) {
+          throw new Error('Payload length must be a whole number of bytes');
+        }
+        const length = payloadLength.trim() === '' ? null : Number(payloadLength);
+        const parts = parseBaid64(input, { hri: options.hri, length });
+        setOutput(bytesToHex(parts.payload));
+        setComponents(parts);
       }
     } catch (e) {
-      setError(e.message);
+      setOutput('');
+      setError(e);
     }
   };
 
   const loadExample = () => {
+    const example = '4a2b3c4d5e6f7081920a3b4c5d6e7f8091a2b3c4d5e6f7081920a3b4c5d6e7f8';
     if (mode === 'encode') {
-      setInput('4a2b3c4d5e6f7081920a3b4c5d6e7f8091a2b3c4d5e6f7081920a3b4c5d6e7f80');
-      setError('');
+      setInput(example);
     } else {
-      setInput('2Ky4xDT-VyLmtp9Y-XmKinHXG-utaq8UBu-qjfqDiUM-8bHNdBb');
-      setError('');
+      setInput(encodeBaid64(hexToBytes(example), { ...options, prefix: true, mnemonic: true }));
     }
+    setError(null);
+  };
+
+  const toggleOption = (key: 'prefix' | 'chunking' | 'embedChecksum' | 'mnemonic') => {
+    setOptions({ ...options, [key]: !options[key] });
   };
 
   useEffect(() => {
     if (input) handleConvert();
-  }, [input, mode]);
+  }, [input, mode, options, payloadLength]);
 
   return (
     <div className={styles.tool}>
@@ -113,10 +417,61 @@ function Baid64Tool() {
 
       <p className={styles.description}>
         {mode === 'encode'
-          ? 'Convert hex bytes to BAID64 format (Base58 with separators)'
-          : 'Decode BAID64 back to hex bytes'}
+          ? 'Convert hex bytes to BAID64: radix-64 payload with HRI-keyed checksum, chunking and mnemonic'
+          : 'Decode BAID64 back to hex bytes, verifying the embedded or mnemonic checksum'}
       </p>
 
+      <div className={styles.optionsRow}>
+        <label>
+          HRI:
+          <input
+            type="text"
+            value={options.hri}
+            onChange={(e) => setOptions({ ...options, hri: e.target.value.toLowerCase() })}
+            maxLength={16}
+            className={styles.formInput}
+          />
+        </label>
+        {mode === 'encode' && (
+          <>
+            <label>
+              <input type="checkbox" checked={options.prefix} onChange={() => toggleOption('prefix')} />
+              Prefix
+            </label>
+            <label>
+              <input type="checkbox" checked={options.chunking} onChange={() => toggleOption('chunking')} />
+              Chunking
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={options.embedChecksum}
+                onChange={() => toggleOption('embedChecksum')}
+              />
+              Embed checksum
+            </label>
+            <label>
+              <input type="checkbox" checked={options.mnemonic} onChange={() => toggleOption('mnemonic')} />
+              Mnemonic suffix
+            </label>
+          </>
+        )}
+        {mode === 'decode' && (
+          <label>
+            Payload bytes:
+            <input
+              type="text"
+              inputMode="numeric"
+              value={payloadLength}
+              onChange={(e) => setPayloadLength(e.target.value)}
+              placeholder="auto"
+              className={styles.formInput}
+              style={{width: '5rem'}}
+            />
+          </label>
+        )}
+      </div>
+
       <div className={styles.ioSection}>
         <div className={styles.inputSection}>
           <label>
@@ -131,7 +486,7 @@ function Baid64Tool() {
             placeholder={
               mode === 'encode'
                 ? '4a2b3c4d5e6f708192...'
-                : '2Ky4xDT-VyLmtp9Y-XmKinHXG-...'
+                : 'rgb:IYiyJLvl-S86I2Zj-CNMv~W9-6YiyJLv-lS86I2Z-jCNMv~W#sigma-silence-cosmos'
             }
             rows={4}
           />
@@ -142,7 +497,7 @@ function Baid64Tool() {
         <div className={styles.outputSection}>
           <label>Output {mode === 'encode' ? '(BAID64)' : '(Hex)'}:</label>
           {error ? (
-            <div className={styles.error}>❌ {error}</div>
+            <EncodingErrorView input={input} error={error} />
           ) : (
             <div className={styles.outputBox}>
               {output || <span className={styles.placeholder}>Result will appear here...</span>}
@@ -156,39 +511,112 @@ function Baid64Tool() {
             </button>
           )}
         </div>
+
+        {components && !error && (
+          <Baid64ComponentList components={components} decoded={mode === 'decode'} />
+        )}
       </div>
     </div>
   );
 }
 
-function HexTool() {
-  const [input, setInput] = useState('');
+function Baid64ComponentList({components, decoded}: {
+  components: Baid64Components;
+  decoded: boolean;
+}) {
+  const title = !decoded
+    ? 'BAID64 Components'
+    : components.checksumVerified
+      ? '✅ Checksum Verified'
+      : 'ℹ️ No checksum in input to verify';
+
+  return (
+    <div className={styles.parsedOutput}>
+      <h4>{title}</h4>
+      <div className={styles.field}>
+        <span className={styles.fieldLabel}>HRI:</span>
+        <code>{components.hri}{components.hasPrefix ? ' (prefixed)' : ' (not prefixed)'}</code>
+      </div>
+      <div className={styles.field}>
+        <span className={styles.fieldLabel}>Payload ({components.payload.length} bytes):</span>
+        <code>{bytesToHex(components.payload)}</code>
+      </div>
+      <div className={styles.field}>
+        <span className={styles.fieldLabel}>Radix-64 Body:</span>
+        <code>
+          {components.body}
+          {components.chunked ? ' (chunked)' : ''}
+          {components.embeddedChecksum ? ' (checksum embedded)' : ''}
+        </code>
+      </div>
+      <div className={styles.field}>
+        <span className={styles.fieldLabel}>Checksum:</span>
+        <code>{bytesToHex(components.checksum)}</code>
+      </div>
+      <div className={styles.field}>
+        <span className={styles.fieldLabel}>Mnemonic:</span>
+        <code>
+          {components.mnemonic}
+          {components.hasMnemonic ? '' : ' (not present in string)'}
+        </code>
+      </div>
+    </div>
+  );
+}
+
+function HexTool({initialInput = ''}: {initialInput?: string}) {
+  const [input, setInput] = useState(initialInput);
   const [hexOutput, setHexOutput] = useState('');
+  const [inputBytes, setInputBytes] = useState<Uint8Array | null>(null);
   const [baid64Output, setBaid64Output] = useState('');
   const [rgbIdOutput, setRgbIdOutput] = useState('');
   const [base64Output, setBase64Output] = useState('');
   const [base58Output, setBase58Output] = useState('');
+  const [base58CheckOutput, setBase58CheckOutput] = useState('');
   const [bech32Output, setBech32Output] = useState('');
-  const [error, setError] = useState('');
+  const [addresses, setAddresses] = useState<{ label: string; address: string }[]>([]);
+  const [error, setError] = useState<Error | null>(null);
 
   const handleConvert = () => {
-    setError('');
+    setError(null);
     try {
       const bytes = hexToBytes(input);
       setHexOutput(bytesToHex(bytes));
+      setInputBytes(bytes);
       setBaid64Output(encodeBaid64(bytes));
       setRgbIdOutput(formatContractId(bytes));
       setBase64Output(encodeBase64(bytes));
       setBase58Output(encodeBase58(bytes));
-      setBech32Output(encodeBech32('rgb', bytes));
+      setBase58CheckOutput(encodeBase58Check(bytes));
+      try {
+        setBech32Output(encodeBech32('rgb', bytes));
+      } catch (e) {
+        setBech32Output(`n/a: ${e.message}`);
+      }
+      if (bytes.length === 20) {
+        setAddresses([
+          { label: 'P2PKH, if this is a public key hash', address: formatBitcoinAddress(bytes) },
+          { label: 'P2WPKH, if this is a public key hash', address: encodeSegwitAddress('bc', 0, bytes) },
+        ]);
+      } else if (bytes.length === 32) {
+        setAddresses([
+          { label: 'P2WSH, if this is a witness script hash', address: encodeSegwitAddress('bc', 0, bytes) },
+          { label: 'P2TR, if this is a tweaked x-only output key', address: encodeSegwitAddress('bc', 1, bytes) },
+        ]);
+      } else {
+        setAddresses([]);
+      }
     } catch (e) {
-      setError(e.message);
+      setError(e);
       setHexOutput('');
+      setInputBytes(null);
       setBaid64Output('');
       setRgbIdOutput('');
       setBase64Output('');
       setBase58Output('');
+      setBase58CheckOutput('');
       setBech32Output('');
+      setAddresses([]);
     }
   };
 
@@ -227,7 +655,7 @@ function HexTool() {
         </div>
 
         {error ? (
-          <div className={styles.error}>❌ {error}</div>
+          <EncodingErrorView input={input} error={error} />
         ) : (
           hexOutput && (
             <>
@@ -239,6 +667,8 @@ function HexTool() {
                 </button>
               </div>
 
+              <HexDump bytes={inputBytes} />
+
               <div className={styles.formatOutput}>
                 <label>BAID64:</label>
                 <code className={styles.codeBlock}>{baid64Output}</code>
@@ -248,7 +678,7 @@ function HexTool() {
               </div>
 
               <div className={styles.formatOutput}>
-                <label>RGB Contract ID:</label>
+                <label>As an RGB Contract ID (rgb: prefix):</label>
                 <code className={styles.codeBlock}>{rgbIdOutput}</code>
                 <button onClick={() => navigator.clipboard.writeText(rgbIdOutput)}>
                   📋
@@ -264,7 +694,7 @@ function HexTool() {
               </div>
 
               <div className={styles.formatOutput}>
-                <label>Base58:</label>
+                <label>Base58 (raw, no checksum):</label>
                 <code className={styles.codeBlock}>{base58Output}</code>
                 <button onClick={() => navigator.clipboard.writeText(base58Output)}>
                   📋
@@ -272,15 +702,39 @@ function HexTool() {
               </div>
 
               <div className={styles.formatOutput}>
-                <label>Bech32 (rgb prefix):</label>
+                <label>Base58Check (double SHA-256 checksum, no version byte):</label>
+                <code className={styles.codeBlock}>{base58CheckOutput}</code>
+                <button onClick={() => navigator.clipboard.writeText(base58CheckOutput)}>
+                  📋
+                </button>
+              </div>
+
+              <div className={styles.formatOutput}>
+                <label>Bech32 with rgb HRP (illustration only, RGB IDs use BAID64):</label>
                 <code className={styles.codeBlock}>{bech32Output}</code>
                 <button onClick={() => navigator.clipboard.writeText(bech32Output)}>
                   📋
                 </button>
               </div>
 
+              {addresses.map(({label, address}) => (
+                <div key={label} className={styles.formatOutput}>
+                  <label>Mainnet {label}:</label>
+                  <code className={styles.codeBlock}>{address}</code>
+                  <button onClick={() => navigator.clipboard.writeText(address)}>
+                    📋
+                  </button>
+                </div>
+              ))}
+
+              <div className={styles.outputSection}>
+                <label>RGB Contract ID QR Code:</label>
+                <QrCodeView value={rgbIdOutput} filename="rgb-id" />
+              </div>
+
               <div className={styles.info}>
-                ℹ️ Length: {hexOutput.length / 2} bytes | All formats represent the same data
+                ℹ️ Length: {hexOutput.length / 2} bytes | All rows encode the same bytes; the contract ID and
+                address rows show how the bytes would look in that role, not that they are one
               </div>
             </>
           )
@@ -290,21 +744,240 @@ function HexTool() {
   );
 }
 
+function Bech32Tool({initialInput = ''}: {initialInput?: string}) {
+  const [mode, setMode] = useState<'encode' | 'decode'>('decode');
+  const [input, setInput] = useState(initialInput);
+  const [hrp, setHrp] = useState('rgb');
+  const [variant, setVariant] = useState<Bech32Variant>('bech32m');
+  const [encoded, setEncoded] = useState('');
+  const [decoded, setDecoded] = useState<Bech32Decoded | null>(null);
+  const [payloadHex, setPayloadHex] = useState('');
+  const [segwit, setSegwit] = useState<SegwitAddress | null>(null);
+  const [error, setError] = useState('');
+
+  const handleConvert = () => {
+    setError('');
+    setEncoded('');
+    setDecoded(null);
+    setPayloadHex('');
+    setSegwit(null);
+    try {
+      if (mode === 'encode') {
+        setEncoded(encodeBech32(hrp, hexToBytes(input), variant));
+        return;
+      }
+
+      const result = decodeBech32(input.trim());
+      setDecoded(result);
+      if (['bc', 'tb', 'bcrt'].includes(result.hrp)) {
+        setSegwit(decodeSegwitAddress(input.trim()));
+      } else {
+        setPayloadHex(bytesToHex(bech32WordsToBytes(result.words)));
+      }
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  const loadExample = () => {
+    setInput(
+      mode === 'encode'
+        ? '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+        : 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0'
+    );
+  };
+
+  useEffect(() => {
+    if (input) handleConvert();
+  }, [input, mode, hrp, variant]);
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Bech32 / Bech32m</h3>
+        <div className={styles.modeSwitch}>
+          <button
+            className={mode === 'encode' ? styles.active : ''}
+            onClick={() => setMode('encode')}>
+            Encode
+          </button>
+          <button
+            className={mode === 'decode' ? styles.active : ''}
+            onClick={() => setMode('decode')}>
+            Decode
+          </button>
+        </div>
+      </div>
+
+      <p className={styles.description}>
+        {mode === 'encode'
+          ? 'Encode hex bytes with a BIP-173 (Bech32) or BIP-350 (Bech32m) checksum'
+          : 'Decode and verify any Bech32/Bech32m string, including SegWit v0 and Taproot addresses'}
+      </p>
+
+      {mode === 'encode' && (
+        <div className={styles.optionsRow}>
+          <label>
+            HRP:
+            <input
+              type="text"
+              value={hrp}
+              onChange={(e) => setHrp(e.target.value.toLowerCase())}
+              className={styles.formInput}
+            />
+          </label>
+          <label>
+            <input type="radio" checked={variant === 'bech32'} onChange={() => setVariant('bech32')} />
+            Bech32
+          </label>
+          <label>
+            <input type="radio" checked={variant === 'bech32m'} onChange={() => setVariant('bech32m')} />
+            Bech32m
+          </label>
+        </div>
+      )}
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>
+            Input {mode === 'encode' ? '(Hex)' : '(Bech32/Bech32m)'}:
+            <button className={styles.exampleBtn} onClick={loadExample}>
+              Load Example
+            </button>
+          </label>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={mode === 'encode' ? '79be667ef9dcbbac...' : 'bc1p... / tb1q... / rgb1...'}
+            rows={3}
+          />
+        </div>
+
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {encoded && !error && (
+          <div className={styles.formatOutput}>
+            <label>{variant === 'bech32' ? 'Bech32' : 'Bech32m'} ({hrp} prefix):</label>
+            <code className={styles.codeBlock}>{encoded}</code>
+            <button onClick={() => navigator.clipboard.writeText(encoded)}>
+              📋
+            </button>
+          </div>
+        )}
+
+        {decoded && !error && (
+          <div className={styles.parsedOutput}>
+            <h4>✅ Valid {decoded.variant === 'bech32' ? 'Bech32' : 'Bech32m'} checksum</h4>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>HRP:</span>
+              <code>{decoded.hrp}</code>
+            </div>
+            <div className={styles.field}>
+              <span className={styles.fieldLabel}>Checksum:</span>
+              <code>{decoded.checksum}</code>
+            </div>
+            {segwit ? (
+              <>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Network:</span>
+                  <code>{segwit.network === 'testnet' ? 'testnet / signet' : segwit.network}</code>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Witness Version:</span>
+                  <code>
+                    v{segwit.witnessVersion}
+                    {segwit.witnessVersion === 0 && (segwit.program.length === 20 ? ' (P2WPKH)' : ' (P2WSH)')}
+                    {segwit.witnessVersion === 1 && segwit.program.length === 32 && ' (P2TR)'}
+                  </code>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Witness Program ({segwit.program.length} bytes):</span>
+                  <code>{bytesToHex(segwit.program)}</code>
+                </div>
+              </>
+            ) : (
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>Data:</span>
+                <code>{payloadHex || '(empty)'}</code>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type HashAlgorithm = 'commitment' | 'sha256' | 'tagged' | 'ripemd160' | 'hash160';
+
+const HASH_ALGORITHMS: { id: HashAlgorithm; label: string; description: string }[] = [
+  { id: 'commitment', label: 'Double SHA-256', description: 'SHA256(SHA256(data)), as used for Bitcoin txids' },
+  { id: 'sha256', label: 'SHA-256', description: 'Single SHA-256 digest' },
+  { id: 'tagged', label: 'Tagged SHA-256', description: 'BIP-340 tagged hash: SHA256(SHA256(tag) || SHA256(tag) || data)' },
+  { id: 'ripemd160', label: 'RIPEMD-160', description: 'RIPEMD-160 digest' },
+  { id: 'hash160', label: 'HASH160', description: 'RIPEMD160(SHA256(data)), as used for Bitcoin key and script hashes' },
+];
+
+const EXAMPLE_TAGS = [
+  'urn:ubideco:merkle:node#2024-01-31',
+  'urn:lnp-bp:mpc:tree#2024-01-31',
+  'urn:lnp-bp:rgb:contract-id#2024-02-03',
+  'TapLeaf',
+  'TapBranch',
+  'TapTweak',
+];
+
 function HashTool() {
   const [input, setInput] = useState('');
   const [inputType, setInputType] = useState<'text' | 'hex'>('text');
+  const [algorithm, setAlgorithm] = useState<HashAlgorithm>('commitment');
+  const [tag, setTag] = useState(EXAMPLE_TAGS[0]);
+  const [steps, setSteps] = useState<{ label: string; value: string }[]>([]);
   const [hash, setHash] = useState('');
-  const [doubleHash, setDoubleHash] = useState('');
+  const [error, setError] = useState('');
 
   const calculateHash = async () => {
+    setError('');
     try {
       const bytes = inputType === 'hex' ? hexToBytes(input) : new TextEncoder().encode(input);
-      const hashBytes = await commitmentHash(bytes);
-      const hashHex = bytesToHex(hashBytes);
-      setDoubleHash(hashHex);
-      setHash(hashHex);
+      const intermediate: { label: string; value: string }[] = [
+        { label: `Input bytes (${bytes.length})`, value: bytesToHex(bytes) },
+      ];
+      let result: Uint8Array;
+
+      switch (algorithm) {
+        case 'commitment':
+          intermediate.push({ label: 'SHA-256 (first pass)', value: bytesToHex(sha256Sync(bytes)) });
+          result = await commitmentHash(bytes);
+          break;
+        case 'sha256':
+          result = await sha256(bytes);
+          break;
+        case 'tagged': {
+          const tagged = taggedHashSteps(tag, bytes);
+          intermediate.push({ label: `Tag hash SHA256("${tag}")`, value: bytesToHex(tagged.tagHash) });
+          intermediate.push({
+            label: `Preimage tag_hash || tag_hash || data (${tagged.preimage.length} bytes)`,
+            value: bytesToHex(tagged.preimage),
+          });
+          result = tagged.hash;
+          break;
+        }
+        case 'ripemd160':
+          result = ripemd160(bytes);
+          break;
+        case 'hash160':
+          intermediate.push({ label: 'SHA-256', value: bytesToHex(sha256Sync(bytes)) });
+          result = hash160(bytes);
+          break;
+      }
+
+      setSteps(intermediate);
+      setHash(bytesToHex(result));
     } catch (e) {
-      console.error(e);
+      setError(e.message);
+      setSteps([]);
+      setHash('');
     }
   };
 
@@ -312,12 +985,14 @@ function HashTool() {
     if (input) {
       calculateHash();
     }
-  }, [input, inputType]);
+  }, [input, inputType, algorithm, tag]);
+
+  const current = HASH_ALGORITHMS.find(a => a.id === algorithm);
 
   return (
     <div className={styles.tool}>
       <div className={styles.toolHeader}>
-        <h3>Commitment Hash Calculator</h3>
+        <h3>Hash Calculator</h3>
         <div className={styles.modeSwitch}>
           <button
             className={inputType === 'text' ? styles.active : ''}
@@ -332,11 +1007,36 @@ function HashTool() {
         </div>
       </div>
 
-      <p className={styles.description}>
-        Calculate SHA-256 commitment hash (double SHA-256) used in RGB
-      </p>
+      <div className={styles.modeSwitch} style={{alignSelf: 'flex-start', flexWrap: 'wrap'}}>
+        {HASH_ALGORITHMS.map(a => (
+          <button
+            key={a.id}
+            className={algorithm === a.id ? styles.active : ''}
+            onClick={() => setAlgorithm(a.id)}>
+            {a.label}
+          </button>
+        ))}
+      </div>
+
+      <p className={styles.description}>{current?.description}</p>
 
       <div className={styles.ioSection}>
+        {algorithm === 'tagged' && (
+          <div className={styles.inputSection}>
+            <label>Tag:</label>
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              list="hash-tool-tags"
+              placeholder="urn:lnp-bp:..."
+            />
+            <datalist id="hash-tool-tags">
+              {EXAMPLE_TAGS.map(t => <option key={t} value={t} />)}
+            </datalist>
+          </div>
+        )}
+
         <div className={styles.inputSection}>
           <label>Input Data:</label>
           <textarea
@@ -347,13 +1047,21 @@ function HashTool() {
           />
         </div>
 
-        {hash && (
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {hash && !error && (
           <>
-            <div className={styles.arrow}>↓ SHA-256 ↓ SHA-256</div>
+            {steps.map((step, idx) => (
+              <div key={idx} className={styles.formatOutput}>
+                <label>{idx + 1}. {step.label}:</label>
+                <code className={styles.codeBlock}>{step.value || '(empty)'}</code>
+              </div>
+            ))}
+            <div className={styles.arrow}>↓ {current?.label} ↓</div>
             <div className={styles.formatOutput}>
-              <label>Commitment Hash:</label>
-              <code className={styles.codeBlock}>{doubleHash}</code>
-              <button onClick={() => navigator.clipboard.writeText(doubleHash)}>
+              <label>{current?.label} Hash:</label>
+              <code className={styles.codeBlock}>{hash}</code>
+              <button onClick={() => navigator.clipboard.writeText(hash)}>
                 📋
               </button>
             </div>
@@ -364,92 +1072,2111 @@ function HashTool() {
   );
 }
 
-function InvoiceTool() {
-  const [input, setInput] = useState('');
-  const [parsed, setParsed] = useState<{
-    prefix: string;
-    baid64: string;
-    hex: string;
-    bytes: number;
-  } | null>(null);
-  const [error, setError] = useState('');
+function StrictTypesTool() {
+  const [mode, setMode] = useState<'encode' | 'decode'>('encode');
+  const [typeDef, setTypeDef] = useState(JSON.stringify(EXAMPLE_STRICT_TYPES[0].type, null, 2));
+  const [input, setInput] = useState(JSON.stringify(EXAMPLE_STRICT_TYPES[0].value, null, 2));
+  const [typeExpr, setTypeExpr] = useState('');
+  const [output, setOutput] = useState('');
+  const [dump, setDump] = useState<{ bytes: Uint8Array; fields: HexDumpField[] } | null>(null);
+  const [error, setError] = useState<Error | null>(null);
 
-  const handleParse = () => {
-    setError('');
-    setParsed(null);
+  const loadExample = (idx: number) => {
+    const example = EXAMPLE_STRICT_TYPES[idx];
+    setTypeDef(JSON.stringify(example.type, null, 2));
+    setInput(
+      mode === 'encode'
+        ? JSON.stringify(example.value, null, 2)
+        : bytesToHex(strictEncode(example.type, example.value))
+    );
+  };
+
+  const switchMode = (next: 'encode' | 'decode') => {
+    // Carry the current result over so the round trip can be checked
+    if (output && !error) setInput(output);
+    setMode(next);
+  };
+
+  const handleConvert = () => {
+    setError(null);
+    setOutput('');
+    setDump(null);
+    setTypeExpr('');
     try {
-      const result = parseRgbId(input);
-      setParsed({
-        prefix: result.prefix,
-        baid64: result.baid64,
-        hex: bytesToHex(result.bytes),
-        bytes: result.bytes.length,
-      });
+      const type: StrictType = JSON.parse(typeDef);
+      setTypeExpr(describeType(type));
+      const bytes = mode === 'encode' ? strictEncode(type, JSON.parse(input)) : hexToBytes(input);
+      let decoded: ReturnType<typeof strictDecode>;
+      try {
+        decoded = strictDecode(type, bytes);
+      } catch (e) {
+        throw e instanceof EncodingError && mode === 'decode' ? locateInHex(input, e) : e;
+      }
+      setDump({ bytes, fields: decoded.annotations.map(annotationField) });
+      setOutput(mode === 'encode' ? bytesToHex(bytes) : JSON.stringify(decoded.value, null, 2));
     } catch (e) {
-      setError(e.message);
+      setError(e);
     }
   };
 
-  const loadExample = () => {
-    setInput(generateExampleContractId());
-  };
-
   useEffect(() => {
-    if (input) handleParse();
-  }, [input]);
+    if (typeDef && input) handleConvert();
+  }, [typeDef, input, mode]);
 
   return (
     <div className={styles.tool}>
       <div className={styles.toolHeader}>
-        <h3>RGB Invoice/ID Parser</h3>
-        <button className={styles.exampleBtn} onClick={loadExample}>
-          Load Example
-        </button>
+        <h3>Strict Types Encoder/Decoder</h3>
+        <div className={styles.modeSwitch}>
+          <button
+            className={mode === 'encode' ? styles.active : ''}
+            onClick={() => switchMode('encode')}>
+            Encode
+          </button>
+          <button
+            className={mode === 'decode' ? styles.active : ''}
+            onClick={() => switchMode('decode')}>
+            Decode
+          </button>
+        </div>
       </div>
 
       <p className={styles.description}>
-        Parse RGB contract IDs, invoices, and other RGB-prefixed identifiers
+        {mode === 'encode'
+          ? 'Define a strict type, enter a JSON value and see its byte-exact strict encoding'
+          : 'Paste a strict-encoded hex blob and see which bytes encode which field'}
       </p>
 
-      <div className={styles.ioSection}>
+      <div className={styles.optionsRow}>
+        <label>
+          Example:
+          <select
+            className={styles.formInput}
+            style={{width: 'auto'}}
+            onChange={(e) => loadExample(Number(e.target.value))}
+            defaultValue="0">
+            {EXAMPLE_STRICT_TYPES.map((ex, idx) => (
+              <option key={ex.name} value={idx}>{ex.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>Type Definition (JSON):</label>
+          <textarea
+            value={typeDef}
+            onChange={(e) => setTypeDef(e.target.value)}
+            rows={8}
+          />
+          {typeExpr && <code className={styles.codeBlock}>{typeExpr}</code>}
+        </div>
+
+        <div className={styles.inputSection}>
+          <label>{mode === 'encode' ? 'Value (JSON):' : 'Encoded Data (Hex):'}</label>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={mode === 'encode' ? '{"ticker": "TUSD", ...}' : '0454555344...'}
+            rows={mode === 'encode' ? 6 : 3}
+          />
+        </div>
+
+        <div className={styles.arrow}>↓</div>
+
+        {error ? (
+          <EncodingErrorView input={mode === 'decode' ? input : ''} error={error} />
+        ) : (
+          output && (
+            <>
+              <div className={styles.formatOutput}>
+                <label>
+                  {mode === 'encode'
+                    ? `Strict Encoding (${output.length / 2} bytes):`
+                    : 'Decoded Value:'}
+                </label>
+                {mode === 'encode' ? (
+                  <code className={styles.codeBlock}>{output}</code>
+                ) : (
+                  <pre className={styles.codeExport}>{output}</pre>
+                )}
+                <button onClick={() => navigator.clipboard.writeText(output)}>
+                  📋
+                </button>
+              </div>
+              {dump && <HexDump bytes={dump.bytes} fields={dump.fields} />}
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Map a strict decoding error from byte offsets to the hex digits of those bytes in the input
+ */
+function locateInHex(hex: string, error: EncodingError): EncodingError {
+  const digits: number[] = [];
+  for (let i = hex.startsWith('0x') ? 2 : 0; i < hex.length; i++) {
+    if (!/\s/.test(hex[i])) digits.push(i);
+  }
+  const { range } = error;
+  const located = range && range.end > range.start && 2 * range.end <= digits.length
+    ? { start: digits[2 * range.start], end: digits[2 * range.end - 1] + 1 }
+    : null;
+  return new EncodingError(error.code, error.message, {
+    range: located,
+    expected: error.expected,
+    suggestion: error.suggestion,
+  });
+}
+
+function annotationField(annotation: StrictAnnotation): HexDumpField {
+  return {
+    name: annotation.path,
+    offset: annotation.offset,
+    length: annotation.length,
+    type: annotation.type,
+    value: annotation.value,
+    depth: annotation.depth,
+  };
+}
+
+function exampleInvoice(): RgbInvoice {
+  const seal = new Uint8Array(32);
+  crypto.getRandomValues(seal);
+  return {
+    contractId: generateExampleContractId().split('#')[0],
+    iface: 'RGB20',
+    operation: null,
+    assignment: null,
+    state: { type: 'amount', value: '1000' },
+    beneficiary: {
+      type: 'blinded',
+      chain: 'bc',
+      seal: encodeBaid64(seal, { hri: 'utxob', prefix: true }),
+    },
+    expiry: Math.floor(Date.now() / 1000) + 86400,
+    endpoints: ['rpcs://proxy.example.com/json-rpc'],
+    unknownQuery: {},
+  };
+}
+
+function InvoiceTool({initialInput = ''}: {initialInput?: string}) {
+  const [mode, setMode] = useState<'parse' | 'build'>('parse');
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>RGB Invoice/ID Parser</h3>
+        <div className={styles.modeSwitch}>
+          <button
+            className={mode === 'parse' ? styles.active : ''}
+            onClick={() => setMode('parse')}>
+            Parse
+          </button>
+          <button
+            className={mode === 'build' ? styles.active : ''}
+            onClick={() => setMode('build')}>
+            Build
+          </button>
+        </div>
+      </div>
+
+      {mode === 'parse' ? <InvoiceParser initialInput={initialInput} /> : <InvoiceBuilder />}
+    </div>
+  );
+}
+
+function InvoiceParser({initialInput = ''}: {initialInput?: string}) {
+  const [input, setInput] = useState(initialInput);
+  const [parsed, setParsed] = useState<{
+    prefix: string;
+    baid64: string;
+    hex: string;
+    bytes: number;
+    components: Baid64Components;
+  } | null>(null);
+  const [invoice, setInvoice] = useState<RgbInvoice | null>(null);
+  const [scanned, setScanned] = useState<QrDecodeResult | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const handleParse = () => {
+    setError(null);
+    setParsed(null);
+    setInvoice(null);
+    try {
+      // Bare identifiers have no path or beneficiary
+      if (!/[/+]/.test(input)) {
+        const result = parseRgbId(input);
+        setParsed({
+          prefix: result.prefix,
+          baid64: result.baid64,
+          hex: bytesToHex(result.bytes),
+          bytes: result.bytes.length,
+          components: result.components,
+        });
+      } else {
+        setInvoice(parseRgbInvoice(input));
+      }
+    } catch (e) {
+      setError(e);
+    }
+  };
+
+  const handleScan = (result: QrDecodeResult) => {
+    setScanned(result);
+    setInput(result.text.trim());
+  };
+
+  const loadExample = (kind: 'id' | 'invoice') => {
+    setScanned(null);
+    setInput(kind === 'id' ? generateExampleContractId() : serializeRgbInvoice(exampleInvoice()));
+  };
+
+  useEffect(() => {
+    if (input) handleParse();
+  }, [input]);
+
+  return (
+    <>
+      <p className={styles.description}>
+        Parse RGB invoices, contract IDs, and other RGB-prefixed identifiers
+      </p>
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>
+            RGB Invoice or ID:
+            <span style={{display: 'flex', gap: '0.5rem'}}>
+              <button className={styles.exampleBtn} onClick={() => loadExample('id')}>
+                Example ID
+              </button>
+              <button className={styles.exampleBtn} onClick={() => loadExample('invoice')}>
+                Example Invoice
+              </button>
+            </span>
+          </label>
+          <textarea
+            value={input}
+            onChange={(e) => {
+              setScanned(null);
+              setInput(e.target.value);
+            }}
+            placeholder="rgb:<contract>/RGB20/1000+bc:utxob:...?expiry=...&endpoints=..."
+            rows={3}
+          />
+          <QrImageInput onDecode={handleScan} />
+        </div>
+
+        {scanned && (
+          <div className={styles.info}>
+            📷 Read from QR code: version {scanned.version}, EC level {scanned.ecLevel}, {scanned.errorsCorrected} codeword error{scanned.errorsCorrected === 1 ? '' : 's'} corrected
+          </div>
+        )}
+
+        {error ? (
+          <EncodingErrorView input={input} error={error} />
+        ) : (
+          <>
+            {parsed && (
+              <div className={styles.parsedOutput}>
+                <h4>✅ Parsed Successfully</h4>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Prefix:</span>
+                  <code>{parsed.prefix}</code>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>BAID64:</span>
+                  <code className={styles.codeBlock}>{parsed.baid64}</code>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Hex:</span>
+                  <code className={styles.codeBlock}>{parsed.hex}</code>
+                  <button onClick={() => navigator.clipboard.writeText(parsed.hex)}>
+                    📋
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Size:</span>
+                  <code>{parsed.bytes} bytes</code>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Checksum:</span>
+                  <code>
+                    {bytesToHex(parsed.components.checksum)}
+                    {parsed.components.checksumVerified ? ' ✅ verified' : ' (not present in ID)'}
+                  </code>
+                </div>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Mnemonic:</span>
+                  <code>{parsed.components.mnemonic}</code>
+                </div>
+              </div>
+            )}
+            {invoice && <InvoiceFields invoice={invoice} />}
+            {(parsed || invoice) && (
+              <div className={styles.outputSection}>
+                <label>QR Code:</label>
+                <QrCodeView value={input.trim()} filename={invoice ? 'rgb-invoice' : 'rgb-id'} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+function InvoiceFields({invoice}: {invoice: RgbInvoice}) {
+  const { state, beneficiary } = invoice;
+  const rows: [string, string][] = [
+    ['Contract ID', invoice.contractId ?? '~ (any contract)'],
+    ['Interface', invoice.iface ?? '(any)'],
+  ];
+  if (invoice.operation) rows.push(['Operation', invoice.operation]);
+  if (invoice.assignment) rows.push(['Assignment', invoice.assignment]);
+  rows.push([
+    'State',
+    state.type === 'void' ? '(any)' : state.type === 'amount' ? `${state.value} (amount)` : `${state.value} (data)`,
+  ]);
+  rows.push([
+    'Beneficiary',
+    beneficiary.type === 'blinded'
+      ? `${beneficiary.seal} (blinded seal)`
+      : `${beneficiary.address} (witness output)`,
+  ]);
+  rows.push(['Chain', beneficiary.chain ?? '(unspecified)']);
+  if (invoice.expiry !== null) {
+    rows.push(['Expiry', `${new Date(invoice.expiry * 1000).toISOString()} (${invoice.expiry})`]);
+  }
+  invoice.endpoints.forEach((endpoint, idx) => rows.push([`Endpoint ${idx + 1}`, endpoint]));
+  for (const [key, value] of Object.entries(invoice.unknownQuery)) {
+    rows.push([`Param: ${key}`, value]);
+  }
+
+  return (
+    <div className={styles.parsedOutput}>
+      <h4>✅ Valid RGB Invoice</h4>
+      {rows.map(([label, value]) => (
+        <div key={label} className={styles.field}>
+          <span className={styles.fieldLabel}>{label}:</span>
+          <code>{value}</code>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function InvoiceBuilder() {
+  const [invoice, setInvoice] = useState<RgbInvoice>(exampleInvoice);
+  const [endpoints, setEndpoints] = useState(invoice.endpoints.join(', '));
+
+  const update = (changes: Partial<RgbInvoice>) => setInvoice({ ...invoice, ...changes });
+  const optional = (value: string) => (value.trim() === '' ? null : value.trim());
+
+  const errors = validateRgbInvoice(invoice);
+  const fieldError = (field: InvoiceField) => {
+    const found = errors.find(e => e.field === field);
+    return found ? <span className={styles.fieldError}>{found.message}</span> : null;
+  };
+
+  const output = errors.length === 0 ? serializeRgbInvoice(invoice) : '';
+
+  const expiryValue = invoice.expiry !== null
+    ? new Date(invoice.expiry * 1000).toISOString().slice(0, 16)
+    : '';
+
+  return (
+    <>
+      <p className={styles.description}>
+        Build an RGB invoice field by field; each field is validated as you type
+      </p>
+
+      <div className={styles.formGrid}>
+        <div className={styles.formField} style={{gridColumn: '1 / -1'}}>
+          <label>Contract ID (empty for any contract)</label>
+          <input
+            type="text"
+            value={invoice.contractId ?? ''}
+            onChange={(e) => update({ contractId: optional(e.target.value) })}
+            placeholder="rgb:..."
+            className={styles.formInput}
+          />
+          {fieldError('contractId')}
+        </div>
+
+        <div className={styles.formField}>
+          <label>Interface</label>
+          <input
+            type="text"
+            value={invoice.iface ?? ''}
+            onChange={(e) => update({ iface: optional(e.target.value) })}
+            placeholder="RGB20"
+            className={styles.formInput}
+          />
+          {fieldError('iface')}
+        </div>
+
+        <div className={styles.formField}>
+          <label>Operation (optional)</label>
+          <input
+            type="text"
+            value={invoice.operation ?? ''}
+            onChange={(e) => update({ operation: optional(e.target.value) })}
+            placeholder="transfer"
+            className={styles.formInput}
+          />
+          {fieldError('operation')}
+        </div>
+
+        <div className={styles.formField}>
+          <label>Assignment (optional)</label>
+          <input
+            type="text"
+            value={invoice.assignment ?? ''}
+            onChange={(e) => update({ assignment: optional(e.target.value) })}
+            placeholder="assetOwner"
+            className={styles.formInput}
+          />
+          {fieldError('assignment')}
+        </div>
+
+        <div className={styles.formField}>
+          <label>State</label>
+          <select
+            value={invoice.state.type}
+            onChange={(e) => {
+              const type = e.target.value as InvoiceState['type'];
+              update({ state: type === 'void' ? { type } : { type, value: type === 'amount' ? '1' : '0@1' } });
+            }}
+            className={styles.formInput}>
+            <option value="amount">Amount</option>
+            <option value="data">Data allocation</option>
+            <option value="void">Any</option>
+          </select>
+          {invoice.state.type !== 'void' && (
+            <input
+              type="text"
+              value={invoice.state.value}
+              onChange={(e) => update({ state: { type: invoice.state.type as 'amount' | 'data', value: e.target.value } })}
+              placeholder={invoice.state.type === 'amount' ? '1000' : '0@1'}
+              className={styles.formInput}
+            />
+          )}
+          {fieldError('state')}
+        </div>
+
+        <div className={styles.formField}>
+          <label>Beneficiary</label>
+          <select
+            value={invoice.beneficiary.type}
+            onChange={(e) => update({
+              beneficiary: e.target.value === 'blinded'
+                ? { type: 'blinded', chain: invoice.beneficiary.chain, seal: '' }
+                : { type: 'witness', chain: invoice.beneficiary.chain, address: '' },
+            })}
+            className={styles.formInput}>
+            <option value="blinded">Blinded seal (utxob)</option>
+            <option value="witness">Witness output (address)</option>
+          </select>
+          <input
+            type="text"
+            value={invoice.beneficiary.type === 'blinded' ? invoice.beneficiary.seal : invoice.beneficiary.address}
+            onChange={(e) => update({
+              beneficiary: invoice.beneficiary.type === 'blinded'
+                ? { ...invoice.beneficiary, seal: e.target.value.trim() }
+                : { ...invoice.beneficiary, address: e.target.value.trim() },
+            })}
+            placeholder={invoice.beneficiary.type === 'blinded' ? 'utxob:...' : 'bc1p...'}
+            className={styles.formInput}
+          />
+          {fieldError('beneficiary')}
+        </div>
+
+        <div className={styles.formField}>
+          <label>Chain</label>
+          <select
+            value={invoice.beneficiary.chain ?? ''}
+            onChange={(e) => update({
+              beneficiary: { ...invoice.beneficiary, chain: (e.target.value || null) as InvoiceChain | null },
+            })}
+            className={styles.formInput}>
+            <option value="">Unspecified</option>
+            <option value="bc">bc (mainnet)</option>
+            <option value="tb">tb (testnet/signet)</option>
+            <option value="bcrt">bcrt (regtest)</option>
+          </select>
+        </div>
+
+        <div className={styles.formField}>
+          <label>Expiry (UTC, optional)</label>
+          <input
+            type="datetime-local"
+            value={expiryValue}
+            onChange={(e) => update({
+              expiry: e.target.value ? Math.floor(Date.parse(`${e.target.value}Z`) / 1000) : null,
+            })}
+            className={styles.formInput}
+          />
+          {fieldError('expiry')}
+        </div>
+
+        <div className={styles.formField} style={{gridColumn: '1 / -1'}}>
+          <label>Transport Endpoints (comma-separated)</label>
+          <input
+            type="text"
+            value={endpoints}
+            onChange={(e) => {
+              setEndpoints(e.target.value);
+              update({ endpoints: e.target.value.split(',').map(v => v.trim()).filter(v => v.length > 0) });
+            }}
+            placeholder="rpcs://proxy.example.com/json-rpc"
+            className={styles.formInput}
+          />
+          {fieldError('endpoints')}
+        </div>
+      </div>
+
+      {output ? (
+        <>
+          <div className={styles.formatOutput}>
+            <label>Invoice:</label>
+            <code className={styles.codeBlock}>{output}</code>
+            <button onClick={() => navigator.clipboard.writeText(output)}>
+              📋
+            </button>
+          </div>
+          <QrCodeView value={output} filename="rgb-invoice" />
+        </>
+      ) : (
+        <div className={styles.error}>
+          ❌ Fix {errors.length} field error{errors.length === 1 ? '' : 's'} to build the invoice
+        </div>
+      )}
+    </>
+  );
+}
+
+interface MpcEntryInput {
+  protocolId: string;
+  message: string;
+}
+
+// Trees up to this width are drawn in full
+const MPC_DRAW_MAX_WIDTH = 32;
+
+function randomHex(length: number): string {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytesToHex(bytes);
+}
+
+function randomEntropy(): string {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return new DataView(bytes.buffer).getBigUint64(0, true).toString();
+}
+
+/** Protocol IDs may be given as hex or as `rgb:` contract IDs */
+function parseProtocolId(input: string): Uint8Array {
+  const trimmed = input.trim();
+  return trimmed.startsWith('rgb:') ? parseRgbId(trimmed).bytes : hexToBytes(trimmed);
+}
+
+function shortHash(bytes: Uint8Array): string {
+  return bytesToHex(bytes).slice(0, 8);
+}
+
+function MpcTool() {
+  const [mode, setMode] = useState<'build' | 'verify'>('build');
+  const [verifyInput, setVerifyInput] = useState({ protocolId: '', message: '', proof: '', root: '' });
+
+  const openInVerifier = (values: typeof verifyInput) => {
+    setVerifyInput(values);
+    setMode('verify');
+  };
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>MPC Merkle Tree</h3>
+        <div className={styles.modeSwitch}>
+          <button
+            className={mode === 'build' ? styles.active : ''}
+            onClick={() => setMode('build')}>
+            Build
+          </button>
+          <button
+            className={mode === 'verify' ? styles.active : ''}
+            onClick={() => setMode('verify')}>
+            Verify
+          </button>
+        </div>
+      </div>
+
+      <p className={styles.description}>
+        Multi-protocol commitment: each protocol ID is placed at
+        <code> id mod (width - cofactor)</code> in a tree of width 2^depth, with unused slots filled
+        from entropy. Leaves use <code>{MPC_LEAF_TAG}</code>, branches <code>{MERKLE_BRANCH_TAG}</code>.
+      </p>
+
+      {mode === 'build'
+        ? <MpcBuilder onVerify={openInVerifier} />
+        : <MpcVerifier key={JSON.stringify(verifyInput)} initial={verifyInput} />}
+    </div>
+  );
+}
+
+function MpcBuilder({onVerify}: {
+  onVerify: (values: { protocolId: string; message: string; proof: string; root: string }) => void;
+}) {
+  const [entries, setEntries] = useState<MpcEntryInput[]>([]);
+  const [entropy, setEntropy] = useState('0');
+  const [tree, setTree] = useState<MpcTree | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const loadExample = () => {
+    setEntries([
+      { protocolId: generateExampleContractId(), message: randomHex(32) },
+      { protocolId: generateExampleContractId(), message: randomHex(32) },
+      { protocolId: randomHex(32), message: randomHex(32) },
+    ]);
+    setEntropy(randomEntropy());
+  };
+
+  const updateEntry = (idx: number, changes: Partial<MpcEntryInput>) => {
+    setEntries(entries.map((e, i) => (i === idx ? { ...e, ...changes } : e)));
+  };
+
+  const handleBuild = () => {
+    setError('');
+    try {
+      if (!/^\d+$/.test(entropy) || BigInt(entropy) >= 1n << 64n) {
+        throw new Error('Entropy must be an unsigned 64-bit integer');
+      }
+      const messages = entries.map((entry, idx) => {
+        try {
+          return { protocolId: parseProtocolId(entry.protocolId), message: hexToBytes(entry.message.trim()) };
+        } catch (e) {
+          throw new Error(`Protocol #${idx + 1}: ${e.message}`);
+        }
+      });
+      const built = buildMpcTree(messages, BigInt(entropy));
+      setTree(built);
+      setSelected(built.leaves.find(l => l.protocolId)?.position ?? null);
+    } catch (e) {
+      setError(e.message);
+      setTree(null);
+      setSelected(null);
+    }
+  };
+
+  useEffect(() => {
+    if (entries.length > 0) handleBuild();
+  }, [entries, entropy]);
+
+  const selectedLeaf = tree && selected !== null ? tree.leaves[selected] : null;
+  const proof = tree && selectedLeaf?.protocolId ? mpcProof(tree, selectedLeaf.protocolId) : null;
+  const pathNodes = new Set<string>();
+  if (tree && selected !== null) {
+    for (let level = 0, index = selected; level < tree.levels.length; level++, index >>= 1) {
+      pathNodes.add(`${level}:${index}`);
+    }
+  }
+
+  return (
+    <div className={styles.ioSection}>
+      <div className={styles.inputSection}>
+        <label>
+          Protocols (protocol/contract ID → 32-byte message):
+          <span style={{display: 'flex', gap: '0.5rem'}}>
+            <button
+              className={styles.exampleBtn}
+              onClick={() => setEntries([...entries, { protocolId: randomHex(32), message: randomHex(32) }])}>
+              + Add Protocol
+            </button>
+            <button className={styles.exampleBtn} onClick={loadExample}>
+              Load Example
+            </button>
+          </span>
+        </label>
+        {entries.map((entry, idx) => (
+          <div key={idx} style={{display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '0.5rem'}}>
+            <input
+              type="text"
+              value={entry.protocolId}
+              onChange={(e) => updateEntry(idx, { protocolId: e.target.value })}
+              placeholder="rgb:... or 64 hex chars"
+              className={styles.formInput}
+            />
+            <input
+              type="text"
+              value={entry.message}
+              onChange={(e) => updateEntry(idx, { message: e.target.value })}
+              placeholder="message (64 hex chars)"
+              className={styles.formInput}
+            />
+            <button
+              className={styles.exampleBtn}
+              onClick={() => setEntries(entries.filter((_, i) => i !== idx))}>
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.optionsRow}>
+        <label>
+          Entropy (u64):
+          <input
+            type="text"
+            value={entropy}
+            onChange={(e) => setEntropy(e.target.value.trim())}
+            className={styles.formInput}
+            style={{width: '14rem'}}
+          />
+        </label>
+        <button className={styles.exampleBtn} onClick={() => setEntropy(randomEntropy())}>
+          🎲 Random
+        </button>
+      </div>
+
+      {error && <div className={styles.error}>❌ {error}</div>}
+
+      {tree && !error && (
+        <>
+          <div className={styles.info}>
+            ℹ️ Depth {tree.depth} | Width {tree.width} | Cofactor {tree.cofactor} |
+            {' '}{tree.leaves.filter(l => l.protocolId).length} protocol leaves,
+            {' '}{tree.leaves.filter(l => !l.protocolId).length} entropy leaves
+          </div>
+
+          <div className={styles.formatOutput}>
+            <label>MPC Root Commitment:</label>
+            <code className={styles.codeBlock}>{bytesToHex(tree.root)}</code>
+            <button onClick={() => navigator.clipboard.writeText(bytesToHex(tree.root))}>
+              📋
+            </button>
+          </div>
+
+          {tree.width <= MPC_DRAW_MAX_WIDTH ? (
+            <div className={styles.merkleTree}>
+              {[...tree.levels].reverse().map((level, r) => {
+                const levelIdx = tree.levels.length - 1 - r;
+                return (
+                  <div key={levelIdx} className={styles.merkleLevel}>
+                    {level.map((node, idx) => {
+                      const leaf = levelIdx === 0 ? tree.leaves[idx] : null;
+                      const classes = [
+                        styles.merkleNode,
+                        leaf?.protocolId ? styles.merkleNodeProtocol : '',
+                        pathNodes.has(`${levelIdx}:${idx}`) ? styles.merkleNodeActive : '',
+                      ];
+                      return (
+                        <code
+                          key={idx}
+                          className={classes.join(' ')}
+                          title={bytesToHex(node)}
+                          onClick={() => leaf && setSelected(idx)}>
+                          {shortHash(node)}
+                        </code>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className={styles.info}>
+              ℹ️ Tree too wide to draw ({tree.width} leaves); select a protocol leaf below
+            </div>
+          )}
+
+          <table className={styles.annotationTable}>
+            <thead>
+              <tr>
+                <th>Position</th>
+                <th>Protocol ID</th>
+                <th>Leaf Hash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tree.leaves.filter(l => l.protocolId).map(leaf => (
+                <tr
+                  key={leaf.position}
+                  onClick={() => setSelected(leaf.position)}
+                  style={{cursor: 'pointer', background: leaf.position === selected ? '#f0f2ff' : undefined}}>
+                  <td>{leaf.position}</td>
+                  <td>{bytesToHex(leaf.protocolId)}</td>
+                  <td>{bytesToHex(leaf.hash)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {selectedLeaf && !selectedLeaf.protocolId && (
+            <div className={styles.info}>
+              ℹ️ Position {selectedLeaf.position} is an entropy leaf: {bytesToHex(selectedLeaf.hash)}
+            </div>
+          )}
+
+          {proof && (
+            <div className={styles.outputSection}>
+              <label>Merkle Path for Position {proof.position} (leaf → root):</label>
+              <ol style={{margin: 0, fontFamily: 'monospace', fontSize: '0.85rem', wordBreak: 'break-all'}}>
+                {proof.path.map((node, idx) => (
+                  <li key={idx}>
+                    {(proof.position >> idx) & 1 ? 'left' : 'right'} sibling: {bytesToHex(node)}
+                  </li>
+                ))}
+              </ol>
+              <label>
+                Proof:
+                <span style={{display: 'flex', gap: '0.5rem'}}>
+                  <button
+                    className={styles.exampleBtn}
+                    onClick={() => navigator.clipboard.writeText(serializeMpcProof(proof))}>
+                    📋 Copy
+                  </button>
+                  <button
+                    className={styles.exampleBtn}
+                    onClick={() => onVerify({
+                      protocolId: bytesToHex(selectedLeaf.protocolId),
+                      message: bytesToHex(selectedLeaf.message),
+                      proof: serializeMpcProof(proof),
+                      root: bytesToHex(tree.root),
+                    })}>
+                    Verify →
+                  </button>
+                </span>
+              </label>
+              <pre className={styles.codeBlock}>{serializeMpcProof(proof)}</pre>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function MpcVerifier({initial}: {
+  initial: { protocolId: string; message: string; proof: string; root: string };
+}) {
+  const [protocolId, setProtocolId] = useState(initial.protocolId);
+  const [message, setMessage] = useState(initial.message);
+  const [proof, setProof] = useState(initial.proof);
+  const [root, setRoot] = useState(initial.root);
+  const [result, setResult] = useState<MpcVerification | null>(null);
+  const [error, setError] = useState('');
+
+  const handleVerify = () => {
+    setError('');
+    try {
+      setResult(verifyMpcProof(
+        parseProtocolId(protocolId),
+        hexToBytes(message.trim()),
+        parseMpcProof(proof),
+        hexToBytes(root.trim()),
+      ));
+    } catch (e) {
+      setError(e.message);
+      setResult(null);
+    }
+  };
+
+  useEffect(() => {
+    if (protocolId && message && proof && root) handleVerify();
+  }, [protocolId, message, proof, root]);
+
+  return (
+    <div className={styles.ioSection}>
+      <div className={styles.inputSection}>
+        <label>Protocol ID (hex or rgb: contract ID):</label>
+        <input type="text" value={protocolId} onChange={(e) => setProtocolId(e.target.value)} className={styles.formInput} />
+        <label>Message (hex):</label>
+        <input type="text" value={message} onChange={(e) => setMessage(e.target.value)} className={styles.formInput} />
+        <label>Proof (JSON):</label>
+        <textarea
+          value={proof}
+          onChange={(e) => setProof(e.target.value)}
+          placeholder='{"depth": 3, "cofactor": 0, "position": 5, "path": ["...", "...", "..."]}'
+          rows={6}
+        />
+        <label>Root Commitment (hex):</label>
+        <input type="text" value={root} onChange={(e) => setRoot(e.target.value)} className={styles.formInput} />
+      </div>
+
+      {error && <div className={styles.error}>❌ {error}</div>}
+
+      {result && !error && (
+        <>
+          {result.nodes.map((node, idx) => (
+            <div key={idx} className={styles.formatOutput}>
+              <label>{idx === 0 ? 'Leaf' : `Level ${idx} node`}:</label>
+              <code className={styles.codeBlock}>{bytesToHex(node)}</code>
+            </div>
+          ))}
+          {result.valid ? (
+            <div className={styles.info}>
+              ✅ Inclusion holds: the message is committed at position {result.expectedPosition} under this root
+            </div>
+          ) : (
+            <div className={styles.error}>❌ Inclusion fails: {result.reason}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function TapretTool() {
+  const [internalKey, setInternalKey] = useState('');
+  const [commitment, setCommitment] = useState('');
+  const [treeMode, setTreeMode] = useState<'none' | 'scripts' | 'root'>('none');
+  const [treeInput, setTreeInput] = useState('');
+  const [nonce, setNonce] = useState('');
+  const [hrp, setHrp] = useState('bc');
+  const [result, setResult] = useState<TapretCommitment | null>(null);
+  const [tree, setTree] = useState<TapTree | null>(null);
+  const [error, setError] = useState('');
+
+  const handleBuild = () => {
+    setError('');
+    try {
+      const key = hexToBytes(internalKey.trim());
+      let root: Uint8Array | null = null;
+      let built: TapTree | null = null;
+      if (treeMode === 'scripts') {
+        const scripts = treeInput.split('\n').map(l => l.trim()).filter(l => l.length > 0).map((line, idx) => {
+          try {
+            return hexToBytes(line);
+          } catch (e) {
+            throw new Error(`Leaf script #${idx + 1}: ${e.message}`);
+          }
+        });
+        built = buildTapTree(scripts);
+        root = built.root;
+      } else if (treeMode === 'root') {
+        root = hexToBytes(treeInput.trim());
+      }
+      if (nonce !== '' && !/^\d+$/.test(nonce)) {
+        throw new Error('Nonce must be a number between 0 and 255');
+      }
+      setTree(built);
+      setResult(buildTapretCommitment({
+        internalKey: key,
+        commitment: hexToBytes(commitment.trim()),
+        scriptTreeRoot: root,
+        nonce: nonce === '' ? undefined : Number(nonce),
+        hrp,
+      }));
+    } catch (e) {
+      setError(e.message);
+      setResult(null);
+      setTree(null);
+    }
+  };
+
+  const loadExample = () => {
+    const secret = new Uint8Array(32);
+    crypto.getRandomValues(secret);
+    setInternalKey(bytesToHex(compressPoint(pointMultiply(BigInt('0x' + bytesToHex(secret))))));
+    setCommitment(randomHex(32));
+    setTreeMode('scripts');
+    // Two example leaves: <key> OP_CHECKSIG and <144> OP_CSV OP_DROP <key> OP_CHECKSIG
+    setTreeInput([
+      `20${randomHex(32)}ac`,
+      `029000b27520${randomHex(32)}ac`,
+    ].join('\n'));
+    setNonce('');
+  };
+
+  useEffect(() => {
+    if (internalKey && commitment) handleBuild();
+  }, [internalKey, commitment, treeMode, treeInput, nonce, hrp]);
+
+  const steps: { label: string; value: string }[] = result ? [
+    { label: 'Tapret leaf script (64 bytes)', value: bytesToHex(result.script) },
+    { label: 'Script ASM', value: tapretScriptAsm(result.script) },
+    { label: `TapLeaf hash (leaf version 0x${TAPSCRIPT_LEAF_VERSION.toString(16)})`, value: bytesToHex(result.leafHash) },
+    ...(tree ? tree.leafHashes.map((h, idx) => ({ label: `Existing leaf #${idx + 1} TapLeaf hash`, value: bytesToHex(h) })) : []),
+    ...(result.partner
+      ? [
+        { label: 'Partner node (existing script tree root)', value: bytesToHex(result.partner) },
+        { label: 'TapBranch(partner, tapret leaf) = Merkle root', value: bytesToHex(result.merkleRoot) },
+      ]
+      : [{ label: 'Merkle root (tapret leaf is the only leaf)', value: bytesToHex(result.merkleRoot) }]),
+    { label: 'Internal key (x-only)', value: bytesToHex(result.internalKey) },
+    { label: 'TapTweak hash t = H(P || root)', value: bytesToHex(result.tweak) },
+    { label: `Output key Q = P + tG (parity ${result.outputKeyParity})`, value: bytesToHex(result.outputKey) },
+    { label: 'scriptPubKey (OP_1 OP_PUSHBYTES_32 Q)', value: bytesToHex(result.scriptPubkey) },
+  ] : [];
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Tapret Commitment</h3>
+        <button className={styles.exampleBtn} onClick={loadExample}>
+          Load Example
+        </button>
+      </div>
+
+      <p className={styles.description}>
+        Embed an MPC commitment as a taproot script leaf and derive the tweaked P2TR output
+      </p>
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>Internal Key (x-only or compressed hex):</label>
+          <input
+            type="text"
+            value={internalKey}
+            onChange={(e) => setInternalKey(e.target.value)}
+            placeholder="02... or 32-byte x-only key"
+            className={styles.formInput}
+          />
+          <label>MPC Commitment (32-byte hex, e.g. from the MPC Tree tool):</label>
+          <input
+            type="text"
+            value={commitment}
+            onChange={(e) => setCommitment(e.target.value)}
+            placeholder="64 hex chars"
+            className={styles.formInput}
+          />
+        </div>
+
+        <div className={styles.optionsRow}>
+          <label>
+            Existing script tree:
+            <select
+              value={treeMode}
+              onChange={(e) => setTreeMode(e.target.value as typeof treeMode)}
+              className={styles.formInput}
+              style={{width: '11rem'}}>
+              <option value="none">None</option>
+              <option value="scripts">Leaf scripts</option>
+              <option value="root">Merkle root</option>
+            </select>
+          </label>
+          <label>
+            Nonce:
+            <input
+              type="text"
+              value={nonce}
+              onChange={(e) => setNonce(e.target.value.trim())}
+              placeholder="auto"
+              className={styles.formInput}
+            />
+          </label>
+          <label>
+            Network:
+            <select value={hrp} onChange={(e) => setHrp(e.target.value)} className={styles.formInput}>
+              <option value="bc">bc (mainnet)</option>
+              <option value="tb">tb (testnet/signet)</option>
+              <option value="bcrt">bcrt (regtest)</option>
+            </select>
+          </label>
+        </div>
+
+        {treeMode !== 'none' && (
+          <div className={styles.inputSection}>
+            <label>
+              {treeMode === 'scripts'
+                ? 'Leaf scripts (hex, one per line; neighbours are paired level by level):'
+                : 'Script tree Merkle root (hex):'}
+            </label>
+            <textarea
+              value={treeInput}
+              onChange={(e) => setTreeInput(e.target.value)}
+              rows={treeMode === 'scripts' ? 4 : 2}
+            />
+          </div>
+        )}
+
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {result && !error && (
+          <>
+            {steps.map((step, idx) => (
+              <div key={idx} className={styles.formatOutput}>
+                <label>{idx + 1}. {step.label}:</label>
+                <code className={styles.codeBlock}>{step.value}</code>
+              </div>
+            ))}
+            <div className={styles.arrow}>↓ Bech32m (witness v1) ↓</div>
+            <div className={styles.formatOutput}>
+              <label>P2TR Address:</label>
+              <code className={styles.codeBlock}>{result.address}</code>
+              <button onClick={() => navigator.clipboard.writeText(result.address)}>
+                📋
+              </button>
+            </div>
+            <div className={styles.info}>
+              ℹ️ Nonce {result.nonce}{nonce === '' ? ' (auto)' : ''}: the commitment leaf must sort after its
+              partner node so that it is the right-hand child at depth 1
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function OpretTool() {
+  const [mode, setMode] = useState<'build' | 'verify'>('build');
+  const [commitment, setCommitment] = useState('');
+  const [tag, setTag] = useState<string>('');
+  const [verifyInput, setVerifyInput] = useState({ script: '', expected: '' });
+  const [script, setScript] = useState<Uint8Array | null>(null);
+  const [error, setError] = useState('');
+
+  const handleBuild = () => {
+    setError('');
+    try {
+      setScript(opretScript(hexToBytes(commitment.trim()), tag === '' ? null : tag));
+    } catch (e) {
+      setError(e.message);
+      setScript(null);
+    }
+  };
+
+  useEffect(() => {
+    if (commitment) handleBuild();
+  }, [commitment, tag]);
+
+  const scriptHex = script ? bytesToHex(script) : '';
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Opret Commitment</h3>
+        <div className={styles.modeSwitch}>
+          <button
+            className={mode === 'build' ? styles.active : ''}
+            onClick={() => setMode('build')}>
+            Build
+          </button>
+          <button
+            className={mode === 'verify' ? styles.active : ''}
+            onClick={() => setMode('verify')}>
+            Verify
+          </button>
+        </div>
+      </div>
+
+      <p className={styles.description}>
+        {mode === 'build'
+          ? 'Build the OP_RETURN output that anchors an MPC commitment'
+          : 'Extract the commitment from an OP_RETURN output script and check it'}
+      </p>
+
+      {mode === 'verify' ? (
+        <OpretVerifier
+          key={`${verifyInput.script}:${verifyInput.expected}`}
+          initialScript={verifyInput.script}
+          initialExpected={verifyInput.expected}
+        />
+      ) : (
+        <div className={styles.ioSection}>
+          <div className={styles.inputSection}>
+            <label>
+              MPC Commitment (32-byte hex):
+              <button className={styles.exampleBtn} onClick={() => setCommitment(randomHex(32))}>
+                🎲 Random
+              </button>
+            </label>
+            <input
+              type="text"
+              value={commitment}
+              onChange={(e) => setCommitment(e.target.value)}
+              placeholder="64 hex chars, e.g. the root from the MPC Tree tool"
+              className={styles.formInput}
+            />
+          </div>
+
+          <div className={styles.optionsRow}>
+            <label>
+              Layout:
+              <select
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                className={styles.formInput}
+                style={{width: '18rem'}}>
+                <option value="">Standard: OP_RETURN &lt;32 bytes&gt;</option>
+                {OPRET_PROTOCOL_TAGS.map(t => (
+                  <option key={t} value={t}>Tagged: OP_RETURN "{formatOpretTag(t)}" &lt;32 bytes&gt;</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {error && <div className={styles.error}>❌ {error}</div>}
+
+          {script && !error && (
+            <>
+              <div className={styles.formatOutput}>
+                <label>scriptPubKey ({script.length} bytes):</label>
+                <code className={styles.codeBlock}>{scriptHex}</code>
+                <button onClick={() => navigator.clipboard.writeText(scriptHex)}>
+                  📋
+                </button>
+              </div>
+              <div className={styles.formatOutput}>
+                <label>ASM:</label>
+                <code className={styles.codeBlock}>{scriptToAsm(script)}</code>
+              </div>
+              <div className={styles.formatOutput}>
+                <label>Serialized TxOut (0 sats, {opretTxOut(script).length} bytes):</label>
+                <code className={styles.codeBlock}>{bytesToHex(opretTxOut(script))}</code>
+              </div>
+              <button
+                className={styles.exampleBtn}
+                style={{alignSelf: 'flex-start'}}
+                onClick={() => {
+                  setVerifyInput({ script: scriptHex, expected: commitment.trim() });
+                  setMode('verify');
+                }}>
+                Verify this output →
+              </button>
+              {tag !== '' && (
+                <div className={styles.info}>
+                  ℹ️ RGB wallets emit the standard 34-byte form; the tagged layout follows the opret reference page
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Segwit transaction with a P2WPKH change output and an opret commitment */
+const EXAMPLE_TX = '02000000000101c6f822dc89edcab01f5b7d0568e83ed3e8a71cbfdd6482357b5096160206fe330100000000fdffffff0274bd00000000000016001405a93e00334802fe43faa5976898abea8cf4ff530000000000000000226a203b5f1e0c9a2d4f6b8e7c1a3d5f7b9e0c2a4d6f8b1c3e5a7d9f0b2c4e6a8d1f3b0247304447dea3b1c02653e4a767c35d508b58f54db80c364adaf02a8f54e696b0be826685aa59609a1dd7a32183bac1fd69405e8dd91d2d512ac05803cd9dfcb020d9de9ca4e872012102a4aa3d2402f8a23600923e08da30c933b6b275b8473380e9a240503bf283ceea00000000';
+
+function TxTool({initialInput = ''}: {initialInput?: string}) {
+  const [example, setExample] = useState(initialInput);
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Transaction Decoder</h3>
+        <button className={styles.exampleBtn} onClick={() => setExample(EXAMPLE_TX)}>
+          Load Example
+        </button>
+      </div>
+
+      <p className={styles.description}>
+        Decode a raw Bitcoin transaction and locate the outputs that can carry an RGB commitment
+      </p>
+
+      <TxDecoder key={example} initialTx={example} />
+    </div>
+  );
+}
+
+/** Testnet PSBT of an opret-anchored RGB transfer: one MPC message, host output and change */
+const EXAMPLE_PSBT =
+  'cHNidP8BAH0CAAAAAXrU6YpR3NMrHgNWQxW2hHWShsxofhin2EdNgdXKjvmvAgAAAAD9////AgAAAAAAAAAAImogAVVnQesD'
+  + 'A8qLFfHkJX7IXlAcso7gfsnbLgVAi6zGDbnEgAEAAAAAABYAFMncMbStwqBF1Ogqzr1w0pM+p9vdAAAAACb8A1JHQgEf8yFB'
+  + '1EIwGEcAWv1Os+7W/ldcd6jOVpAtQWORc6teGHh8e0uR+RVUA/r8b26hU4XJLY+hTsP14Kr2fkx+rQUTxa9F/2v3RmtCxNPK'
+  + 'g0OZ7ZBD8uO0APFCFgzfEdbDodUoSQrC8XF2UfUGft/a+A1RdF7E/j+fduG8zkK+Bae8GsZUegX7z3oqGJGOVCD+gSXLXE0G'
+  + '7ZapbJwG/ANSR0ICAQAAAQEfoIYBAAAAAAAWABSR2DiVWQAFmJLW7pT8cImuUQeQTiIGA58M/gps+PjU4wqvrEIWiHuTTnz6'
+  + 'Eps8x3fgMXWF2W9pGNNNsz9UAACAAQAAgAAAAIAAAAAAAwAAACb8A1JHQgM7Xx4Mmi1Pa458Gj1fe54MKk1vixw+Wn2fCyxO'
+  + 'ao0fMCAf8yFB1EIwGEcAWv1Os+7W/ldcd6jOVpAtQWORc6teGAAm/ANNUEMAO18eDJotT2uOfBo9X3ueDCpNb4scPlp9nwss'
+  + 'TmqNHzAgapHsUCgibsAAZQvmwudlKV+ShnsfwGqc8dN7JiujlQYG/ANNUEMBCO1eAAAAAAAABvwDTVBDBAEDBvwDTVBDECAB'
+  + 'VWdB6wMDyosV8eQlfsheUByyjuB+ydsuBUCLrMYNuQj8BU9QUkVUAAAI/AVPUFJFVAEgAVVnQesDA8qLFfHkJX7IXlAcso7g'
+  + 'fsnbLgVAi6zGDbkAIgIDG5d64sYr7BxkKxq3EdqH4dVs4+BTmDTYxdOia8ccRz8Y002zP1QAAIABAACAAAAAgAEAAAAAAAAA'
+  + 'BvwDUkdCEAE/AA==';
+
+function PsbtTool({initialInput = ''}: {initialInput?: string}) {
+  const [input, setInput] = useState(initialInput);
+  const [hrp, setHrp] = useState('tb');
+  const [psbt, setPsbt] = useState<Psbt | null>(null);
+  const [error, setError] = useState('');
+
+  const handleParse = async () => {
+    setError('');
+    try {
+      setPsbt(await parsePsbt(parsePsbtInput(input), hrp));
+    } catch (e) {
+      setError(e.message);
+      setPsbt(null);
+    }
+  };
+
+  useEffect(() => {
+    if (input) handleParse();
+  }, [input, hrp]);
+
+  const rgb = psbt?.rgb;
+  const hasRgb = psbt && [psbt.global, ...psbt.inputs, ...psbt.outputs].some(map => map.some(e => e.rgb));
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>PSBT Inspector</h3>
+        <button className={styles.exampleBtn} onClick={() => setInput(EXAMPLE_PSBT)}>
+          Load Example
+        </button>
+      </div>
+
+      <p className={styles.description}>
+        Decode PSBT v0/v2 maps, including the MPC, opret/tapret host and RGB proprietary keys
+      </p>
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>PSBT (base64 or hex):</label>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="cHNidP8BA... or 70736274ff..."
+            rows={5}
+            style={{fontFamily: 'monospace', fontSize: '0.85rem'}}
+          />
+        </div>
+
+        <div className={styles.optionsRow}>
+          <label>
+            Address network:
+            <select value={hrp} onChange={(e) => setHrp(e.target.value)} className={styles.formInput}>
+              <option value="bc">bc (mainnet)</option>
+              <option value="tb">tb (testnet/signet)</option>
+              <option value="bcrt">bcrt (regtest)</option>
+            </select>
+          </label>
+        </div>
+
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {psbt && !error && (
+          <>
+            <div className={styles.info}>
+              ℹ️ PSBT v{psbt.version} · {psbt.inputs.length} input(s) · {psbt.outputs.length} output(s)
+              {psbt.unsignedTx && <> · unsigned txid <code>{psbt.unsignedTx.txid}</code></>}
+            </div>
+
+            {hasRgb ? (
+              <div className={styles.parsedOutput}>
+                <h4>RGB Data</h4>
+                <div className={styles.field}>
+                  <span className={styles.fieldLabel}>Close method:</span>
+                  <code>{rgb.closeMethod ?? 'not set'}</code>
+                </div>
+                {(rgb.opretHost !== null || rgb.tapretHost !== null) && (
+                  <div className={styles.field}>
+                    <span className={styles.fieldLabel}>Commitment host:</span>
+                    <code>
+                      {[
+                        rgb.opretHost !== null && `opret → output #${rgb.opretHost}`,
+                        rgb.tapretHost !== null && `tapret → output #${rgb.tapretHost}`,
+                      ].filter(Boolean).join(', ')}
+                    </code>
+                  </div>
+                )}
+                {rgb.mpcMessages.map((m, idx) => (
+                  <div key={idx} className={styles.field}>
+                    <span className={styles.fieldLabel}>MPC message (output #{m.output}) for {m.protocolId}:</span>
+                    <code>{m.message}</code>
+                  </div>
+                ))}
+                {rgb.commitments.map((c, idx) => (
+                  <div key={idx} className={styles.field}>
+                    <span className={styles.fieldLabel}>{c.method} commitment (output #{c.output}):</span>
+                    <code>{c.commitment}</code>
+                  </div>
+                ))}
+                {rgb.transitions.length > 0 && (
+                  <div className={styles.field}>
+                    <span className={styles.fieldLabel}>State transitions ({rgb.transitions.length}):</span>
+                    <code>{rgb.transitions.join(', ')}</code>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className={styles.info}>ℹ️ No RGB or LNP/BP proprietary keys in this PSBT</div>
+            )}
+
+            <PsbtMapTable title="Global map" entries={psbt.global} />
+            {psbt.inputs.map((entries, idx) => (
+              <PsbtMapTable
+                key={`in${idx}`}
+                title={`Input #${idx}${psbt.unsignedTx
+                  ? ` (${psbt.unsignedTx.inputs[idx].prevTxid}:${psbt.unsignedTx.inputs[idx].vout})`
+                  : ''}`}
+                entries={entries}
+              />
+            ))}
+            {psbt.outputs.map((entries, idx) => (
+              <PsbtMapTable
+                key={`out${idx}`}
+                title={`Output #${idx}${psbt.unsignedTx
+                  ? ` (${OUTPUT_SCRIPT_LABELS[psbt.unsignedTx.outputs[idx].type]}, ${formatSats(psbt.unsignedTx.outputs[idx].value)})`
+                  : ''}`}
+                entries={entries}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PsbtMapTable({title, entries}: {title: string; entries: PsbtEntry[]}) {
+  return (
+    <div className={styles.formatOutput}>
+      <label>{title}:</label>
+      {entries.length === 0 ? (
+        <code className={styles.codeBlock}>(empty map)</code>
+      ) : (
+        <table className={styles.annotationTable}>
+          <thead>
+            <tr>
+              <th>Key</th>
+              <th>Key data</th>
+              <th>Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, idx) => (
+              <tr key={idx} className={entry.rgb ? styles.rgbRow : ''}>
+                <td>{entry.name}</td>
+                <td>{entry.keyLabel}</td>
+                <td>
+                  {entry.error
+                    ? <span className={styles.fieldError}>⚠️ {entry.error}: {bytesToHex(entry.value)}</span>
+                    : entry.decoded}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+interface SealInput {
+  method: CloseMethod | 'any';
+  txid: string;
+  vout: string;
+  blinding: string;
+}
+
+function readSeal(input: SealInput, method: CloseMethod): BlindSeal {
+  if (!/^\d+$/.test(input.vout.trim())) {
+    throw new Error('Output index must be a non-negative integer');
+  }
+  return {
+    method,
+    txid: input.txid.trim().toLowerCase(),
+    vout: Number(input.vout.trim()),
+    blinding: parseBlinding(input.blinding),
+  };
+}
+
+function SealTool({initialInput = ''}: {initialInput?: string}) {
+  const [mode, setMode] = useState<'blind' | 'reveal'>(initialInput ? 'reveal' : 'blind');
+  const [seal, setSeal] = useState<SealInput>({
+    method: initialInput ? 'any' : 'tapret1st',
+    txid: '',
+    vout: '0',
+    blinding: '',
+  });
+  const [concealedInput, setConcealedInput] = useState(initialInput);
+  const [blinded, setBlinded] = useState<{ seal: BlindSeal; serialized: Uint8Array; concealed: Uint8Array } | null>(null);
+  const [revealed, setRevealed] = useState<{ expected: Uint8Array; match: CloseMethod | null; tried: CloseMethod[] } | null>(null);
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<SealInput>) => {
+    // Accept a pasted txid:vout outpoint in the txid field
+    const outpoint = changes.txid?.trim().match(/^([0-9a-fA-F]{64}):(\d+)$/);
+    setSeal({ ...seal, ...changes, ...(outpoint ? { txid: outpoint[1], vout: outpoint[2] } : {}) });
+  };
+
+  const switchMode = (next: 'blind' | 'reveal') => {
+    setMode(next);
+    if (next === 'blind' && seal.method === 'any') update({ method: 'tapret1st' });
+  };
+
+  const handleBlind = () => {
+    setError('');
+    try {
+      const parsed = readSeal(seal, seal.method === 'any' ? 'tapret1st' : seal.method);
+      setBlinded({ seal: parsed, serialized: serializeBlindSeal(parsed), concealed: concealSeal(parsed) });
+    } catch (e) {
+      setError(e.message);
+      setBlinded(null);
+    }
+  };
+
+  const handleReveal = () => {
+    setError('');
+    try {
+      const expected = parseSecretSeal(concealedInput);
+      const tried = seal.method === 'any' ? (Object.keys(CLOSE_METHOD_CODES) as CloseMethod[]) : [seal.method];
+      const match = tried.find(method => bytesToHex(concealSeal(readSeal(seal, method))) === bytesToHex(expected)) ?? null;
+      setRevealed({ expected, match, tried });
+    } catch (e) {
+      setError(e.message);
+      setRevealed(null);
+    }
+  };
+
+  useEffect(() => {
+    if (mode === 'blind' && seal.txid) handleBlind();
+    if (mode === 'reveal' && seal.txid && concealedInput) handleReveal();
+  }, [mode, seal, concealedInput]);
+
+  const loadExample = () => {
+    setMode('blind');
+    setSeal({ method: 'tapret1st', txid: randomHex(32), vout: '1', blinding: randomBlinding().toString() });
+  };
+
+  const baid64 = blinded ? formatSecretSeal(blinded.concealed) : '';
+  const fields: { name: string; bytes: Uint8Array; value: string }[] = blinded ? [
+    { name: 'method', bytes: blinded.serialized.slice(0, 1), value: blinded.seal.method },
+    { name: 'txid (internal byte order)', bytes: blinded.serialized.slice(1, 33), value: blinded.seal.txid },
+    { name: 'vout (u32 LE)', bytes: blinded.serialized.slice(33, 37), value: String(blinded.seal.vout) },
+    { name: 'blinding (u64 LE)', bytes: blinded.serialized.slice(37), value: blinded.seal.blinding.toString() },
+  ] : [];
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Blinded Seal</h3>
+        <div className={styles.modeSwitch}>
+          <button
+            className={mode === 'blind' ? styles.active : ''}
+            onClick={() => switchMode('blind')}>
+            Conceal
+          </button>
+          <button
+            className={mode === 'reveal' ? styles.active : ''}
+            onClick={() => switchMode('reveal')}>
+            Reveal
+          </button>
+        </div>
+        <button className={styles.exampleBtn} onClick={loadExample}>
+          Load Example
+        </button>
+      </div>
+
+      <p className={styles.description}>
+        {mode === 'blind'
+          ? 'Conceal a UTXO behind a blinding factor, as a payee does before putting it in an invoice'
+          : 'Check that an outpoint and blinding factor open a utxob: seal from an invoice'}
+      </p>
+
+      <div className={styles.ioSection}>
+        {mode === 'reveal' && (
+          <div className={styles.inputSection}>
+            <label>Blinded seal (utxob:..., or a whole invoice):</label>
+            <input
+              type="text"
+              value={concealedInput}
+              onChange={(e) => setConcealedInput(e.target.value)}
+              placeholder="utxob:... or rgb:.../RGB20/1000+bc:utxob:..."
+              className={styles.formInput}
+            />
+          </div>
+        )}
+
+        <div className={styles.formGrid}>
+          <div className={styles.formField} style={{gridColumn: '1 / -1'}}>
+            <label>Txid (or txid:vout)</label>
+            <input
+              type="text"
+              value={seal.txid}
+              onChange={(e) => update({ txid: e.target.value })}
+              placeholder="64 hex chars, as shown by block explorers"
+              className={styles.formInput}
+            />
+          </div>
+          <div className={styles.formField}>
+            <label>Output index (vout)</label>
+            <input
+              type="text"
+              value={seal.vout}
+              onChange={(e) => update({ vout: e.target.value })}
+              className={styles.formInput}
+            />
+          </div>
+          <div className={styles.formField}>
+            <label>
+              Blinding factor
+              {mode === 'blind' && (
+                <button className={styles.exampleBtn} onClick={() => update({ blinding: randomBlinding().toString() })}>
+                  🎲 Random
+                </button>
+              )}
+            </label>
+            <input
+              type="text"
+              value={seal.blinding}
+              onChange={(e) => update({ blinding: e.target.value })}
+              placeholder="u64, decimal or 0x hex"
+              className={styles.formInput}
+            />
+          </div>
+          <div className={styles.formField}>
+            <label>Close method</label>
+            <select
+              value={seal.method}
+              onChange={(e) => update({ method: e.target.value as SealInput['method'] })}
+              className={styles.formInput}>
+              <option value="tapret1st">tapret1st</option>
+              <option value="opret1st">opret1st</option>
+              {mode === 'reveal' && <option value="any">Try both</option>}
+            </select>
+          </div>
+        </div>
+
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {mode === 'blind' && blinded && !error && (
+          <>
+            <table className={styles.annotationTable}>
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>Value</th>
+                  <th>Bytes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => (
+                  <tr key={field.name}>
+                    <td>{field.name}</td>
+                    <td>{field.value}</td>
+                    <td>{bytesToHex(field.bytes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className={styles.formatOutput}>
+              <label>Serialized seal ({blinded.serialized.length} bytes):</label>
+              <code className={styles.codeBlock}>{bytesToHex(blinded.serialized)}</code>
+            </div>
+            <div className={styles.arrow}>↓ tagged SHA-256 ({SECRET_SEAL_TAG}) ↓</div>
+            <div className={styles.formatOutput}>
+              <label>Concealed seal:</label>
+              <code className={styles.codeBlock}>{bytesToHex(blinded.concealed)}</code>
+            </div>
+            <div className={styles.formatOutput}>
+              <label>Invoice form:</label>
+              <code className={styles.codeBlock}>{baid64}</code>
+              <button onClick={() => navigator.clipboard.writeText(baid64)}>
+                📋
+              </button>
+            </div>
+            <button
+              className={styles.exampleBtn}
+              style={{alignSelf: 'flex-start'}}
+              onClick={() => {
+                setConcealedInput(baid64);
+                setMode('reveal');
+              }}>
+              Reveal this seal →
+            </button>
+            <div className={styles.info}>
+              ℹ️ Keep the blinding factor: without it you cannot prove that the seal is your UTXO when the transfer arrives
+            </div>
+          </>
+        )}
+
+        {mode === 'reveal' && revealed && !error && (
+          <>
+            <div className={styles.formatOutput}>
+              <label>Concealed seal:</label>
+              <code className={styles.codeBlock}>{bytesToHex(revealed.expected)}</code>
+            </div>
+            {revealed.match ? (
+              <div className={styles.info}>
+                ✅ {seal.txid.trim()}:{seal.vout.trim()} with this blinding factor opens the seal
+                (close method {revealed.match})
+              </div>
+            ) : (
+              <div className={styles.error}>
+                ❌ No match for {revealed.tried.join(' or ')}: the outpoint, blinding factor or close method differ
+                from the ones used to create the seal
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const EXAMPLE_ADDRESSES = [
+  '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+  '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy',
+  'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+  'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+  'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr',
+  'mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn',
+];
+
+const ADDRESS_PAYLOAD_LABELS: Record<DecodedAddress['type'], string> = {
+  p2pkh: 'Public key hash (HASH160)',
+  p2sh: 'Script hash (HASH160)',
+  p2wpkh: 'Witness program: public key hash',
+  p2wsh: 'Witness program: SHA-256 of the witness script',
+  p2tr: 'Witness program: tweaked x-only output key',
+  witness_unknown: 'Witness program',
+};
+
+function AddressTool({initialInput = ''}: {initialInput?: string}) {
+  const [input, setInput] = useState(initialInput);
+  const [example, setExample] = useState(0);
+  const [decoded, setDecoded] = useState<DecodedAddress | null>(null);
+  const [error, setError] = useState('');
+
+  const handleDecode = () => {
+    setError('');
+    try {
+      setDecoded(decodeAddress(input));
+    } catch (e) {
+      setError(e.message);
+      setDecoded(null);
+    }
+  };
+
+  useEffect(() => {
+    if (input) handleDecode();
+  }, [input]);
+
+  const loadExample = () => {
+    setInput(EXAMPLE_ADDRESSES[example]);
+    setExample((example + 1) % EXAMPLE_ADDRESSES.length);
+  };
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Bitcoin Address Decoder</h3>
+        <button className={styles.exampleBtn} onClick={loadExample}>
+          Load Example ({example + 1}/{EXAMPLE_ADDRESSES.length})
+        </button>
+      </div>
+
+      <p className={styles.description}>
+        Decode legacy (Base58Check) and SegWit (Bech32/Bech32m) addresses into network, type and scriptPubKey
+      </p>
+
+      <div className={styles.ioSection}>
         <div className={styles.inputSection}>
-          <label>RGB ID:</label>
+          <label>Address:</label>
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="rgb:2Ky4xDT-VyLmtp9Y-XmKinHXG-utaq8UBu-qjfqDiUM-8bHNdBb"
-            className={styles.largeInput}
+            placeholder="1..., 3..., bc1q..., bc1p..., tb1..., bcrt1..."
+            className={styles.formInput}
           />
         </div>
 
-        {error ? (
-          <div className={styles.error}>❌ {error}</div>
-        ) : (
-          parsed && (
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {decoded && !error && (
+          <>
             <div className={styles.parsedOutput}>
-              <h4>✅ Parsed Successfully</h4>
+              <h4>✅ Valid Address</h4>
               <div className={styles.field}>
-                <span className={styles.fieldLabel}>Prefix:</span>
-                <code>{parsed.prefix}</code>
+                <span className={styles.fieldLabel}>Type:</span>
+                <code>{ADDRESS_TYPE_LABELS[decoded.type]}</code>
               </div>
               <div className={styles.field}>
-                <span className={styles.fieldLabel}>BAID64:</span>
-                <code className={styles.codeBlock}>{parsed.baid64}</code>
+                <span className={styles.fieldLabel}>Network:</span>
+                <code>{decoded.networks.join(' / ')}</code>
               </div>
               <div className={styles.field}>
-                <span className={styles.fieldLabel}>Hex:</span>
-                <code className={styles.codeBlock}>{parsed.hex}</code>
-                <button onClick={() => navigator.clipboard.writeText(parsed.hex)}>
-                  📋
-                </button>
+                <span className={styles.fieldLabel}>Encoding:</span>
+                <code>
+                  {decoded.encoding === 'base58check'
+                    ? `Base58Check, version byte 0x${decoded.versionByte.toString(16).padStart(2, '0')}`
+                    : `${decoded.encoding === 'bech32' ? 'Bech32' : 'Bech32m'}, HRP "${decoded.hrp}"`}
+                </code>
               </div>
               <div className={styles.field}>
-                <span className={styles.fieldLabel}>Size:</span>
-                <code>{parsed.bytes} bytes</code>
+                <span className={styles.fieldLabel}>Witness version:</span>
+                <code>{decoded.witnessVersion ?? 'none (legacy)'}</code>
+              </div>
+              <div className={styles.field}>
+                <span className={styles.fieldLabel}>
+                  {ADDRESS_PAYLOAD_LABELS[decoded.type]} ({decoded.payload.length} bytes):
+                </span>
+                <code>{bytesToHex(decoded.payload)}</code>
               </div>
             </div>
-          )
+
+            <div className={styles.formatOutput}>
+              <label>scriptPubKey:</label>
+              <code className={styles.codeBlock}>{bytesToHex(decoded.scriptPubkey)}</code>
+              <button onClick={() => navigator.clipboard.writeText(bytesToHex(decoded.scriptPubkey))}>
+                📋
+              </button>
+            </div>
+            <div className={styles.formatOutput}>
+              <label>ASM:</label>
+              <code className={styles.codeBlock}>{scriptToAsm(decoded.scriptPubkey)}</code>
+            </div>
+            {decoded.type === 'p2tr' && (
+              <div className={styles.info}>
+                ℹ️ A taproot output can host a tapret commitment; the address alone cannot tell whether it does
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const ID_KINDS: { id: RgbIdKind; label: string; description: string }[] = [
+  { id: 'contract', label: 'Contract ID', description: 'Tagged hash of the consensus-encoded genesis: schema ID, metadata, global state, assignments and valencies' },
+  { id: 'operation', label: 'Operation ID', description: 'Tagged hash of the consensus-encoded state transition, in the order of the "Operation Commitments" layout' },
+  { id: 'schema', label: 'Schema ID', description: 'Tagged hash of the serialized schema definition' },
+  { id: 'interface', label: 'Interface ID', description: 'Tagged hash of the serialized interface definition' },
+];
+
+const EXAMPLE_INTERFACE_DEFINITION = 'interface RGB20\n'
+  + '  global spec: RGBContract.AssetSpec\n'
+  + '  global issuedSupply: RGBContract.Amount\n'
+  + '  owned assetOwner: Zk64\n'
+  + '  transition transfer: assetOwner+ -> assetOwner+\n';
+
+function hexRecord<T>(record: Record<number, T>, map: (value: T) => unknown): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).map(([type, value]) => [type, map(value)]));
+}
+
+function stateJson(state: OperationState) {
+  return {
+    metadata: bytesToHex(state.metadata),
+    globals: hexRecord(state.globals, bytesToHex),
+    assignments: hexRecord(state.assignments, values => values.map(bytesToHex)),
+    valencies: state.valencies,
+  };
+}
+
+function exampleGenesisJson(): string {
+  const genesis = exampleGenesis();
+  return JSON.stringify({ schemaId: formatRgbId('schema', genesis.schemaId), ...stateJson(genesis) }, null, 2);
+}
+
+function exampleTransitionJson(contractId: string): string {
+  return JSON.stringify({
+    contractId,
+    transitionType: 10000,
+    ...stateJson({
+      metadata: new Uint8Array(0),
+      globals: {},
+      // Two concealed seals splitting the issued supply
+      assignments: {
+        4000: [
+          hexToBytes(`${'22'.repeat(32)}a086010000000000`),
+          hexToBytes(`${'33'.repeat(32)}a0bb0d0000000000`),
+        ],
+      },
+      valencies: [],
+    }),
+  }, null, 2);
+}
+
+/**
+ * Identifier given as `hri:BAID64` (checked against the expected HRI) or 64 hex digits
+ */
+function readCommitmentId(value: unknown, kind: RgbIdKind, field: string): Uint8Array {
+  if (typeof value !== 'string') {
+    throw new Error(`"${field}" must be a ${RGB_ID_HRI[kind]}:... identifier or hex string`);
+  }
+  if (!value.includes(':')) return hexToBytes(value);
+  const { prefix, bytes } = parseRgbId(value);
+  if (prefix !== RGB_ID_HRI[kind]) {
+    throw new Error(`"${field}" must have the ${RGB_ID_HRI[kind]}: prefix, got ${prefix}:`);
+  }
+  return bytes;
+}
+
+function readState(input: unknown): OperationState {
+  if (!isRecord(input)) {
+    throw new Error('Expected a JSON object with metadata, globals, assignments and valencies');
+  }
+  const data = input;
+  const readRecord = <T,>(name: string, map: (value: unknown, key: string) => T): Record<number, T> => {
+    const record = data[name] ?? {};
+    if (!isRecord(record)) {
+      throw new Error(`"${name}" must be an object keyed by type id`);
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => {
+      if (!/^\d+$/.test(key)) throw new Error(`"${name}" key "${key}" is not a type id`);
+      return [Number(key), map(value, key)];
+    }));
+  };
+  const hex = (value: unknown, what: string) => {
+    if (typeof value !== 'string') throw new Error(`${what} must be a hex string`);
+    return hexToBytes(value);
+  };
+
+  const valencies: unknown = data.valencies ?? [];
+  if (!Array.isArray(valencies) || !valencies.every(v => Number.isInteger(v))) {
+    throw new Error('"valencies" must be an array of type ids');
+  }
+  return {
+    metadata: hex(data.metadata ?? '', '"metadata"'),
+    globals: readRecord('globals', (value, key) => hex(value, `Global ${key}`)),
+    assignments: readRecord('assignments', (value, key) => {
+      if (!Array.isArray(value)) throw new Error(`Assignments ${key} must be an array of hex strings`);
+      return value.map((item, idx) => hex(item, `Assignment ${key}[${idx}]`));
+    }),
+    valencies,
+  };
+}
+
+function commitmentField(field: CommitmentField): HexDumpField {
+  return { name: field.name, offset: field.offset, length: field.length, value: field.value, depth: field.depth };
+}
+
+function IdTool() {
+  const [kind, setKind] = useState<RgbIdKind>('contract');
+  const [inputs, setInputs] = useState<Record<RgbIdKind, string>>(() => ({
+    contract: exampleGenesisJson(),
+    operation: exampleTransitionJson(computeContractId(exampleGenesis()).formatted),
+    schema: EXAMPLE_SCHEMA_DEFINITION,
+    interface: EXAMPLE_INTERFACE_DEFINITION,
+  }));
+  const [definitionType, setDefinitionType] = useState<'text' | 'hex'>('text');
+  const [result, setResult] = useState<RgbIdCommitment | null>(null);
+  const [error, setError] = useState('');
+
+  const input = inputs[kind];
+  const isDefinition = kind === 'schema' || kind === 'interface';
+
+  const handleCompute = () => {
+    setError('');
+    try {
+      if (isDefinition) {
+        const definition = definitionType === 'hex' ? hexToBytes(input) : new TextEncoder().encode(input);
+        setResult(kind === 'schema' ? computeSchemaId(definition) : computeInterfaceId(definition));
+        return;
+      }
+      const data: unknown = JSON.parse(input);
+      if (!isRecord(data)) {
+        throw new Error('Expected a JSON object');
+      }
+      setResult(kind === 'contract'
+        ? computeContractId({ schemaId: readCommitmentId(data.schemaId, 'schema', 'schemaId'), ...readState(data) })
+        : computeOperationId({
+          contractId: readCommitmentId(data.contractId, 'contract', 'contractId'),
+          // Range-checked when the transition type is written as a u16
+          transitionType: data.transitionType as number,
+          ...readState(data),
+        }));
+    } catch (e) {
+      setError(e.message);
+      setResult(null);
+    }
+  };
+
+  useEffect(() => {
+    if (input) handleCompute();
+  }, [input, kind, definitionType]);
+
+  const setInput = (value: string) => setInputs({ ...inputs, [kind]: value });
+
+  const spendContract = () => {
+    setInputs({ ...inputs, operation: exampleTransitionJson(result.formatted) });
+    setKind('operation');
+  };
+
+  const current = ID_KINDS.find(k => k.id === kind);
+  const tagged = result ? taggedHashSteps(RGB_ID_TAGS[kind], result.bytes) : null;
+
+  return (
+    <div className={styles.tool}>
+      <div className={styles.toolHeader}>
+        <h3>Identifiers</h3>
+        {isDefinition && (
+          <div className={styles.modeSwitch}>
+            <button
+              className={definitionType === 'text' ? styles.active : ''}
+              onClick={() => setDefinitionType('text')}>
+              Text
+            </button>
+            <button
+              className={definitionType === 'hex' ? styles.active : ''}
+              onClick={() => setDefinitionType('hex')}>
+              Hex
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className={styles.modeSwitch} style={{alignSelf: 'flex-start', flexWrap: 'wrap'}}>
+        {ID_KINDS.map(k => (
+          <button
+            key={k.id}
+            className={kind === k.id ? styles.active : ''}
+            onClick={() => setKind(k.id)}>
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      <p className={styles.description}>
+        {current?.description}, displayed as BAID64 with the <code>{RGB_ID_HRI[kind]}:</code> prefix
+      </p>
+
+      <div className={styles.ioSection}>
+        <div className={styles.inputSection}>
+          <label>{isDefinition ? `${current?.label.replace(' ID', '')} Definition:` : `${kind === 'contract' ? 'Genesis' : 'Transition'} (JSON, hex values):`}</label>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={isDefinition ? 6 : 14}
+          />
+        </div>
+
+        {error && <div className={styles.error}>❌ {error}</div>}
+
+        {result && !error && (
+          <>
+            <div className={styles.formatOutput}>
+              <label>1. Tag hash SHA256("{RGB_ID_TAGS[kind]}"):</label>
+              <code className={styles.codeBlock}>{bytesToHex(tagged.tagHash)}</code>
+            </div>
+            <div className={styles.formatOutput}>
+              <label>2. Committed data ({result.bytes.length} bytes):</label>
+            </div>
+            <HexDump bytes={result.bytes} fields={result.fields.map(commitmentField)} />
+            <div className={styles.arrow}>↓ SHA256(tag_hash || tag_hash || data) ↓</div>
+            <div className={styles.formatOutput}>
+              <label>{current?.label} (hex):</label>
+              <code className={styles.codeBlock}>{bytesToHex(result.id)}</code>
+              <button onClick={() => navigator.clipboard.writeText(bytesToHex(result.id))}>
+                📋
+              </button>
+            </div>
+            <div className={styles.formatOutput}>
+              <label>{current?.label}:</label>
+              <code className={styles.codeBlock}>{result.formatted}</code>
+              <button onClick={() => navigator.clipboard.writeText(result.formatted)}>
+                📋
+              </button>
+            </div>
+            {kind === 'contract' && (
+              <button className={styles.exampleBtn} style={{alignSelf: 'flex-start'}} onClick={spendContract}>
+                Transition on this contract →
+              </button>
+            )}
+          </>
         )}
       </div>
     </div>
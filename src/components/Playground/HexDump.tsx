@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import styles from './Playground.module.css';
+import { bytesToHex } from './encodingUtils';
+
+/**
+ * Byte range of one decoded field
+ */
+export interface HexDumpField {
+  name: string;
+  offset: number;
+  length: number;
+  value?: string;
+  type?: string;
+  /** Nesting level of fields that contain other fields */
+  depth?: number;
+}
+
+const MAX_BYTES = 4096;
+
+function offsetLabel(offset: number): string {
+  return offset.toString(16).padStart(8, '0');
+}
+
+/**
+ * Hex dump with offsets and ASCII column; hovering a field highlights its bytes and
+ * hovering a byte highlights its field. Drag across bytes to select a range.
+ */
+export default function HexDump({bytes, fields = [], bytesPerRow = 16}: {
+  bytes: Uint8Array;
+  fields?: HexDumpField[];
+  bytesPerRow?: number;
+}) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+
+  const shown = bytes.slice(0, MAX_BYTES);
+
+  // Innermost field of every byte: wider fields are written first, narrower ones overwrite them
+  const owner = useMemo(() => {
+    const map = new Int32Array(shown.length).fill(-1);
+    fields
+      .map((field, idx) => ({ field, idx }))
+      .sort((a, b) => b.field.length - a.field.length || (a.field.depth ?? 0) - (b.field.depth ?? 0))
+      .forEach(({ field, idx }) => {
+        map.fill(idx, field.offset, Math.min(field.offset + field.length, map.length));
+      });
+    return map;
+  }, [bytes, fields]);
+
+  // Alternate tints between neighbouring fields so their boundaries are visible
+  const tint = useMemo(() => {
+    const order = new Map<number, number>();
+    owner.forEach(idx => {
+      if (idx !== -1 && !order.has(idx)) order.set(idx, order.size);
+    });
+    return order;
+  }, [owner]);
+
+  const active = hovered !== null ? fields[hovered] : null;
+  const inActive = (i: number) => active !== null && i >= active.offset && i < active.offset + active.length;
+  const inSelection = (i: number) => selection !== null && i >= selection.start && i < selection.end;
+
+  const byteClass = (i: number) => {
+    const classes = [styles.hexByte];
+    if (owner[i] !== -1) classes.push(tint.get(owner[i]) % 2 === 0 ? styles.hexFieldA : styles.hexFieldB);
+    if (inSelection(i)) classes.push(styles.hexSelected);
+    if (inActive(i)) classes.push(styles.hexActive);
+    return classes.join(' ');
+  };
+
+  const byteHandlers = (i: number) => ({
+    onMouseEnter: () => {
+      setHovered(owner[i] === -1 ? null : owner[i]);
+      if (anchor !== null) setSelection({ start: Math.min(anchor, i), end: Math.max(anchor, i) + 1 });
+    },
+    onMouseDown: () => {
+      setAnchor(i);
+      setSelection({ start: i, end: i + 1 });
+    },
+  });
+
+  const rows: number[] = [];
+  for (let offset = 0; offset < shown.length; offset += bytesPerRow) rows.push(offset);
+
+  const selected = selection ? bytes.slice(selection.start, selection.end) : null;
+
+  return (
+    <div className={styles.hexDump}>
+      <div className={styles.hexStatus}>
+        {active
+          ? <><strong>{active.name}</strong> · offset {active.offset}, {active.length} bytes{active.value ? ` · ${active.value}` : ''}</>
+          : `${bytes.length} bytes${fields.length > 0 ? ' · hover a byte or field to see where it is encoded' : ' · drag to select a range'}`}
+      </div>
+
+      <div
+        className={styles.hexGrid}
+        onMouseLeave={() => setHovered(null)}
+        onMouseUp={() => setAnchor(null)}>
+        {rows.map(rowStart => {
+          const row = Array.from(shown.slice(rowStart, rowStart + bytesPerRow));
+          return (
+            <div key={rowStart} className={styles.hexRow}>
+              <span className={styles.hexOffset}>{offsetLabel(rowStart)}</span>
+              <span className={styles.hexBytes}>
+                {row.map((byte, j) => (
+                  <span key={j} className={byteClass(rowStart + j)} {...byteHandlers(rowStart + j)}>
+                    {byte.toString(16).padStart(2, '0')}
+                  </span>
+                ))}
+              </span>
+              <span className={styles.hexAscii}>
+                {row.map((byte, j) => (
+                  <span key={j} className={byteClass(rowStart + j)} {...byteHandlers(rowStart + j)}>
+                    {byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : '.'}
+                  </span>
+                ))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {bytes.length > MAX_BYTES && (
+        <div className={styles.info}>ℹ️ Showing the first {MAX_BYTES} of {bytes.length} bytes</div>
+      )}
+
+      {selected && (
+        <div className={styles.formatOutput}>
+          <label>
+            Selected bytes {selection.start}-{selection.end - 1} ({selected.length} byte{selected.length === 1 ? '' : 's'}):
+          </label>
+          <code className={styles.codeBlock}>{bytesToHex(selected)}</code>
+          <button onClick={() => navigator.clipboard.writeText(bytesToHex(selected))}>
+            📋
+          </button>
+          <button onClick={() => setSelection(null)}>✕</button>
+        </div>
+      )}
+
+      {fields.length > 0 && (
+        <table className={styles.annotationTable} onMouseLeave={() => setHovered(null)}>
+          <thead>
+            <tr>
+              <th>Offset</th>
+              <th>Len</th>
+              <th>Field</th>
+              {fields.some(f => f.type) && <th>Type</th>}
+              <th>Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field, idx) => (
+              <tr
+                key={idx}
+                className={hovered === idx ? styles.hexActiveRow : ''}
+                onMouseEnter={() => setHovered(idx)}
+                onClick={() => setSelection({ start: field.offset, end: field.offset + field.length })}>
+                <td>{field.offset}</td>
+                <td>{field.length}</td>
+                <td style={{paddingLeft: `${0.5 + (field.depth ?? 0)}rem`}}>{field.name}</td>
+                {fields.some(f => f.type) && <td>{field.type}</td>}
+                <td>{field.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styles from './Playground.module.css';
+import { formatBytes } from './encodingUtils';
+import { readMedia, releaseMedia, isMedia } from './mediaAttachment';
+import type { MediaValue, HashProgress } from './mediaAttachment';
+
+/**
+ * Drop zone and file picker for media committed to contract state
+ * Files are hashed in the browser; embedded media is read whole up to `maxEmbedded`
+ */
+export default function MediaInput({value, maxEmbedded, accept, onChange}: {
+  value: MediaValue | string;
+  /** Size limit when the file bytes are committed, null for digest-only attachments */
+  maxEmbedded: number | null;
+  accept?: string;
+  onChange: (value: MediaValue | '') => void;
+}) {
+  const [dragging, setDragging] = useState(false);
+  const [progress, setProgress] = useState<(HashProgress & { name: string }) | null>(null);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  // A file dropped while another is hashing wins; results of the older one are dropped
+  const job = useRef(0);
+  const media = isMedia(value) ? value : null;
+
+  // A file still hashing when the input goes away is dropped when it finishes
+  useEffect(() => () => {
+    job.current++;
+  }, []);
+
+  const release = () => {
+    if (media) releaseMedia(media);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const current = ++job.current;
+    setError('');
+    setProgress({ name: file.name, done: 0, total: file.size });
+    try {
+      const read = await readMedia(file, maxEmbedded, (p) => {
+        if (job.current === current) setProgress({ name: file.name, ...p });
+      });
+      if (job.current !== current) {
+        releaseMedia(read);
+        return;
+      }
+      release();
+      onChange(read);
+    } catch (e) {
+      if (job.current === current) setError(e.message);
+    } finally {
+      if (job.current === current) setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      {media && !progress && (
+        <div className={styles.mediaPreview}>
+          {media.url ? <img src={media.url} alt={media.name} /> : <span className={styles.mediaIcon}>📄</span>}
+          <div className={styles.mediaInfo}>
+            <strong>{media.name}</strong>
+            <span>
+              {formatBytes(media.size)}
+              {maxEmbedded !== null && (media.data ? ' · embedded' : ` · over the ${formatBytes(maxEmbedded)} embedding limit`)}
+            </span>
+            <input
+              type="text"
+              value={media.type}
+              onChange={(e) => onChange({ ...media, type: e.target.value.trim() })}
+              className={styles.formInput}
+              title="MIME type"
+            />
+            <code title="SHA-256 digest">{media.digest}</code>
+          </div>
+          <button
+            className={styles.itemRemove}
+            onClick={() => {
+              release();
+              onChange('');
+            }}
+            title="Remove">
+            ✕
+          </button>
+        </div>
+      )}
+      <div
+        className={`${styles.mediaDropZone} ${dragging ? styles.mediaDropZoneActive : ''}`}
+        onClick={() => fileInput.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          handleFile(e.dataTransfer.files[0]);
+        }}>
+        {progress
+          ? `⏳ Hashing ${progress.name}: ${formatBytes(progress.done)} of ${formatBytes(progress.total)}`
+          : `📎 ${media ? 'Replace' : 'Drop or choose'} a file${maxEmbedded !== null ? ` (up to ${formatBytes(maxEmbedded)})` : ''}`}
+        <input
+          ref={fileInput}
+          type="file"
+          accept={accept}
+          style={{display: 'none'}}
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <div className={styles.fieldError}>{error}</div>}
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import styles from './Playground.module.css';
+import { hexToBytes, bytesToHex } from './encodingUtils';
+import { parseScriptInput, parseScript, scriptToAsm } from './bitcoinScript';
+import { parseOpretScript, verifyOpretScript } from './opret';
+import type { OpretVerification, OpretCommitment } from './opret';
+import HexDump from './HexDump';
+import type { HexDumpField } from './HexDump';
+
+/** Show the MPC\0 tag's trailing null byte */
+export function formatOpretTag(tag: string): string {
+  return tag.replace(/\0/g, '\\0');
+}
+
+function scriptFields(script: Uint8Array): HexDumpField[] {
+  const elements = parseScript(script);
+  return elements.map((el, idx) => ({
+    name: el.name,
+    offset: el.offset,
+    length: (idx + 1 < elements.length ? elements[idx + 1].offset : script.length) - el.offset,
+    value: el.data ? bytesToHex(el.data) : '',
+  }));
+}
+
+/**
+ * Extract the commitment from an OP_RETURN output script and check it against an expected value
+ */
+export default function OpretVerifier({initialScript = '', initialExpected = ''}: {
+  initialScript?: string;
+  initialExpected?: string;
+}) {
+  const [script, setScript] = useState(initialScript);
+  const [expected, setExpected] = useState(initialExpected);
+  const [asm, setAsm] = useState('');
+  const [dump, setDump] = useState<{ bytes: Uint8Array; fields: HexDumpField[] } | null>(null);
+  const [result, setResult] = useState<OpretVerification | OpretCommitment | null>(null);
+  const [error, setError] = useState('');
+
+  const handleVerify = () => {
+    setError('');
+    setResult(null);
+    setAsm('');
+    setDump(null);
+    try {
+      const bytes = parseScriptInput(script);
+      setAsm(scriptToAsm(bytes));
+      setDump({ bytes, fields: scriptFields(bytes) });
+      const commitment = expected.trim().replace(/^0x/, '');
+      setResult(commitment
+        ? verifyOpretScript(bytes, hexToBytes(commitment))
+        : parseOpretScript(bytes));
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  useEffect(() => {
+    if (script) handleVerify();
+  }, [script, expected]);
+
+  return (
+    <div className={styles.ioSection}>
+      <div className={styles.inputSection}>
+        <label>Output Script (scriptPubKey hex or ASM):</label>
+        <textarea
+          value={script}
+          onChange={(e) => setScript(e.target.value)}
+          placeholder="6a20... or OP_RETURN OP_PUSHBYTES_32 ..."
+          rows={3}
+        />
+        <label>Expected MPC Commitment (hex, optional):</label>
+        <input
+          type="text"
+          value={expected}
+          onChange={(e) => setExpected(e.target.value)}
+          placeholder="64 hex chars"
+          className={styles.formInput}
+        />
+      </div>
+
+      {asm && (
+        <div className={styles.formatOutput}>
+          <label>ASM:</label>
+          <code className={styles.codeBlock}>{asm}</code>
+        </div>
+      )}
+      {dump && <HexDump bytes={dump.bytes} fields={dump.fields} />}
+
+      {error && <div className={styles.error}>❌ {error}</div>}
+
+      {result && !error && (
+        <>
+          <div className={styles.formatOutput}>
+            <label>Embedded Commitment{result.tag !== null ? ` (tag "${formatOpretTag(result.tag)}")` : ''}:</label>
+            <code className={styles.codeBlock}>{bytesToHex(result.commitment)}</code>
+            <button onClick={() => navigator.clipboard.writeText(bytesToHex(result.commitment))}>
+              📋
+            </button>
+          </div>
+          {'valid' in result ? (
+            result.valid
+              ? <div className={styles.info}>✅ Output commits to the expected MPC commitment</div>
+              : <div className={styles.error}>❌ {result.reason}</div>
+          ) : (
+            <div className={styles.info}>
+              ℹ️ Well-formed {result.tag === null ? 'standard' : 'tagged'} opret script; enter the expected commitment to verify it
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
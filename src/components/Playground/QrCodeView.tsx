@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import styles from './Playground.module.css';
+import { encodeQr, qrToSvg, qrToSvgPath } from './qrCode';
+import type { QrEcLevel } from './qrCode';
+
+const QR_BORDER = 4;
+const PNG_SCALE = 10;
+
+/**
+ * Scannable QR rendering of a string with SVG/PNG download
+ */
+export default function QrCodeView({value, filename = 'rgb-qr', defaultEcLevel = 'M'}: {
+  value: string;
+  filename?: string;
+  defaultEcLevel?: QrEcLevel;
+}) {
+  const [ecLevel, setEcLevel] = useState<QrEcLevel>(defaultEcLevel);
+
+  const result = useMemo(() => {
+    try {
+      return { qr: encodeQr(value, { ecLevel }), error: '' };
+    } catch (e) {
+      return { qr: null, error: e.message };
+    }
+  }, [value, ecLevel]);
+
+  if (!result.qr) {
+    return <div className={styles.error}>❌ QR code: {result.error}</div>;
+  }
+  const { qr } = result;
+  const dim = qr.size + QR_BORDER * 2;
+
+  const download = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadSvg = () => {
+    download(new Blob([qrToSvg(qr, QR_BORDER)], { type: 'image/svg+xml' }), 'svg');
+  };
+
+  const downloadPng = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = dim * PNG_SCALE;
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) {
+        ctx.fillRect((x + QR_BORDER) * PNG_SCALE, (y + QR_BORDER) * PNG_SCALE, PNG_SCALE, PNG_SCALE);
+      }
+    }));
+    canvas.toBlob(blob => blob && download(blob, 'png'), 'image/png');
+  };
+
+  return (
+    <div className={styles.qrPanel}>
+      <svg
+        className={styles.qrImage}
+        viewBox={`0 0 ${dim} ${dim}`}
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label={`QR code: ${value}`}>
+        <rect width={dim} height={dim} fill="#ffffff" />
+        <path d={qrToSvgPath(qr, QR_BORDER)} fill="#000000" />
+      </svg>
+      <div className={styles.qrControls}>
+        <label>
+          Error correction:
+          <select
+            value={ecLevel}
+            onChange={(e) => setEcLevel(e.target.value as QrEcLevel)}
+            className={styles.formInput}>
+            <option value="L">L (~7%)</option>
+            <option value="M">M (~15%)</option>
+            <option value="Q">Q (~25%)</option>
+            <option value="H">H (~30%)</option>
+          </select>
+        </label>
+        <span className={styles.qrMeta}>
+          Version {qr.version} ({qr.size}×{qr.size}) | {qr.mode} mode | mask {qr.mask}
+        </span>
+        <div className={styles.qrButtons}>
+          <button onClick={downloadSvg}>⬇️ SVG</button>
+          <button onClick={downloadPng}>⬇️ PNG</button>
+        </div>
+      </div>
+    </div>
+  );
+}
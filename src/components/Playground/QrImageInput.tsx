@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styles from './Playground.module.css';
+import { decodeQrImage } from './qrReader';
+import type { QrDecodeResult } from './qrReader';
+
+// Larger images are downscaled before decoding to keep scanning fast
+const MAX_IMAGE_SIDE = 1200;
+
+async function decodeImageFile(file: Blob): Promise<QrDecodeResult> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return decodeQrImage(image.data, image.width, image.height);
+}
+
+/**
+ * Drop zone, file picker and clipboard paste target for QR code images
+ * Decoding happens entirely in the browser
+ */
+export default function QrImageInput({onDecode}: {
+  onDecode: (result: QrDecodeResult) => void;
+}) {
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError(`${file.name || 'File'} is not an image`);
+      return;
+    }
+    setError('');
+    setBusy(true);
+    try {
+      onDecode(await decodeImageFile(file));
+    } catch (e) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const image = Array.from(e.clipboardData?.files ?? []).find(f => f.type.startsWith('image/'));
+      if (image) {
+        e.preventDefault();
+        handleFile(image);
+      }
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, []);
+
+  return (
+    <>
+      <div
+        className={`${styles.qrDropZone} ${dragging ? styles.qrDropZoneActive : ''}`}
+        onClick={() => fileInput.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          handleFile(e.dataTransfer.files[0]);
+        }}>
+        {busy ? '⏳ Scanning image...' : '📷 Drop, upload or paste (Ctrl+V) a QR code image'}
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          style={{display: 'none'}}
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <div className={styles.error}>❌ QR image: {error}</div>}
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import styles from './Playground.module.css';
+import { hexToBytes, bytesToHex } from './encodingUtils';
+import { scriptToAsm } from './bitcoinScript';
+import HexDump from './HexDump';
+import {
+  decodeTransaction,
+  checkAnchor,
+  formatSats,
+  OUTPUT_SCRIPT_LABELS,
+} from './bitcoinTx';
+import type { BitcoinTx, TxOutput, AnchorReference, AnchorCheck } from './bitcoinTx';
+
+function safeAsm(script: Uint8Array): string {
+  try {
+    return scriptToAsm(script);
+  } catch {
+    return bytesToHex(script);
+  }
+}
+
+function commitmentLabel(output: TxOutput): string {
+  const host = output.commitment;
+  if (!host) return '';
+  if (host.method === 'tapret') return '🌿 Tapret host (first P2TR output)';
+  return host.commitment
+    ? `📌 Opret commitment ${bytesToHex(host.commitment)}`
+    : `⚠️ First OP_RETURN, not an opret commitment: ${host.error}`;
+}
+
+/**
+ * Decode a raw transaction and, given an anchor, check that it carries the commitment
+ */
+export default function TxDecoder({initialTx = '', anchor}: {
+  initialTx?: string;
+  anchor?: AnchorReference;
+}) {
+  const [input, setInput] = useState(initialTx);
+  const [hrp, setHrp] = useState('bc');
+  const [tx, setTx] = useState<BitcoinTx | null>(null);
+  const [raw, setRaw] = useState<Uint8Array | null>(null);
+  const [checks, setChecks] = useState<AnchorCheck[]>([]);
+  const [error, setError] = useState('');
+
+  const handleDecode = async () => {
+    setError('');
+    try {
+      const bytes = hexToBytes(input.trim().replace(/\s+/g, ''));
+      const decoded = await decodeTransaction(bytes, hrp);
+      setRaw(bytes);
+      setTx(decoded);
+      setChecks(anchor ? checkAnchor(decoded, anchor) : []);
+    } catch (e) {
+      setError(e.message);
+      setTx(null);
+      setChecks([]);
+    }
+  };
+
+  useEffect(() => {
+    if (input) handleDecode();
+  }, [input, hrp]);
+
+  return (
+    <div className={styles.ioSection}>
+      <div className={styles.inputSection}>
+        <label>{anchor ? 'Witness Transaction (raw hex):' : 'Raw Transaction (hex):'}</label>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="02000000000101..."
+          rows={4}
+          style={{fontFamily: 'monospace', fontSize: '0.85rem'}}
+        />
+      </div>
+
+      <div className={styles.optionsRow}>
+        <label>
+          Address network:
+          <select value={hrp} onChange={(e) => setHrp(e.target.value)} className={styles.formInput}>
+            <option value="bc">bc (mainnet)</option>
+            <option value="tb">tb (testnet/signet)</option>
+            <option value="bcrt">bcrt (regtest)</option>
+          </select>
+        </label>
+      </div>
+
+      {error && <div className={styles.error}>❌ {error}</div>}
+
+      {checks.map((check, idx) => (
+        <div key={idx} className={check.ok === false ? styles.error : styles.info}>
+          {check.ok === true ? '✅' : check.ok === false ? '❌' : 'ℹ️'} <strong>{check.label}:</strong> {check.detail}
+        </div>
+      ))}
+
+      {tx && !error && (
+        <>
+          <div className={styles.formatOutput}>
+            <label>Txid:</label>
+            <code className={styles.codeBlock}>{tx.txid}</code>
+            <button onClick={() => navigator.clipboard.writeText(tx.txid)}>
+              📋
+            </button>
+          </div>
+          {tx.segwit && (
+            <div className={styles.formatOutput}>
+              <label>Wtxid:</label>
+              <code className={styles.codeBlock}>{tx.wtxid}</code>
+            </div>
+          )}
+          <div className={styles.info}>
+            ℹ️ Version {tx.version} · {tx.segwit ? 'segwit' : 'legacy'} · {tx.size} bytes · {tx.vsize} vbytes
+            ({tx.weight} WU) · locktime {tx.locktime}
+          </div>
+
+          <div className={styles.formatOutput}>
+            <label>Inputs ({tx.inputs.length}):</label>
+            <table className={styles.annotationTable}>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Previous output</th>
+                  <th>scriptSig</th>
+                  <th>Witness</th>
+                  <th>Sequence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tx.inputs.map((txin, idx) => (
+                  <tr key={idx}>
+                    <td>{idx}</td>
+                    <td>{txin.prevTxid}:{txin.vout}</td>
+                    <td>{txin.scriptSig.length > 0 ? safeAsm(txin.scriptSig) : '(empty)'}</td>
+                    <td>
+                      {txin.witness.length === 0
+                        ? '(none)'
+                        : txin.witness.map((item, i) => <div key={i}>{bytesToHex(item) || '(empty)'}</div>)}
+                    </td>
+                    <td>0x{txin.sequence.toString(16).padStart(8, '0')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={styles.formatOutput}>
+            <label>Outputs ({tx.outputs.length}):</label>
+            <table className={styles.annotationTable}>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Value</th>
+                  <th>Type</th>
+                  <th>Address / script</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tx.outputs.map((txout, idx) => (
+                  <tr key={idx} className={txout.commitment ? styles.rgbRow : ''}>
+                    <td>{idx}</td>
+                    <td>{formatSats(txout.value)}</td>
+                    <td>{OUTPUT_SCRIPT_LABELS[txout.type]}</td>
+                    <td>
+                      <div>{txout.address ?? safeAsm(txout.scriptPubkey)}</div>
+                      {txout.commitment && <div className={styles.txCommitmentNote}>{commitmentLabel(txout)}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!tx.outputs.some(o => o.commitment) && (
+            <div className={styles.info}>
+              ℹ️ No OP_RETURN or P2TR output, so this transaction cannot carry an RGB commitment
+            </div>
+          )}
+          {tx.outputs.some(o => o.commitment?.method === 'tapret') && !anchor && (
+            <div className={styles.info}>
+              ℹ️ A tapret commitment is hidden inside the output key; only the tapret proof
+              (internal key, partner node, nonce) can show that the P2TR host really carries one
+            </div>
+          )}
+
+          <div className={styles.formatOutput}>
+            <label>Serialized Bytes:</label>
+            <HexDump bytes={raw} fields={tx.fields} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
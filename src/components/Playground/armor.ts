@@ -0,0 +1,210 @@
+/**
+ * ASCII armor for Playground
+ *
+ * Contracts and consignments travel as text blocks:
+ *
+ *   -----BEGIN RGB CONTRACT-----
+ *   Id: rgb:...
+ *   Checksum: word-word-word
+ *
+ *   <Base64 payload, wrapped at 64 columns>
+ *   -----END RGB CONTRACT-----
+ *
+ * The checksum is the BAID64 checksum of the payload keyed by the block label,
+ * shown as a mnemonic, so a payload pasted under the wrong label fails too.
+ */
+
+import { EncodingError, baid64Checksum, encodeBase64, decodeBase64 } from './encodingUtils';
+import { encodeMnemonic } from './mnemonic';
+
+export const ARMOR_LINE_WIDTH = 64;
+export const ARMOR_CHECKSUM_HEADER = 'Checksum';
+
+export const ARMOR_LABELS = {
+  contract: 'RGB CONTRACT',
+  consignment: 'RGB CONSIGNMENT',
+};
+
+export interface ArmorHeader {
+  name: string;
+  value: string;
+  /** Character range of the value in the armored text */
+  range: { start: number; end: number };
+}
+
+export interface Armor {
+  label: string;
+  /** Character range of the label in the BEGIN line */
+  labelRange: { start: number; end: number };
+  /** Headers in order, without the checksum */
+  headers: ArmorHeader[];
+  payload: Uint8Array;
+  checksum: string;
+}
+
+const BEGIN_RE = /^-----BEGIN ([A-Z0-9]+(?: [A-Z0-9]+)*)-----$/;
+const END_RE = /^-----END (.*)-----$/;
+const HEADER_RE = /^([A-Za-z][A-Za-z0-9-]*):[ \t]*(.*)$/;
+
+/**
+ * Payload checksum as a mnemonic, e.g. `hotel-cupid-lunar`
+ */
+export function armorChecksum(label: string, payload: Uint8Array): string {
+  return encodeMnemonic(baid64Checksum(label, payload));
+}
+
+/**
+ * Armor a payload; the checksum header is appended to `headers`
+ */
+export function encodeArmor(
+  label: string,
+  payload: Uint8Array,
+  headers: { name: string; value: string }[] = [],
+): string {
+  if (!BEGIN_RE.test(`-----BEGIN ${label}-----`)) {
+    throw new EncodingError('invalid_format', `Invalid armor label "${label}"`, {
+      expected: 'uppercase words separated by single spaces, e.g. RGB CONTRACT',
+    });
+  }
+  const lines = [`-----BEGIN ${label}-----`];
+  for (const { name, value } of headers) {
+    if (!HEADER_RE.test(`${name}: ${value}`) || /[\r\n]/.test(value)) {
+      throw new EncodingError('invalid_format', `Invalid armor header "${name}"`);
+    }
+    lines.push(`${name}: ${value}`);
+  }
+  lines.push(`${ARMOR_CHECKSUM_HEADER}: ${armorChecksum(label, payload)}`, '');
+
+  const body = encodeBase64(payload);
+  for (let i = 0; i < body.length; i += ARMOR_LINE_WIDTH) {
+    lines.push(body.slice(i, i + ARMOR_LINE_WIDTH));
+  }
+  lines.push(`-----END ${label}-----`, '');
+  return lines.join('\n');
+}
+
+/**
+ * Whether the text starts with an armor BEGIN line
+ */
+export function isArmored(text: string): boolean {
+  return /^\s*-----BEGIN /.test(text);
+}
+
+/**
+ * Parse and verify an armored block; errors carry the range of the offending text
+ */
+export function parseArmor(text: string): Armor {
+  // Lines with their offsets in `text`, trailing whitespace and \r excluded
+  const lines: { text: string; start: number }[] = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line.replace(/\s+$/, ''), start });
+    start += line.length + 1;
+  }
+  const rangeOf = (line: { text: string; start: number }) => ({
+    start: line.start,
+    end: line.start + Math.max(line.text.length, 1),
+  });
+
+  let idx = lines.findIndex(line => line.text !== '');
+  if (idx === -1) {
+    throw new EncodingError('invalid_format', 'Armored text is empty');
+  }
+  const begin = lines[idx];
+  const beginMatch = begin.text.match(BEGIN_RE);
+  if (!beginMatch) {
+    throw new EncodingError('invalid_format', 'Armored text must start with a BEGIN line', {
+      range: rangeOf(begin),
+      expected: '-----BEGIN RGB CONTRACT----- or another uppercase label',
+    });
+  }
+  const label = beginMatch[1];
+  const labelStart = begin.start + '-----BEGIN '.length;
+  const labelRange = { start: labelStart, end: labelStart + label.length };
+  idx++;
+
+  // Headers run up to the first blank line
+  const headers: ArmorHeader[] = [];
+  let checksum: ArmorHeader | null = null;
+  while (idx < lines.length && lines[idx].text !== '' && !END_RE.test(lines[idx].text)) {
+    const line = lines[idx];
+    const match = line.text.match(HEADER_RE);
+    if (!match) {
+      // A block without headers starts straight with Base64
+      if (headers.length === 0 && checksum === null && /^[A-Za-z0-9+/=]+$/.test(line.text)) break;
+      throw new EncodingError('invalid_format', 'Malformed armor header', {
+        range: rangeOf(line),
+        expected: 'Name: value, then a blank line before the payload',
+      });
+    }
+    const [, name, value] = match;
+    const valueStart = line.start + line.text.length - value.length;
+    const header = { name, value, range: { start: valueStart, end: valueStart + Math.max(value.length, 1) } };
+    const nameRange = { start: line.start, end: line.start + name.length };
+    if (name.toLowerCase() === ARMOR_CHECKSUM_HEADER.toLowerCase()) {
+      if (checksum) {
+        throw new EncodingError('invalid_format', `Duplicate ${ARMOR_CHECKSUM_HEADER} header`, { range: nameRange });
+      }
+      checksum = header;
+    } else {
+      if (headers.some(h => h.name.toLowerCase() === name.toLowerCase())) {
+        throw new EncodingError('invalid_format', `Duplicate armor header "${name}"`, { range: nameRange });
+      }
+      headers.push(header);
+    }
+    idx++;
+  }
+
+  const payloadStart = idx;
+  while (idx < lines.length && !END_RE.test(lines[idx].text)) idx++;
+  if (idx === lines.length) {
+    throw new EncodingError('invalid_format', `Missing -----END ${label}----- line`, {
+      range: rangeOf(begin),
+      suggestion: 'The block was probably cut short while copying',
+    });
+  }
+  const end = lines[idx];
+  const endLabel = end.text.match(END_RE)[1];
+  if (endLabel !== label) {
+    throw new EncodingError('invalid_format', `END label "${endLabel}" does not match BEGIN label "${label}"`, {
+      range: { start: end.start + '-----END '.length, end: end.start + '-----END '.length + Math.max(endLabel.length, 1) },
+      expected: label,
+    });
+  }
+  const trailing = lines.slice(idx + 1).find(line => line.text !== '');
+  if (trailing) {
+    throw new EncodingError('invalid_format', 'Unexpected text after the END line', { range: rangeOf(trailing) });
+  }
+
+  const bodyStart = payloadStart < lines.length ? lines[payloadStart].start : end.start;
+  let payload: Uint8Array;
+  try {
+    payload = decodeBase64(text.slice(bodyStart, end.start));
+  } catch (e) {
+    throw e instanceof EncodingError ? e.relocate(i => i + bodyStart) : e;
+  }
+
+  const expected = armorChecksum(label, payload);
+  if (!checksum) {
+    throw new EncodingError('invalid_checksum', `Missing ${ARMOR_CHECKSUM_HEADER} header`, {
+      range: rangeOf(begin),
+      expected: `${ARMOR_CHECKSUM_HEADER}: ${expected}`,
+    });
+  }
+  if (checksum.value.toLowerCase() !== expected) {
+    throw new EncodingError('invalid_checksum', 'Armor checksum does not match the payload', {
+      range: checksum.range,
+      expected,
+      suggestion: 'The payload, the checksum or the BEGIN/END label was changed after armoring',
+    });
+  }
+
+  return { label, labelRange, headers, payload, checksum: expected };
+}
+
+/**
+ * Header value by case-insensitive name
+ */
+export function armorHeader(armor: Armor, name: string): ArmorHeader | null {
+  return armor.headers.find(h => h.name.toLowerCase() === name.toLowerCase()) ?? null;
+}
@@ -0,0 +1,155 @@
+/**
+ * Bitcoin address decoding for Playground
+ * Legacy Base58Check (P2PKH, P2SH) and SegWit Bech32/Bech32m (P2WPKH, P2WSH, P2TR) addresses
+ */
+
+import {
+  concatBytes,
+  decodeBase58Check,
+  encodeBase58Check,
+  decodeSegwitAddress,
+  encodeSegwitAddress,
+} from './encodingUtils';
+import type { Bech32Variant } from './encodingUtils';
+
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export type AddressType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown';
+
+export interface DecodedAddress {
+  address: string;
+  type: AddressType;
+  encoding: 'base58check' | Bech32Variant;
+  /** Networks the address is valid on; testnet, signet and regtest share legacy version bytes */
+  networks: BitcoinNetwork[];
+  /** Base58Check version byte, null for SegWit addresses */
+  versionByte: number | null;
+  /** Bech32 human-readable part, null for legacy addresses */
+  hrp: string | null;
+  witnessVersion: number | null;
+  /** Public key hash, script hash or witness program */
+  payload: Uint8Array;
+  scriptPubkey: Uint8Array;
+}
+
+const TEST_NETWORKS: BitcoinNetwork[] = ['testnet', 'signet', 'regtest'];
+
+const BASE58_VERSIONS: Record<number, { type: 'p2pkh' | 'p2sh'; networks: BitcoinNetwork[] }> = {
+  0x00: { type: 'p2pkh', networks: ['mainnet'] },
+  0x05: { type: 'p2sh', networks: ['mainnet'] },
+  0x6f: { type: 'p2pkh', networks: TEST_NETWORKS },
+  0xc4: { type: 'p2sh', networks: TEST_NETWORKS },
+};
+
+const SEGWIT_NETWORKS: Record<string, BitcoinNetwork[]> = {
+  bc: ['mainnet'],
+  tb: ['testnet', 'signet'],
+  bcrt: ['regtest'],
+};
+
+export const ADDRESS_TYPE_LABELS: Record<AddressType, string> = {
+  p2pkh: 'P2PKH (pay to public key hash)',
+  p2sh: 'P2SH (pay to script hash)',
+  p2wpkh: 'P2WPKH (SegWit v0 key hash)',
+  p2wsh: 'P2WSH (SegWit v0 script hash)',
+  p2tr: 'P2TR (Taproot)',
+  witness_unknown: 'Future SegWit version',
+};
+
+/**
+ * scriptPubKey for a witness program: OP_n <program>
+ */
+export function witnessScript(witnessVersion: number, program: Uint8Array): Uint8Array {
+  const opcode = witnessVersion === 0 ? 0x00 : 0x50 + witnessVersion;
+  return concatBytes(new Uint8Array([opcode, program.length]), program);
+}
+
+function decodeLegacyAddress(address: string): DecodedAddress {
+  const payload = decodeBase58Check(address);
+  if (payload.length !== 21) {
+    throw new Error(`Legacy address payload must be 21 bytes, got ${payload.length}`);
+  }
+  const version = BASE58_VERSIONS[payload[0]];
+  if (!version) {
+    throw new Error(`Unknown address version byte 0x${payload[0].toString(16).padStart(2, '0')}`);
+  }
+  const hash = payload.slice(1);
+  const scriptPubkey = version.type === 'p2pkh'
+    ? concatBytes(new Uint8Array([0x76, 0xa9, 0x14]), hash, new Uint8Array([0x88, 0xac]))
+    : concatBytes(new Uint8Array([0xa9, 0x14]), hash, new Uint8Array([0x87]));
+  return {
+    address,
+    type: version.type,
+    encoding: 'base58check',
+    networks: version.networks,
+    versionByte: payload[0],
+    hrp: null,
+    witnessVersion: null,
+    payload: hash,
+    scriptPubkey,
+  };
+}
+
+/**
+ * Decode any standard Bitcoin address into its type, network and scriptPubKey
+ */
+export function decodeAddress(input: string): DecodedAddress {
+  const address = input.trim();
+  if (!address) {
+    throw new Error('Address is empty');
+  }
+  // Legacy version bytes 0x00, 0x05, 0x6f and 0xc4 encode to these leading characters
+  if (/^[123mn]/.test(address)) {
+    return decodeLegacyAddress(address);
+  }
+  if (!address.includes('1')) {
+    throw new Error('Not a Bitcoin address: expected 1/3/m/n/2 (legacy) or bc1/tb1/bcrt1 (SegWit)');
+  }
+
+  const segwit = decodeSegwitAddress(address);
+  const networks = SEGWIT_NETWORKS[segwit.hrp];
+  if (!networks) {
+    throw new Error(`Unknown Bitcoin address prefix "${segwit.hrp}"`);
+  }
+  const { witnessVersion, program } = segwit;
+  let type: AddressType = 'witness_unknown';
+  if (witnessVersion === 0) {
+    type = program.length === 20 ? 'p2wpkh' : 'p2wsh';
+  } else if (witnessVersion === 1 && program.length === 32) {
+    type = 'p2tr';
+  }
+  return {
+    address,
+    type,
+    encoding: segwit.variant,
+    networks,
+    versionByte: null,
+    hrp: segwit.hrp,
+    witnessVersion,
+    payload: program,
+    scriptPubkey: witnessScript(witnessVersion, program),
+  };
+}
+
+/**
+ * Address for a standard scriptPubKey, null for scripts without an address form
+ * The bech32 HRP selects the network; `tb` and `bcrt` share the test version bytes
+ */
+export function scriptToAddress(script: Uint8Array, hrp: string = 'bc'): string | null {
+  const len = script.length;
+  const mainnet = hrp === 'bc';
+  if (len === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14 && script[23] === 0x88 && script[24] === 0xac) {
+    return encodeBase58Check(concatBytes(new Uint8Array([mainnet ? 0x00 : 0x6f]), script.slice(3, 23)));
+  }
+  if (len === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) {
+    return encodeBase58Check(concatBytes(new Uint8Array([mainnet ? 0x05 : 0xc4]), script.slice(2, 22)));
+  }
+  const isWitness = len >= 4 && len <= 42 && script[1] === len - 2
+    && (script[0] === 0x00 || (script[0] >= 0x51 && script[0] <= 0x60));
+  if (!isWitness) return null;
+  try {
+    return encodeSegwitAddress(hrp, script[0] === 0x00 ? 0 : script[0] - 0x50, script.slice(2));
+  } catch {
+    return null;
+  }
+}
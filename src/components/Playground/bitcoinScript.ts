@@ -0,0 +1,172 @@
+/**
+ * Bitcoin script parsing, disassembly and assembly for Playground
+ * ASM follows the rust-bitcoin style: `OP_PUSHBYTES_32 <hex>`
+ */
+
+import { hexToBytes, bytesToHex, isValidHex } from './encodingUtils';
+
+export const OP_0 = 0x00;
+export const OP_PUSHDATA1 = 0x4c;
+export const OP_PUSHDATA2 = 0x4d;
+export const OP_PUSHDATA4 = 0x4e;
+export const OP_RESERVED = 0x50;
+export const OP_1 = 0x51;
+export const OP_RETURN = 0x6a;
+
+const OPCODE_NAMES: Record<number, string> = {
+  0x00: 'OP_0', 0x4c: 'OP_PUSHDATA1', 0x4d: 'OP_PUSHDATA2', 0x4e: 'OP_PUSHDATA4',
+  0x4f: 'OP_1NEGATE', 0x50: 'OP_RESERVED',
+  0x61: 'OP_NOP', 0x62: 'OP_VER', 0x63: 'OP_IF', 0x64: 'OP_NOTIF', 0x65: 'OP_VERIF',
+  0x66: 'OP_VERNOTIF', 0x67: 'OP_ELSE', 0x68: 'OP_ENDIF', 0x69: 'OP_VERIFY', 0x6a: 'OP_RETURN',
+  0x6b: 'OP_TOALTSTACK', 0x6c: 'OP_FROMALTSTACK', 0x6d: 'OP_2DROP', 0x6e: 'OP_2DUP',
+  0x6f: 'OP_3DUP', 0x70: 'OP_2OVER', 0x71: 'OP_2ROT', 0x72: 'OP_2SWAP', 0x73: 'OP_IFDUP',
+  0x74: 'OP_DEPTH', 0x75: 'OP_DROP', 0x76: 'OP_DUP', 0x77: 'OP_NIP', 0x78: 'OP_OVER',
+  0x79: 'OP_PICK', 0x7a: 'OP_ROLL', 0x7b: 'OP_ROT', 0x7c: 'OP_SWAP', 0x7d: 'OP_TUCK',
+  0x7e: 'OP_CAT', 0x7f: 'OP_SUBSTR', 0x80: 'OP_LEFT', 0x81: 'OP_RIGHT', 0x82: 'OP_SIZE',
+  0x83: 'OP_INVERT', 0x84: 'OP_AND', 0x85: 'OP_OR', 0x86: 'OP_XOR', 0x87: 'OP_EQUAL',
+  0x88: 'OP_EQUALVERIFY', 0x89: 'OP_RESERVED1', 0x8a: 'OP_RESERVED2', 0x8b: 'OP_1ADD',
+  0x8c: 'OP_1SUB', 0x8d: 'OP_2MUL', 0x8e: 'OP_2DIV', 0x8f: 'OP_NEGATE', 0x90: 'OP_ABS',
+  0x91: 'OP_NOT', 0x92: 'OP_0NOTEQUAL', 0x93: 'OP_ADD', 0x94: 'OP_SUB', 0x95: 'OP_MUL',
+  0x96: 'OP_DIV', 0x97: 'OP_MOD', 0x98: 'OP_LSHIFT', 0x99: 'OP_RSHIFT', 0x9a: 'OP_BOOLAND',
+  0x9b: 'OP_BOOLOR', 0x9c: 'OP_NUMEQUAL', 0x9d: 'OP_NUMEQUALVERIFY', 0x9e: 'OP_NUMNOTEQUAL',
+  0x9f: 'OP_LESSTHAN', 0xa0: 'OP_GREATERTHAN', 0xa1: 'OP_LESSTHANOREQUAL',
+  0xa2: 'OP_GREATERTHANOREQUAL', 0xa3: 'OP_MIN', 0xa4: 'OP_MAX', 0xa5: 'OP_WITHIN',
+  0xa6: 'OP_RIPEMD160', 0xa7: 'OP_SHA1', 0xa8: 'OP_SHA256', 0xa9: 'OP_HASH160',
+  0xaa: 'OP_HASH256', 0xab: 'OP_CODESEPARATOR', 0xac: 'OP_CHECKSIG', 0xad: 'OP_CHECKSIGVERIFY',
+  0xae: 'OP_CHECKMULTISIG', 0xaf: 'OP_CHECKMULTISIGVERIFY', 0xb0: 'OP_NOP1',
+  0xb1: 'OP_CHECKLOCKTIMEVERIFY', 0xb2: 'OP_CHECKSEQUENCEVERIFY', 0xb3: 'OP_NOP4',
+  0xb4: 'OP_NOP5', 0xb5: 'OP_NOP6', 0xb6: 'OP_NOP7', 0xb7: 'OP_NOP8', 0xb8: 'OP_NOP9',
+  0xb9: 'OP_NOP10', 0xba: 'OP_CHECKSIGADD', 0xff: 'OP_INVALIDOPCODE',
+};
+
+for (let n = 1; n <= 16; n++) OPCODE_NAMES[0x50 + n] = `OP_${n}`;
+
+const OPCODES_BY_NAME: Record<string, number> = Object.fromEntries(
+  Object.entries(OPCODE_NAMES).map(([code, name]) => [name, Number(code)]),
+);
+// Common aliases
+Object.assign(OPCODES_BY_NAME, {
+  OP_FALSE: 0x00, OP_TRUE: 0x51, OP_CLTV: 0xb1, OP_CSV: 0xb2, OP_PUSHNUM_NEG1: 0x4f,
+});
+for (let n = 1; n <= 16; n++) OPCODES_BY_NAME[`OP_PUSHNUM_${n}`] = 0x50 + n;
+
+export interface ScriptElement {
+  /** Byte offset of the opcode in the script */
+  offset: number;
+  opcode: number;
+  name: string;
+  /** Pushed data, for push opcodes */
+  data?: Uint8Array;
+}
+
+/**
+ * Name of a non-push opcode (push opcodes are named by parseScript)
+ */
+export function opcodeName(opcode: number): string {
+  if (opcode >= 0x01 && opcode <= 0x4b) return `OP_PUSHBYTES_${opcode}`;
+  return OPCODE_NAMES[opcode] ?? `OP_UNKNOWN_0x${opcode.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Split a script into opcodes and pushed data
+ */
+export function parseScript(script: Uint8Array): ScriptElement[] {
+  const elements: ScriptElement[] = [];
+  let pos = 0;
+  while (pos < script.length) {
+    const offset = pos;
+    const opcode = script[pos++];
+    let length = -1;
+    if (opcode >= 0x01 && opcode <= 0x4b) {
+      length = opcode;
+    } else if (opcode === OP_PUSHDATA1 || opcode === OP_PUSHDATA2 || opcode === OP_PUSHDATA4) {
+      const width = opcode === OP_PUSHDATA1 ? 1 : opcode === OP_PUSHDATA2 ? 2 : 4;
+      if (pos + width > script.length) {
+        throw new Error(`${opcodeName(opcode)} at byte ${offset} is missing its length`);
+      }
+      length = 0;
+      for (let i = width - 1; i >= 0; i--) length = length * 256 + script[pos + i];
+      pos += width;
+    }
+
+    if (length >= 0) {
+      if (pos + length > script.length) {
+        throw new Error(`${opcodeName(opcode)} at byte ${offset} pushes ${length} bytes, only ${script.length - pos} left`);
+      }
+      elements.push({ offset, opcode, name: opcodeName(opcode), data: script.slice(pos, pos + length) });
+      pos += length;
+    } else {
+      elements.push({ offset, opcode, name: opcodeName(opcode) });
+    }
+  }
+  return elements;
+}
+
+/**
+ * Disassemble a script to ASM
+ */
+export function scriptToAsm(script: Uint8Array): string {
+  return parseScript(script)
+    .map(el => (el.data ? `${el.name} ${bytesToHex(el.data)}` : el.name))
+    .join(' ');
+}
+
+function minimalPush(data: Uint8Array): Uint8Array {
+  if (data.length <= 0x4b) return new Uint8Array([data.length, ...data]);
+  if (data.length <= 0xff) return new Uint8Array([OP_PUSHDATA1, data.length, ...data]);
+  if (data.length <= 0xffff) return new Uint8Array([OP_PUSHDATA2, data.length & 0xff, data.length >>> 8, ...data]);
+  throw new Error(`Push of ${data.length} bytes is too large`);
+}
+
+/**
+ * Assemble ASM into script bytes
+ * Accepts opcode names with or without the OP_ prefix; bare hex tokens become minimal pushes
+ */
+export function asmToScript(asm: string): Uint8Array {
+  const tokens = asm.trim().split(/\s+/).filter(t => t.length > 0);
+  const out: number[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const name = token.toUpperCase().startsWith('OP_') ? token.toUpperCase() : `OP_${token.toUpperCase()}`;
+    const pushBytes = name.match(/^OP_PUSHBYTES_(\d+)$/);
+    const explicitPush = pushBytes || ['OP_PUSHDATA1', 'OP_PUSHDATA2', 'OP_PUSHDATA4'].includes(name);
+
+    if (explicitPush) {
+      const data = tokens[i + 1];
+      if (data === undefined || !isValidHex(data)) {
+        throw new Error(`${name} must be followed by hex data`);
+      }
+      const bytes = hexToBytes(data);
+      i++;
+      if (pushBytes) {
+        if (Number(pushBytes[1]) !== bytes.length || bytes.length > 0x4b) {
+          throw new Error(`${name} does not match ${bytes.length} bytes of data`);
+        }
+        out.push(bytes.length, ...bytes);
+      } else {
+        const width = name === 'OP_PUSHDATA1' ? 1 : name === 'OP_PUSHDATA2' ? 2 : 4;
+        out.push(OPCODES_BY_NAME[name]);
+        for (let b = 0; b < width; b++) out.push((bytes.length >>> (8 * b)) & 0xff);
+        out.push(...bytes);
+      }
+    } else if (name in OPCODES_BY_NAME) {
+      out.push(OPCODES_BY_NAME[name]);
+    } else if (/^<?[0-9a-fA-F]*>?$/.test(token) && isValidHex(token.replace(/^<|>$/g, ''))) {
+      out.push(...minimalPush(hexToBytes(token.replace(/^<|>$/g, ''))));
+    } else {
+      throw new Error(`Unknown opcode or data "${token}" at token ${i + 1}`);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+/**
+ * Parse a script given either as hex or as ASM
+ */
+export function parseScriptInput(input: string): Uint8Array {
+  const trimmed = input.trim();
+  if (/^[0-9a-fA-F\s]+$/.test(trimmed) && !/^OP_/i.test(trimmed)) {
+    return hexToBytes(trimmed);
+  }
+  return asmToScript(trimmed);
+}
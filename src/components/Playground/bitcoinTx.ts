@@ -0,0 +1,406 @@
+/**
+ * Raw Bitcoin transaction decoding for Playground
+ * Parses legacy and segwit (BIP-144) serializations and locates RGB commitment outputs
+ */
+
+import { hexToBytes, bytesToHex, commitmentHash } from './encodingUtils';
+import { parseScript, OP_RETURN } from './bitcoinScript';
+import { parseOpretScript } from './opret';
+import { verifyTapretOutput } from './tapret';
+import { scriptToAddress } from './bitcoinAddress';
+
+export type OutputScriptType =
+  | 'p2pk'
+  | 'p2pkh'
+  | 'p2sh'
+  | 'p2wpkh'
+  | 'p2wsh'
+  | 'p2tr'
+  | 'witness_unknown'
+  | 'multisig'
+  | 'op_return'
+  | 'nonstandard';
+
+export const OUTPUT_SCRIPT_LABELS: Record<OutputScriptType, string> = {
+  p2pk: 'P2PK',
+  p2pkh: 'P2PKH',
+  p2sh: 'P2SH',
+  p2wpkh: 'P2WPKH',
+  p2wsh: 'P2WSH',
+  p2tr: 'P2TR',
+  witness_unknown: 'Witness (unknown version)',
+  multisig: 'Bare multisig',
+  op_return: 'OP_RETURN',
+  nonstandard: 'Non-standard',
+};
+
+export interface TxInput {
+  /** Previous txid in display (reversed) byte order */
+  prevTxid: string;
+  vout: number;
+  scriptSig: Uint8Array;
+  sequence: number;
+  witness: Uint8Array[];
+}
+
+export interface TxOutput {
+  /** Amount in satoshis */
+  value: bigint;
+  scriptPubkey: Uint8Array;
+  type: OutputScriptType;
+  /** Address of a standard output, null for OP_RETURN and non-standard scripts */
+  address: string | null;
+  /** RGB commitment this output hosts under deterministic placement, if any */
+  commitment: TxCommitmentHost | null;
+}
+
+export type TxCommitmentHost =
+  | { method: 'opret'; commitment: Uint8Array | null; error?: string }
+  | { method: 'tapret'; outputKey: Uint8Array };
+
+/**
+ * Byte range of one serialized field
+ */
+export interface TxField {
+  name: string;
+  offset: number;
+  length: number;
+  value: string;
+  /** 0 for top-level fields, 1 for parts of an input, output or witness */
+  depth: number;
+}
+
+export interface BitcoinTx {
+  version: number;
+  segwit: boolean;
+  inputs: TxInput[];
+  outputs: TxOutput[];
+  locktime: number;
+  /** Transaction IDs in display (reversed) byte order */
+  txid: string;
+  wtxid: string;
+  size: number;
+  weight: number;
+  vsize: number;
+  fields: TxField[];
+}
+
+/**
+ * Little-endian reader over Bitcoin consensus-encoded data
+ */
+export class TxReader {
+  pos = 0;
+
+  constructor(private readonly data: Uint8Array, private readonly context: string = 'transaction') {}
+
+  get remaining(): number {
+    return this.data.length - this.pos;
+  }
+
+  bytes(length: number, what: string): Uint8Array {
+    if (length > this.remaining) {
+      throw new Error(`Unexpected end of ${this.context} reading ${what} at byte ${this.pos} (need ${length}, have ${this.remaining})`);
+    }
+    const out = this.data.slice(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  u32(what: string): number {
+    const b = this.bytes(4, what);
+    return new DataView(b.buffer, b.byteOffset).getUint32(0, true);
+  }
+
+  u64(what: string): bigint {
+    const b = this.bytes(8, what);
+    return new DataView(b.buffer, b.byteOffset).getBigUint64(0, true);
+  }
+
+  compactSize(what: string): number {
+    const first = this.bytes(1, what)[0];
+    if (first < 0xfd) return first;
+    const width = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    const b = this.bytes(width, what);
+    let value = 0;
+    for (let i = width - 1; i >= 0; i--) value = value * 256 + b[i];
+    if (value > this.remaining * 8 + 0xffff) {
+      throw new Error(`Implausible ${what} count ${value}`);
+    }
+    return value;
+  }
+
+  varBytes(what: string): Uint8Array {
+    return this.bytes(this.compactSize(`${what} length`), what);
+  }
+}
+
+function reversedHex(bytes: Uint8Array): string {
+  return bytesToHex(Uint8Array.from(bytes).reverse());
+}
+
+/**
+ * Classify a scriptPubKey by its standard template
+ */
+export function classifyOutputScript(script: Uint8Array): OutputScriptType {
+  const len = script.length;
+  if (len > 0 && script[0] === OP_RETURN) return 'op_return';
+  if (len === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14 && script[23] === 0x88 && script[24] === 0xac) {
+    return 'p2pkh';
+  }
+  if (len === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) return 'p2sh';
+  if (len === 22 && script[0] === 0x00 && script[1] === 0x14) return 'p2wpkh';
+  if (len === 34 && script[0] === 0x00 && script[1] === 0x20) return 'p2wsh';
+  if (len === 34 && script[0] === 0x51 && script[1] === 0x20) return 'p2tr';
+  if (len >= 4 && len <= 42 && script[0] >= 0x51 && script[0] <= 0x60 && script[1] === len - 2) return 'witness_unknown';
+  if ((len === 35 && script[0] === 0x21 && script[34] === 0xac) || (len === 67 && script[0] === 0x41 && script[66] === 0xac)) {
+    return 'p2pk';
+  }
+  if (len > 0 && script[len - 1] === 0xae) {
+    try {
+      const elements = parseScript(script);
+      const m = elements[0].opcode;
+      const n = elements[elements.length - 2].opcode;
+      if (m >= 0x51 && m <= 0x60 && n >= 0x51 && n <= 0x60 && elements.slice(1, -2).every(el => el.data)) {
+        return 'multisig';
+      }
+    } catch {
+      // fall through to non-standard
+    }
+  }
+  return 'nonstandard';
+}
+
+/**
+ * Decode a serialized transaction; txid and wtxid are double SHA-256 in reversed byte order
+ */
+export async function decodeTransaction(raw: Uint8Array, hrp: string = 'bc'): Promise<BitcoinTx> {
+  const reader = new TxReader(raw);
+  const fields: TxField[] = [];
+  // Read one field and record the bytes it spans
+  const read = <T>(name: string, depth: number, fn: (what: string) => T, show: (value: T) => string): T => {
+    const offset = reader.pos;
+    const value = fn(name);
+    fields.push({ name, offset, length: reader.pos - offset, value: show(value), depth });
+    return value;
+  };
+  // Record a field spanning its parts; call the returned function after reading them
+  const group = (name: string): ((value: string) => void) => {
+    const field = { name, offset: reader.pos, length: 0, value: '', depth: 0 };
+    fields.push(field);
+    return value => {
+      field.length = reader.pos - field.offset;
+      field.value = value;
+    };
+  };
+  const script = (name: string, depth: number): Uint8Array => {
+    const length = read(`${name} length`, depth, what => reader.compactSize(what), String);
+    return read(name, depth, what => reader.bytes(length, what), b => (b.length > 0 ? bytesToHex(b) : '(empty)'));
+  };
+
+  const version = read('version', 0, what => reader.u32(what) | 0, String);
+
+  let segwit = false;
+  if (reader.remaining >= 2 && raw[4] === 0x00) {
+    if (raw[5] !== 0x01) {
+      throw new Error(`Segwit marker followed by invalid flag 0x${raw[5].toString(16).padStart(2, '0')}`);
+    }
+    segwit = true;
+    read('segwit marker and flag', 0, what => reader.bytes(2, what), () => 'BIP-144');
+  }
+  const bodyStart = reader.pos;
+
+  const inputCount = read('input count', 0, what => reader.compactSize(what), String);
+  if (inputCount === 0) {
+    throw new Error('Transaction has no inputs');
+  }
+  const inputs: TxInput[] = [];
+  for (let i = 0; i < inputCount; i++) {
+    const done = group(`input #${i}`);
+    const prevTxid = read(`input #${i} txid`, 1, what => reversedHex(reader.bytes(32, what)), t => `${t} (reversed)`);
+    const vout = read(`input #${i} vout`, 1, what => reader.u32(what), String);
+    const scriptSig = script(`input #${i} scriptSig`, 1);
+    const sequence = read(`input #${i} sequence`, 1, what => reader.u32(what), s => `0x${s.toString(16).padStart(8, '0')}`);
+    done(`spends ${prevTxid}:${vout}`);
+    inputs.push({ prevTxid, vout, scriptSig, sequence, witness: [] });
+  }
+
+  const outputCount = read('output count', 0, what => reader.compactSize(what), String);
+  const outputs: TxOutput[] = [];
+  for (let i = 0; i < outputCount; i++) {
+    const done = group(`output #${i}`);
+    const value = read(`output #${i} value`, 1, what => reader.u64(what), formatSats);
+    const scriptPubkey = script(`output #${i} scriptPubKey`, 1);
+    const type = classifyOutputScript(scriptPubkey);
+    const address = scriptToAddress(scriptPubkey, hrp);
+    done(address ?? OUTPUT_SCRIPT_LABELS[type]);
+    outputs.push({ value, scriptPubkey, type, address, commitment: null });
+  }
+  const bodyEnd = reader.pos;
+
+  if (segwit) {
+    inputs.forEach((input, i) => {
+      const done = group(`witness #${i}`);
+      const items = read(`witness #${i} item count`, 1, what => reader.compactSize(what), String);
+      for (let j = 0; j < items; j++) {
+        input.witness.push(script(`witness #${i} item #${j}`, 1));
+      }
+      done(`${items} item${items === 1 ? '' : 's'} for input #${i}`);
+    });
+    if (inputs.every(input => input.witness.length === 0)) {
+      throw new Error('Segwit transaction has no witness data');
+    }
+  }
+
+  const locktime = read('locktime', 0, what => reader.u32(what), String);
+  if (reader.remaining > 0) {
+    throw new Error(`${reader.remaining} unexpected bytes after locktime`);
+  }
+
+  // RGB places commitments in the first output of the respective type
+  const opret = outputs.find(o => o.type === 'op_return');
+  if (opret) {
+    try {
+      opret.commitment = { method: 'opret', commitment: parseOpretScript(opret.scriptPubkey).commitment };
+    } catch (e) {
+      opret.commitment = { method: 'opret', commitment: null, error: e.message };
+    }
+  }
+  const tapret = outputs.find(o => o.type === 'p2tr');
+  if (tapret) {
+    tapret.commitment = { method: 'tapret', outputKey: tapret.scriptPubkey.slice(2) };
+  }
+
+  const stripped = new Uint8Array(4 + (bodyEnd - bodyStart) + 4);
+  stripped.set(raw.slice(0, 4), 0);
+  stripped.set(raw.slice(bodyStart, bodyEnd), 4);
+  stripped.set(raw.slice(raw.length - 4), stripped.length - 4);
+
+  const txid = reversedHex(await commitmentHash(stripped));
+  const wtxid = segwit ? reversedHex(await commitmentHash(raw)) : txid;
+  const weight = stripped.length * 3 + raw.length;
+
+  return {
+    version,
+    segwit,
+    inputs,
+    outputs,
+    locktime,
+    txid,
+    wtxid,
+    size: raw.length,
+    weight,
+    vsize: Math.ceil(weight / 4),
+    fields,
+  };
+}
+
+export interface AnchorReference {
+  txid?: string;
+  method: 'opret' | 'tapret';
+  commitment: string;
+  /** Tapret proof data */
+  internalKey?: string;
+  scriptTreeRoot?: string;
+  nonce?: number;
+}
+
+export interface AnchorCheck {
+  label: string;
+  /** null when the check could not be carried out */
+  ok: boolean | null;
+  detail: string;
+}
+
+function normalizeHex(value: string): string {
+  return value.trim().replace(/^0x/i, '').toLowerCase();
+}
+
+/**
+ * Check an RGB anchor against its witness transaction: txid and commitment placement
+ */
+export function checkAnchor(tx: BitcoinTx, anchor: AnchorReference): AnchorCheck[] {
+  const checks: AnchorCheck[] = [];
+
+  const txid = normalizeHex(anchor.txid ?? '');
+  if (/^[0-9a-f]{64}$/.test(txid)) {
+    checks.push({
+      label: 'Witness txid',
+      ok: txid === tx.txid,
+      detail: txid === tx.txid ? tx.txid : `Transaction is ${tx.txid}, anchor names ${txid}`,
+    });
+  } else if (txid.endsWith('...') && /^[0-9a-f]+$/.test(txid.slice(0, -3))) {
+    const prefix = txid.slice(0, -3);
+    checks.push({
+      label: 'Witness txid',
+      ok: tx.txid.startsWith(prefix) ? null : false,
+      detail: tx.txid.startsWith(prefix)
+        ? `Anchor gives only the prefix ${prefix}, which matches ${tx.txid}`
+        : `Transaction is ${tx.txid}, anchor names ${txid}`,
+    });
+  } else {
+    checks.push({ label: 'Witness txid', ok: null, detail: 'Anchor has no usable txid' });
+  }
+
+  const commitment = normalizeHex(anchor.commitment ?? '');
+  if (!/^[0-9a-f]{64}$/.test(commitment)) {
+    checks.push({ label: 'Commitment', ok: null, detail: 'Anchor commitment is not a full 32-byte hex value' });
+    return checks;
+  }
+
+  const host = tx.outputs.findIndex(o => o.commitment?.method === anchor.method);
+  if (host < 0) {
+    checks.push({
+      label: 'Commitment output',
+      ok: false,
+      detail: anchor.method === 'opret' ? 'Transaction has no OP_RETURN output' : 'Transaction has no P2TR output',
+    });
+    return checks;
+  }
+  const hosted = tx.outputs[host].commitment;
+
+  if (hosted.method === 'opret') {
+    if (!hosted.commitment) {
+      checks.push({ label: `Output #${host} (first OP_RETURN)`, ok: false, detail: hosted.error ?? 'Not an opret commitment' });
+    } else {
+      const found = bytesToHex(hosted.commitment);
+      checks.push({
+        label: `Output #${host} (first OP_RETURN)`,
+        ok: found === commitment,
+        detail: found === commitment ? `Commits to ${found}` : `Commits to ${found}, anchor expects ${commitment}`,
+      });
+    }
+  } else if (!anchor.internalKey) {
+    checks.push({
+      label: `Output #${host} (first P2TR)`,
+      ok: null,
+      detail: 'Hosts the tapret commitment; the tapret proof (internal key) is needed to check the tweak',
+    });
+  } else {
+    try {
+      const result = verifyTapretOutput({
+        outputKey: hosted.outputKey,
+        internalKey: hexToBytes(normalizeHex(anchor.internalKey)),
+        commitment: hexToBytes(commitment),
+        scriptTreeRoot: anchor.scriptTreeRoot ? hexToBytes(normalizeHex(anchor.scriptTreeRoot)) : null,
+        nonce: anchor.nonce,
+      });
+      checks.push({
+        label: `Output #${host} (first P2TR)`,
+        ok: result.valid,
+        detail: result.valid ? `Output key tweaks to the commitment with nonce ${result.expected.nonce}` : result.reason,
+      });
+    } catch (e) {
+      checks.push({ label: `Output #${host} (first P2TR)`, ok: false, detail: e.message });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Format satoshis as BTC with 8 decimals
+ */
+export function formatSats(value: bigint): string {
+  const whole = value / 100_000_000n;
+  const frac = (value % 100_000_000n).toString().padStart(8, '0');
+  return `${whole}.${frac} BTC`;
+}
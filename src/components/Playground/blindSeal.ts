@@ -0,0 +1,145 @@
+/**
+ * Blinded (secret) single-use seals
+ *
+ * A blind seal is the strict-encoded tuple
+ *   method (u8) || txid (32, internal byte order) || vout (u32 LE) || blinding (u64 LE)
+ * and its concealed form is the tagged hash of that serialization, shown in
+ * invoices as `utxob:<baid64>`.
+ */
+
+import { hexToBytes, bytesToHex, taggedHash, encodeBaid64, parseBaid64, isValidHex } from './encodingUtils';
+import { parseRgbInvoice } from './rgbInvoice';
+
+export const SECRET_SEAL_TAG = 'urn:lnp-bp:seals:secret#2024-02-03';
+export const SECRET_SEAL_HRI = 'utxob';
+
+export type CloseMethod = 'opret1st' | 'tapret1st';
+
+export const CLOSE_METHOD_CODES: Record<CloseMethod, number> = {
+  opret1st: 0x00,
+  tapret1st: 0x01,
+};
+
+export interface BlindSeal {
+  method: CloseMethod;
+  /** Txid in display (reversed) byte order */
+  txid: string;
+  vout: number;
+  blinding: bigint;
+}
+
+export interface SealVerification {
+  valid: boolean;
+  computed: Uint8Array;
+  expected: Uint8Array;
+}
+
+const U64_MAX = (1n << 64n) - 1n;
+
+function checkTxid(txid: string): Uint8Array {
+  if (!/^[0-9a-fA-F]{64}$/.test(txid)) {
+    throw new Error('Txid must be 64 hex characters');
+  }
+  return hexToBytes(txid).reverse();
+}
+
+/**
+ * Strict serialization of a blind seal (45 bytes)
+ */
+export function serializeBlindSeal(seal: BlindSeal): Uint8Array {
+  if (!(seal.method in CLOSE_METHOD_CODES)) {
+    throw new Error(`Unknown close method "${seal.method}"`);
+  }
+  if (!Number.isInteger(seal.vout) || seal.vout < 0 || seal.vout > 0xffffffff) {
+    throw new Error('Output index must be between 0 and 4294967295');
+  }
+  if (seal.blinding < 0n || seal.blinding > U64_MAX) {
+    throw new Error('Blinding factor must be an unsigned 64-bit integer');
+  }
+  const out = new Uint8Array(45);
+  const view = new DataView(out.buffer);
+  out[0] = CLOSE_METHOD_CODES[seal.method];
+  out.set(checkTxid(seal.txid), 1);
+  view.setUint32(33, seal.vout, true);
+  view.setBigUint64(37, seal.blinding, true);
+  return out;
+}
+
+/**
+ * Concealed seal: tagged hash of the serialized blind seal
+ */
+export function concealSeal(seal: BlindSeal): Uint8Array {
+  return taggedHash(SECRET_SEAL_TAG, serializeBlindSeal(seal));
+}
+
+/**
+ * Baid64 form used in invoices: `utxob:` prefix, chunked, no mnemonic
+ */
+export function formatSecretSeal(concealed: Uint8Array): string {
+  return encodeBaid64(concealed, { hri: SECRET_SEAL_HRI, prefix: true });
+}
+
+/**
+ * Read a concealed seal from `utxob:...`, `bc:utxob:...`, a whole invoice or 64 hex characters
+ */
+export function parseSecretSeal(input: string): Uint8Array {
+  let str = input.trim();
+  if (str.startsWith('rgb:') && str.includes('+')) {
+    const { beneficiary } = parseRgbInvoice(str);
+    if (beneficiary.type !== 'blinded') {
+      throw new Error('Invoice pays to a witness output address, not a blinded seal');
+    }
+    str = beneficiary.seal;
+  }
+  str = str.replace(/^(bc|tb|bcrt):/, '');
+  if (isValidHex(str) && str.length === 64) {
+    return hexToBytes(str);
+  }
+  if (!str.startsWith(`${SECRET_SEAL_HRI}:`)) {
+    throw new Error('Expected a utxob:... blinded seal, an invoice or a 32-byte hex hash');
+  }
+  return parseBaid64(str, { hri: SECRET_SEAL_HRI }).payload;
+}
+
+/**
+ * Split a `txid:vout` outpoint
+ */
+export function parseOutpoint(outpoint: string): { txid: string; vout: number } {
+  const match = outpoint.trim().match(/^([0-9a-fA-F]{64}):(\d+)$/);
+  if (!match) {
+    throw new Error('Outpoint must be <txid>:<vout>');
+  }
+  return { txid: match[1].toLowerCase(), vout: Number(match[2]) };
+}
+
+/**
+ * Parse a blinding factor given in decimal or 0x-prefixed hex
+ */
+export function parseBlinding(input: string): bigint {
+  const str = input.trim();
+  if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(str)) {
+    throw new Error('Blinding factor must be a decimal or 0x-prefixed hex number');
+  }
+  const value = BigInt(str);
+  if (value > U64_MAX) {
+    throw new Error('Blinding factor must be an unsigned 64-bit integer');
+  }
+  return value;
+}
+
+/**
+ * Random 64-bit blinding factor
+ */
+export function randomBlinding(): bigint {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return new DataView(bytes.buffer).getBigUint64(0, true);
+}
+
+/**
+ * Check that an outpoint and blinding factor reveal a concealed seal
+ */
+export function verifySecretSeal(seal: BlindSeal, expected: Uint8Array): SealVerification {
+  const computed = concealSeal(seal);
+  return { valid: bytesToHex(computed) === bytesToHex(expected), computed, expected };
+}
@@ -0,0 +1,354 @@
+/**
+ * Canonical genesis for the Contract Builder
+ * Form values are strict-encoded into global state and allocations become
+ * owned state assignments; the contract ID is the tagged hash of the
+ * consensus-encoded genesis, so equal inputs give equal IDs
+ *
+ * An assignment is committed as
+ *   0x00 || blind seal (45)  or  0x01 || concealed seal (32)
+ *   then item index (u32 LE) for per-item supply, then amount (u64 LE);
+ * declarative rights commit the seal alone
+ */
+
+import { strictEncode } from './strictEncoding';
+import type { StrictValue } from './strictEncoding';
+import { computeSchemaId, computeContractId, bytesToHex } from './encodingUtils';
+import type { GenesisCommitment, RgbIdCommitment } from './encodingUtils';
+import {
+  serializeBlindSeal,
+  concealSeal,
+  formatSecretSeal,
+  parseSecretSeal,
+  parseOutpoint,
+  parseBlinding,
+} from './blindSeal';
+import type { BlindSeal, CloseMethod } from './blindSeal';
+import { schemaDefinition, globalStrictType, globalStrictValue, findField } from './contractSchema';
+import type { ContractSchemaDef, OwnedStateDef, FormValues, RowValue } from './contractSchema';
+
+/**
+ * One global state entry of a genesis
+ */
+export interface GenesisGlobal {
+  type: number;
+  name: string;
+  value: StrictValue;
+  encoded: Uint8Array;
+}
+
+/**
+ * Allocation row as entered; the seal is `txid:vout` or a blinded `utxob:` seal
+ */
+export interface AllocationInput {
+  seal: string;
+  /** Close method of a revealed seal; a blinded seal already commits to one */
+  method: CloseMethod;
+  /** Index into the items list, for per-item supply */
+  item: string;
+  amount: string;
+  /** Blinding of a revealed seal, decimal or 0x hex; it is committed to, so keep it to rebuild the contract ID */
+  blinding: string;
+}
+
+/** Allocation rows keyed by owned state type */
+export type Allocations = Record<number, AllocationInput[]>;
+
+/**
+ * One owned state assignment of a genesis
+ */
+export interface GenesisAllocation {
+  type: number;
+  name: string;
+  /** Revealed seal, null when only the concealed seal is known */
+  seal: BlindSeal | null;
+  concealed: Uint8Array;
+  item: number | null;
+  /** Null for declarative rights */
+  amount: bigint | null;
+  encoded: Uint8Array;
+}
+
+export interface ContractGenesis {
+  schema: ContractSchemaDef;
+  schemaId: string;
+  globals: GenesisGlobal[];
+  allocations: GenesisAllocation[];
+  genesis: GenesisCommitment;
+  commitment: RgbIdCommitment;
+  contractId: string;
+}
+
+const U64_MAX = 0xffffffffffffffffn;
+
+/**
+ * Owned state types that take genesis allocations
+ */
+export function allocatedStates(schema: ContractSchemaDef): OwnedStateDef[] {
+  return schema.owned.filter(owned => owned.supplyField !== undefined || owned.kind === 'declarative');
+}
+
+/**
+ * Allocation row with a zero blinding factor, so the contract ID follows from the seal alone
+ */
+export function emptyAllocation(amount = '', item = '0'): AllocationInput {
+  return { seal: '', method: 'tapret1st', item, amount, blinding: '0' };
+}
+
+/**
+ * Whether an allocation seal is a revealed `txid:vout` rather than a blinded seal
+ */
+export function isRevealedSeal(seal: string): boolean {
+  return /^[0-9a-fA-F]{64}:\d+$/.test(seal.trim());
+}
+
+/**
+ * One allocation per supply (or per item) receiving all of it, seals left to fill in;
+ * rights start unassigned
+ */
+export function defaultAllocations(schema: ContractSchemaDef, values: FormValues): Allocations {
+  return Object.fromEntries(allocatedStates(schema).map(owned => {
+    if (owned.kind === 'declarative') return [owned.type, []];
+    if (owned.itemsField) {
+      return [owned.type, itemRows(owned, values).map((row, idx) => emptyAllocation(row[owned.supplyField] as string ?? '', String(idx)))];
+    }
+    const target = allocationTarget(owned, values);
+    return [owned.type, target === 0n ? [] : [emptyAllocation(target?.toString() ?? '')]];
+  }));
+}
+
+/**
+ * Amount the allocations of a fungible state without items must add up to,
+ * null while the supply fields are invalid
+ */
+export function allocationTarget(owned: OwnedStateDef, values: FormValues): bigint | null {
+  const supply = parseSupply(values[owned.supplyField] as string);
+  if (owned.issuedField === undefined) return supply;
+  const issued = parseSupply(values[owned.issuedField] as string);
+  return supply === null || issued === null || issued > supply ? null : supply - issued;
+}
+
+function itemRows(owned: OwnedStateDef, values: FormValues): RowValue[] {
+  const rows = values[owned.itemsField];
+  return Array.isArray(rows) ? rows : [];
+}
+
+/**
+ * Follow edits of a list field: allocations move with reordered items and go with removed ones,
+ * new items get one allocation of their whole supply; `order[i]` is the previous index of row i,
+ * null for a new row
+ */
+export function remapAllocations(
+  schema: ContractSchemaDef,
+  allocations: Allocations,
+  listName: string,
+  rows: RowValue[],
+  order: (number | null)[],
+): Allocations {
+  const moved = new Map<number, number>();
+  order.forEach((old, idx) => {
+    if (old !== null) moved.set(old, idx);
+  });
+  const next = { ...allocations };
+  for (const owned of allocatedStates(schema).filter(o => o.itemsField === listName)) {
+    next[owned.type] = [
+      ...(allocations[owned.type] ?? []).flatMap(row =>
+        moved.has(Number(row.item)) ? [{ ...row, item: String(moved.get(Number(row.item))) }] : []),
+      ...order.flatMap((old, idx) =>
+        old === null ? [emptyAllocation(rows[idx][owned.supplyField] as string ?? '', String(idx))] : []),
+    ];
+  }
+  return next;
+}
+
+/**
+ * Display name of a list entry: its first sub-field value, or its position
+ */
+export function itemLabel(row: RowValue, idx: number): string {
+  const first = Object.values(row)[0];
+  return typeof first === 'string' && first.trim() ? first.trim() : `Item ${idx + 1}`;
+}
+
+/**
+ * Read an allocation seal: `txid:vout` is revealed with the row's method and blinding,
+ * anything else must be a concealed seal
+ */
+export function parseAllocationSeal(input: AllocationInput): { seal: BlindSeal | null; concealed: Uint8Array } {
+  const str = input.seal.trim();
+  if (isRevealedSeal(str)) {
+    const seal = { ...parseOutpoint(str), method: input.method, blinding: parseBlinding(input.blinding) };
+    return { seal, concealed: concealSeal(seal) };
+  }
+  if (str === '') throw new Error('Seal is required');
+  return { seal: null, concealed: parseSecretSeal(str) };
+}
+
+function parseSupply(value: string | undefined): bigint | null {
+  return /^\d+$/.test(value?.trim() ?? '') ? BigInt(value.trim()) : null;
+}
+
+/**
+ * Validation messages for the allocations, keyed like form errors:
+ * `assetOwner[1].seal` for a row, `assetOwner` for the totals
+ */
+export function validateAllocations(
+  schema: ContractSchemaDef,
+  values: FormValues,
+  allocations: Allocations,
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const owned of allocatedStates(schema)) {
+    const rows = allocations[owned.type] ?? [];
+    const items = owned.itemsField ? itemRows(owned, values) : null;
+    const totals = new Map<number, bigint>();
+
+    rows.forEach((row, idx) => {
+      const path = `${owned.name}[${idx}]`;
+      if (isRevealedSeal(row.seal)) {
+        try {
+          parseBlinding(row.blinding);
+        } catch (e) {
+          errors[`${path}.blinding`] = `Row ${idx + 1}: ${e.message}`;
+        }
+      }
+      if (!errors[`${path}.blinding`]) {
+        try {
+          parseAllocationSeal(row);
+        } catch (e) {
+          errors[`${path}.seal`] = `Row ${idx + 1}: ${e.message}`;
+        }
+      }
+      if (owned.kind === 'declarative') return;
+      const item = items ? Number(row.item) : 0;
+      if (items && !(Number.isInteger(item) && item >= 0 && item < items.length)) {
+        errors[`${path}.item`] = `Row ${idx + 1}: choose an item`;
+      }
+      const amount = parseSupply(row.amount);
+      if (amount === null || amount === 0n || amount > U64_MAX) {
+        errors[`${path}.amount`] = `Row ${idx + 1}: amount must be a whole number from 1 to ${U64_MAX}`;
+      } else {
+        totals.set(item, (totals.get(item) ?? 0n) + amount);
+      }
+    });
+
+    if (owned.kind === 'declarative') continue;
+    if (items) {
+      const mismatches = items.flatMap((entry, idx) => {
+        const supply = parseSupply(entry[owned.supplyField] as string);
+        const allocated = totals.get(idx) ?? 0n;
+        return supply === null || allocated === supply
+          ? []
+          : [`${itemLabel(entry, idx)} ${allocated.toLocaleString()} of ${supply.toLocaleString()}`];
+      });
+      if (mismatches.length > 0) {
+        errors[owned.name] = `Allocations must match each item's supply: ${mismatches.join(', ')}`;
+      }
+    } else {
+      const target = allocationTarget(owned, values);
+      const allocated = totals.get(0) ?? 0n;
+      const supplyLabel = findField(schema, owned.supplyField).label;
+      const expected = owned.issuedField
+        ? `${supplyLabel} less ${findField(schema, owned.issuedField).label}`
+        : supplyLabel;
+      if (target !== null && rows.length === 0 && target > 0n) {
+        errors[owned.name] = `Allocate the ${expected} (${target.toLocaleString()}) to at least one seal`;
+      } else if (target !== null && allocated !== target) {
+        errors[owned.name] = `Allocations add up to ${allocated.toLocaleString()} but ${expected} is ${target.toLocaleString()}`;
+      }
+    }
+  }
+  return errors;
+}
+
+function encodeAllocation(allocation: Omit<GenesisAllocation, 'encoded'>): Uint8Array {
+  const seal = allocation.seal ? serializeBlindSeal(allocation.seal) : allocation.concealed;
+  const out = new Uint8Array(1 + seal.length + (allocation.item === null ? 0 : 4) + (allocation.amount === null ? 0 : 8));
+  const view = new DataView(out.buffer);
+  out[0] = allocation.seal ? 0x00 : 0x01;
+  out.set(seal, 1);
+  let offset = 1 + seal.length;
+  if (allocation.item !== null) {
+    view.setUint32(offset, allocation.item, true);
+    offset += 4;
+  }
+  if (allocation.amount !== null) view.setBigUint64(offset, allocation.amount, true);
+  return out;
+}
+
+/**
+ * Genesis committing to the form values and allocations under a schema;
+ * both must have passed validation
+ */
+export function buildGenesis(schema: ContractSchemaDef, values: FormValues, allocations: Allocations): ContractGenesis {
+  const globals = schema.globals.map(global => {
+    const value = globalStrictValue(global, values);
+    try {
+      return { type: global.type, name: global.name, value, encoded: strictEncode(globalStrictType(global), value) };
+    } catch (e) {
+      // Strict encoding paths start at `$`; name the global instead
+      throw new Error(`${global.name}${e.message.replace(/^\$/, '')}`);
+    }
+  });
+
+  const assigned = allocatedStates(schema).flatMap(owned =>
+    (allocations[owned.type] ?? []).map(row => {
+      const allocation = {
+        type: owned.type,
+        name: owned.name,
+        ...parseAllocationSeal(row),
+        item: owned.itemsField ? Number(row.item) : null,
+        amount: owned.kind === 'declarative' ? null : BigInt(row.amount.trim()),
+      };
+      return { ...allocation, encoded: encodeAllocation(allocation) };
+    }));
+  const assignments: Record<number, Uint8Array[]> = {};
+  for (const allocation of assigned) {
+    assignments[allocation.type] = [...(assignments[allocation.type] ?? []), allocation.encoded];
+  }
+
+  const schemaId = computeSchemaId(new TextEncoder().encode(schemaDefinition(schema)));
+  const genesis: GenesisCommitment = {
+    schemaId: schemaId.id,
+    metadata: new Uint8Array(0),
+    globals: Object.fromEntries(globals.map(g => [g.type, g.encoded])),
+    assignments,
+    valencies: [],
+  };
+  const commitment = computeContractId(genesis);
+  return {
+    schema,
+    schemaId: schemaId.formatted,
+    globals,
+    allocations: assigned,
+    genesis,
+    commitment,
+    contractId: commitment.formatted,
+  };
+}
+
+/**
+ * Genesis fields for JSON export: schema, global state values, allocations and their encodings
+ */
+export function genesisJson(contract: ContractGenesis) {
+  return {
+    schema_id: contract.schemaId,
+    globals: contract.globals.map(g => ({
+      type: g.type,
+      name: g.name,
+      value: g.value,
+      encoded: bytesToHex(g.encoded),
+    })),
+    allocations: contract.allocations.map(a => ({
+      type: a.type,
+      name: a.name,
+      seal: a.seal
+        ? { method: a.seal.method, txid: a.seal.txid, vout: a.seal.vout, blinding: a.seal.blinding.toString() }
+        : null,
+      secret_seal: formatSecretSeal(a.concealed),
+      ...(a.item === null ? {} : { item: a.item }),
+      ...(a.amount === null ? {} : { amount: a.amount.toString() }),
+      encoded: bytesToHex(a.encoded),
+    })),
+    commitment: bytesToHex(contract.commitment.bytes),
+    contract_id: contract.contractId,
+  };
+}
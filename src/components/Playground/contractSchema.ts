@@ -0,0 +1,1031 @@
+/**
+ * Declarative contract schemas for the Contract Builder
+ *
+ * A schema description lists the global state a genesis commits to, as form
+ * fields with types, bounds and defaults, and the owned state types. The
+ * generic builder renders, validates and exports a genesis from it alone.
+ */
+
+import { describeType } from './strictEncoding';
+import type { StrictType, StrictValue } from './strictEncoding';
+import { formatBytes, isRecord } from './encodingUtils';
+import { EMBEDDED_MEDIA_MAX, validateMedia, isMedia } from './mediaAttachment';
+import type { MediaValue } from './mediaAttachment';
+
+export type SchemaIntegerType = 'u8' | 'u16' | 'u32' | 'u64';
+
+interface FieldBase {
+  /** Key in form values; unique across the schema */
+  name: string;
+  label: string;
+  hint?: string;
+  /** Empty input commits `None` instead of failing validation */
+  optional?: boolean;
+}
+
+/**
+ * Form field and the strict type its value is committed as
+ *
+ * - `string`: UTF-8 (or ASCII) string, bounds in bytes
+ * - `integer`: unsigned integer, bounds inclusive
+ * - `decimal`: fixed-point number committed as an integer scaled by 10^scale
+ * - `enum`: one of several options committed as its U8 value
+ * - `media`: a file committed as MIME type and SHA-256 digest, or embedded whole
+ * - `map`: text key/value pairs entered as `key=value` lines, keys unique
+ * - `list`: rows of sub-fields, bounds on the number of rows
+ */
+export type SchemaField =
+  | FieldBase & {
+    kind: 'string';
+    min?: number;
+    max: number;
+    ascii?: boolean;
+    uppercase?: boolean;
+    multiline?: boolean;
+    placeholder?: string;
+    default?: string;
+  }
+  | FieldBase & {
+    kind: 'integer';
+    int: SchemaIntegerType;
+    min?: number | string;
+    max?: number | string;
+    /** Top-level integer field this one must not exceed */
+    maxField?: string;
+    placeholder?: string;
+    default?: string;
+  }
+  | FieldBase & {
+    kind: 'decimal';
+    int: SchemaIntegerType;
+    scale: number;
+    min?: number | string;
+    max?: number | string;
+    unit?: string;
+    default?: string;
+  }
+  | FieldBase & {
+    kind: 'enum';
+    options: { value: number; label: string }[];
+    default?: number;
+  }
+  | FieldBase & {
+    kind: 'media';
+    /** Commit the file bytes instead of the digest */
+    embedded?: boolean;
+    /** Size limit of embedded media, at most 65535 */
+    max?: number;
+    /** File picker filter, e.g. image/* */
+    accept?: string;
+  }
+  | FieldBase & {
+    kind: 'map';
+    /** Maximum number of entries */
+    max: number;
+    keyMax?: number;
+    valueMax?: number;
+    placeholder?: string;
+    default?: string;
+  }
+  | FieldBase & {
+    kind: 'list';
+    of: SchemaField[];
+    min?: number;
+    max: number;
+    /** Sub-fields whose values must differ between rows, compared case-insensitively */
+    unique?: string[];
+    /** Integer sub-fields summed over all rows in the form and summary */
+    totals?: string[];
+    default?: Record<string, string>[];
+  };
+
+/** Raw input of a scalar field: text, or selected media (empty string when none) */
+export type ScalarValue = string | MediaValue;
+export type RowValue = Record<string, ScalarValue>;
+
+export interface GlobalStateDef {
+  type: number;
+  name: string;
+  /** A single field is committed bare, several as a struct in this order */
+  fields: SchemaField[];
+}
+
+export type OwnedStateKind = 'fungible' | 'structured' | 'declarative';
+
+/**
+ * Owned state type; fungible state with a `supplyField` and declarative rights
+ * are allocated to seals in genesis
+ */
+export interface OwnedStateDef {
+  type: number;
+  name: string;
+  kind: OwnedStateKind;
+  label?: string;
+  hint?: string;
+  /**
+   * Integer field genesis allocations of fungible state must add up to;
+   * with `itemsField`, the sub-field of each list entry
+   */
+  supplyField?: string;
+  /** Integer field subtracted from `supplyField`, e.g. the issued part of a maximum supply */
+  issuedField?: string;
+  /** List field whose entries allocations name, each allocated up to its own supply */
+  itemsField?: string;
+}
+
+export interface ContractSchemaDef {
+  /** Schema name, committed to by the schema ID */
+  name: string;
+  /** Interface standard, e.g. RGB20 */
+  standard: string;
+  title: string;
+  description?: string;
+  /** Shown under the generated contract */
+  note?: string;
+  globals: GlobalStateDef[];
+  owned: OwnedStateDef[];
+}
+
+/** Raw form input: scalar values, rows of them for lists */
+export type FieldValue = ScalarValue | RowValue[];
+export type FormValues = Record<string, FieldValue>;
+
+/**
+ * Invalid schema description, with the JSON path of the offending entry
+ */
+export class SchemaError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'SchemaError';
+  }
+}
+
+const INT_MAX: Record<SchemaIntegerType, bigint> = {
+  u8: 0xffn,
+  u16: 0xffffn,
+  u32: 0xffffffffn,
+  u64: 0xffffffffffffffffn,
+};
+
+const OWNED_KINDS: OwnedStateKind[] = ['fungible', 'structured', 'declarative'];
+const MAP_KEY_MAX = 40;
+const MAP_VALUE_MAX = 255;
+const NAME_RE = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Strict type a field value is committed as
+ */
+export function fieldStrictType(field: SchemaField): StrictType {
+  let type: StrictType;
+  switch (field.kind) {
+    case 'string':
+      type = { kind: 'string', min: field.min ?? 1, max: field.max, ascii: field.ascii };
+      break;
+    case 'integer':
+    case 'decimal':
+      type = { kind: 'primitive', name: field.int };
+      break;
+    case 'enum':
+      type = { kind: 'primitive', name: 'u8' };
+      break;
+    case 'media':
+      type = { kind: 'struct', fields: [
+        { name: 'type', type: { kind: 'string', min: 1, max: 255, ascii: true } },
+        field.embedded
+          ? { name: 'data', type: { kind: 'bytes', max: mediaLimit(field) } }
+          : { name: 'digest', type: { kind: 'array', of: { kind: 'primitive', name: 'u8' }, len: 32 } },
+      ] };
+      break;
+    case 'map':
+      type = {
+        kind: 'map',
+        key: { kind: 'string', min: 1, max: field.keyMax ?? MAP_KEY_MAX },
+        value: { kind: 'string', min: 0, max: field.valueMax ?? MAP_VALUE_MAX },
+        max: field.max,
+      };
+      break;
+    case 'list':
+      type = { kind: 'list', of: structType(field.of), min: field.min, max: field.max };
+      break;
+  }
+  // Lists and maps are empty rather than absent
+  return field.optional && field.kind !== 'list' && field.kind !== 'map' ? { kind: 'option', of: type } : type;
+}
+
+function mediaLimit(field: SchemaField & { kind: 'media' }): number | null {
+  return field.embedded ? field.max ?? EMBEDDED_MEDIA_MAX : null;
+}
+
+function structType(fields: SchemaField[]): StrictType {
+  return fields.length === 1
+    ? fieldStrictType(fields[0])
+    : { kind: 'struct', fields: fields.map(f => ({ name: f.name, type: fieldStrictType(f) })) };
+}
+
+/**
+ * Strict type of a global state entry
+ */
+export function globalStrictType(global: GlobalStateDef): StrictType {
+  return structType(global.fields);
+}
+
+/**
+ * Consensus-relevant schema text the schema ID commits to; labels and hints are left out
+ */
+export function schemaDefinition(schema: ContractSchemaDef): string {
+  const lines = [`schema ${schema.name}`];
+  for (const global of schema.globals) {
+    lines.push(`  global ${global.type} ${global.name}: ${describeType(globalStrictType(global))}`);
+  }
+  for (const owned of schema.owned) {
+    const kind = `${owned.kind[0].toUpperCase()}${owned.kind.slice(1)}`;
+    lines.push(`  owned ${owned.type} ${owned.name}: ${owned.itemsField ? `${kind}(${owned.itemsField})` : kind}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function parseBigInt(value: string): bigint | null {
+  return /^\d+$/.test(value) ? BigInt(value) : null;
+}
+
+/**
+ * Integer committed for a decimal input, null when it is not a number with at most `scale` decimals
+ */
+function scaleDecimal(value: string, scale: number): bigint | null {
+  const match = value.match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (match[1] === '' && !match[2]) || (match[2] ?? '').length > scale) return null;
+  return BigInt(match[1] || '0') * 10n ** BigInt(scale) + BigInt((match[2] ?? '').padEnd(scale, '0') || '0');
+}
+
+function checkRange(field: Extract<SchemaField, { kind: 'integer' | 'decimal' }>, n: bigint, scale: number): string | null {
+  const factor = 10n ** BigInt(scale);
+  const min = field.min !== undefined ? BigInt(field.min) * factor : 0n;
+  const max = field.max !== undefined ? BigInt(field.max) * factor : INT_MAX[field.int];
+  if (n < min) return `${field.label} must be at least ${field.min}`;
+  if (n > max || n > INT_MAX[field.int]) {
+    return `${field.label} must be at most ${field.max ?? INT_MAX[field.int].toString()}`;
+  }
+  return null;
+}
+
+/**
+ * Entries of a map input, one `key=value` per line; blank lines are skipped
+ */
+export function parseMapEntries(value: string): { key: string; value: string; line: number }[] {
+  return value.split('\n').flatMap((text, idx) => {
+    if (text.trim() === '') return [];
+    const eq = text.indexOf('=');
+    return [{
+      key: (eq === -1 ? text : text.slice(0, eq)).trim(),
+      value: eq === -1 ? null : text.slice(eq + 1).trim(),
+      line: idx + 1,
+    }];
+  });
+}
+
+function validateMap(field: SchemaField & { kind: 'map' }, value: string): string | null {
+  const entries = parseMapEntries(value);
+  const keys = new Set<string>();
+  for (const entry of entries) {
+    if (entry.value === null || entry.key === '') return `${field.label}: line ${entry.line} must be key=value`;
+    if (keys.has(entry.key)) return `${field.label}: duplicate key "${entry.key}"`;
+    keys.add(entry.key);
+    if (new TextEncoder().encode(entry.key).length > (field.keyMax ?? MAP_KEY_MAX)) {
+      return `${field.label}: key "${entry.key}" is longer than ${field.keyMax ?? MAP_KEY_MAX} bytes`;
+    }
+    if (new TextEncoder().encode(entry.value).length > (field.valueMax ?? MAP_VALUE_MAX)) {
+      return `${field.label}: value of "${entry.key}" is longer than ${field.valueMax ?? MAP_VALUE_MAX} bytes`;
+    }
+  }
+  if (entries.length > field.max) return `${field.label} allows at most ${field.max} entries`;
+  return null;
+}
+
+/**
+ * Validation message for one scalar input, null when it is valid
+ */
+export function validateField(field: SchemaField, value: FieldValue): string | null {
+  if (field.kind === 'list') {
+    const rows = Array.isArray(value) ? value : [];
+    if (rows.length < (field.min ?? 0)) return `${field.label} needs at least ${field.min} entries`;
+    if (rows.length > field.max) return `${field.label} allows at most ${field.max} entries`;
+    return null;
+  }
+  if (field.kind === 'media') {
+    if (!isMedia(value)) return field.optional ? null : `${field.label} is required`;
+    const error = validateMedia(value, mediaLimit(field));
+    return error ? `${field.label}: ${error}` : null;
+  }
+  if (field.kind === 'map') return validateMap(field, typeof value === 'string' ? value : '');
+  const raw = typeof value === 'string' ? value.trim() : '';
+  if (raw === '') return field.optional ? null : `${field.label} is required`;
+
+  switch (field.kind) {
+    case 'string': {
+      if (field.ascii && !/^[\x20-\x7e]*$/.test(raw)) return `${field.label} allows only printable ASCII characters`;
+      const length = new TextEncoder().encode(raw).length;
+      if (length < (field.min ?? 0)) return `${field.label} must be at least ${field.min} bytes`;
+      if (length > field.max) return `${field.label} must be at most ${field.max} bytes (${length} given)`;
+      return null;
+    }
+    case 'integer': {
+      const n = parseBigInt(raw);
+      return n === null ? `${field.label} must be a whole number` : checkRange(field, n, 0);
+    }
+    case 'decimal': {
+      const n = scaleDecimal(raw, field.scale);
+      if (n === null) return `${field.label} must be a number with at most ${field.scale} decimals`;
+      return checkRange(field, n, field.scale);
+    }
+    case 'enum':
+      return field.options.some(o => String(o.value) === raw) ? null : `${field.label} has no option ${raw}`;
+  }
+}
+
+/**
+ * Top-level field by name
+ */
+export function findField(schema: ContractSchemaDef, name: string): SchemaField | undefined {
+  return schema.globals.flatMap(global => global.fields).find(field => field.name === name);
+}
+
+/**
+ * Validation messages keyed by field path, e.g. `ticker` or `items[1].name`
+ */
+export function validateValues(schema: ContractSchemaDef, values: FormValues): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const global of schema.globals) {
+    for (const field of global.fields) {
+      const error = validateField(field, values[field.name]);
+      if (error) errors[field.name] = error;
+      if (!error && field.kind === 'integer' && field.maxField) {
+        const bound = findField(schema, field.maxField);
+        const value = values[field.name];
+        const boundValue = values[field.maxField];
+        const n = typeof value === 'string' ? parseBigInt(value.trim()) : null;
+        const max = typeof boundValue === 'string' ? parseBigInt(boundValue.trim()) : null;
+        if (bound && n !== null && max !== null && n > max) {
+          errors[field.name] = `${field.label} must not exceed ${bound.label} (${max.toLocaleString()})`;
+        }
+      }
+      if (field.kind === 'list' && Array.isArray(values[field.name])) {
+        const seen = new Map<string, number>();
+        (values[field.name] as RowValue[]).forEach((row, idx) => {
+          for (const sub of field.of) {
+            const path = `${field.name}[${idx}].${sub.name}`;
+            const rowError = validateField(sub, row[sub.name] ?? '');
+            if (rowError) errors[path] = `Row ${idx + 1}: ${rowError}`;
+
+            const cell = row[sub.name];
+            if (!rowError && field.unique?.includes(sub.name) && typeof cell === 'string' && cell.trim() !== '') {
+              const key = `${sub.name}\n${cell.trim().toLowerCase()}`;
+              if (seen.has(key)) {
+                errors[path] = `Row ${idx + 1}: ${sub.label} "${cell.trim()}" is already used in row ${seen.get(key) + 1}`;
+              } else {
+                seen.set(key, idx);
+              }
+            }
+          }
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Strict value committed for a valid input
+ */
+export function fieldStrictValue(field: SchemaField, value: FieldValue): StrictValue {
+  if (field.kind === 'list') {
+    return (value as RowValue[]).map(row => rowStrictValue(field.of, row));
+  }
+  if (field.kind === 'media') {
+    if (!isMedia(value)) return null;
+    return field.embedded ? { type: value.type, data: value.data } : { type: value.type, digest: value.digest };
+  }
+  if (field.kind === 'map') {
+    return parseMapEntries(value as string ?? '').map(entry => [entry.key, entry.value]);
+  }
+  const raw = (value as string ?? '').trim();
+  if (raw === '' && field.optional) return null;
+  switch (field.kind) {
+    case 'string': return raw;
+    case 'integer': return raw;
+    case 'decimal': return scaleDecimal(raw, field.scale).toString();
+    case 'enum': return Number(raw);
+  }
+}
+
+function rowStrictValue(fields: SchemaField[], row: Record<string, FieldValue>): StrictValue {
+  return fields.length === 1
+    ? fieldStrictValue(fields[0], row[fields[0].name] ?? '')
+    : Object.fromEntries(fields.map(f => [f.name, fieldStrictValue(f, row[f.name] ?? '')]));
+}
+
+/**
+ * Strict value of a global state entry
+ */
+export function globalStrictValue(global: GlobalStateDef, values: FormValues): StrictValue {
+  return rowStrictValue(global.fields, values);
+}
+
+/**
+ * Display form of an input for summaries
+ */
+export function formatFieldValue(field: SchemaField, value: FieldValue): string {
+  if (field.kind === 'list') {
+    const rows = Array.isArray(value) ? value : [];
+    const totals = listTotals(field, rows).map(total => `${total.sum.toLocaleString()} ${total.field.label}`);
+    return [`${rows.length} ${rows.length === 1 ? 'entry' : 'entries'}`, ...totals].join(' · ');
+  }
+  if (field.kind === 'map') {
+    const entries = parseMapEntries(value as string ?? '');
+    return entries.length ? entries.map(entry => `${entry.key}=${entry.value}`).join(', ') : 'none';
+  }
+  if (field.kind === 'media') {
+    return isMedia(value) ? `${value.name} (${value.type}, ${formatBytes(value.size)})` : 'none';
+  }
+  const raw = (value as string ?? '').trim();
+  if (raw === '') return 'none';
+  switch (field.kind) {
+    case 'string': return raw;
+    case 'integer': return /^\d+$/.test(raw) ? BigInt(raw).toLocaleString() : raw;
+    case 'decimal': return `${raw}${field.unit ?? ''}`;
+    case 'enum': return field.options.find(o => String(o.value) === raw)?.label ?? raw;
+  }
+}
+
+/**
+ * Sums of the `totals` sub-fields of a list, skipping cells that are not whole numbers
+ */
+export function listTotals(
+  field: SchemaField & { kind: 'list' },
+  rows: RowValue[],
+): { field: SchemaField; sum: bigint }[] {
+  return field.of.filter(sub => field.totals?.includes(sub.name)).map(sub => ({
+    field: sub,
+    sum: rows.reduce((sum, row) => {
+      const n = typeof row[sub.name] === 'string' ? parseBigInt((row[sub.name] as string).trim()) : null;
+      return sum + (n ?? 0n);
+    }, 0n),
+  }));
+}
+
+function fieldDefault(field: SchemaField): FieldValue {
+  switch (field.kind) {
+    case 'list':
+      return (field.default ?? []).map(row => ({ ...emptyRow(field), ...row }));
+    case 'enum':
+      return String(field.default ?? field.options[0]?.value ?? '');
+    case 'media':
+      return '';
+    default:
+      return field.default ?? '';
+  }
+}
+
+/**
+ * Initial form values from the field defaults
+ */
+export function defaultValues(schema: ContractSchemaDef): FormValues {
+  const values: FormValues = {};
+  for (const global of schema.globals) {
+    for (const field of global.fields) values[field.name] = fieldDefault(field);
+  }
+  return values;
+}
+
+/**
+ * Empty row of a list field, sub-fields at their defaults
+ */
+export function emptyRow(field: SchemaField & { kind: 'list' }): RowValue {
+  return Object.fromEntries(field.of.map(sub => [sub.name, fieldDefault(sub) as ScalarValue]));
+}
+
+/**
+ * Split CSV text into records; quoted cells may hold commas, quotes ("") and line breaks
+ */
+function parseCsv(text: string): { cells: string[]; line: number }[] {
+  const records: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(v => v.trim() !== '')) records.push({ cells, line: start });
+      cells = [];
+      cell = '';
+      line++;
+      start = line;
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) throw new Error(`line ${start}: unterminated quoted cell`);
+  cells.push(cell);
+  if (cells.some(v => v.trim() !== '')) records.push({ cells, line: start });
+  return records;
+}
+
+/**
+ * Rows of a list field from CSV with a header row naming sub-fields by name or label;
+ * map cells hold `key=value` pairs separated by semicolons, media cannot be imported
+ */
+export function importListCsv(field: SchemaField & { kind: 'list' }, csv: string): RowValue[] {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) throw new Error('CSV is empty');
+
+  const columns = header.cells.map(name => {
+    const sub = field.of.find(f => [f.name, f.label].some(n => n.toLowerCase() === name.trim().toLowerCase()));
+    if (!sub) throw new Error(`Unknown column "${name.trim()}"; expected ${field.of.map(f => f.name).join(', ')}`);
+    if (sub.kind === 'media') throw new Error(`Column "${name.trim()}" is media, which cannot be imported from CSV`);
+    return sub;
+  });
+  if (records.length > field.max) {
+    throw new Error(`${records.length} rows given; ${field.label} allows at most ${field.max}`);
+  }
+
+  return records.map(({ cells, line }) => {
+    if (cells.length > columns.length) throw new Error(`line ${line}: ${cells.length} cells for ${columns.length} columns`);
+    const row = emptyRow(field);
+    columns.forEach((sub, idx) => {
+      // Blank cells keep the sub-field default
+      const cell = (cells[idx] ?? '').trim();
+      if (cell === '') return;
+      row[sub.name] = sub.kind === 'map' ? cell.split(';').map(pair => pair.trim()).filter(Boolean).join('\n') : cell;
+    });
+    return row;
+  });
+}
+
+function checkBound(path: string, value: unknown, what: string): void {
+  if (value !== undefined && !(typeof value === 'number' && Number.isInteger(value) && value >= 0)
+    && !(typeof value === 'string' && /^\d+$/.test(value))) {
+    throw new SchemaError(path, `${what} must be a non-negative integer`);
+  }
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function checkField(field: unknown, path: string, names: Set<string>, nested: boolean): void {
+  if (!isRecord(field)) throw new SchemaError(path, 'expected a field object');
+  if (typeof field.name !== 'string' || !NAME_RE.test(field.name)) {
+    throw new SchemaError(`${path}.name`, 'expected an identifier');
+  }
+  if (names.has(field.name)) throw new SchemaError(`${path}.name`, `duplicate field name "${field.name}"`);
+  names.add(field.name);
+  if (typeof field.label !== 'string' || !field.label) throw new SchemaError(`${path}.label`, 'expected a label');
+
+  // Bounds are checked to be integers or digit strings before their ranges are compared
+  const max = Number(field.max);
+  switch (field.kind) {
+    case 'string':
+      checkBound(`${path}.min`, field.min, 'min');
+      checkBound(`${path}.max`, field.max, 'max');
+      if (field.max === undefined || max < 1 || max > 0xffff) {
+        throw new SchemaError(`${path}.max`, 'expected a byte length of 1 to 65535');
+      }
+      return;
+    case 'integer':
+    case 'decimal':
+      if (typeof field.int !== 'string' || !(field.int in INT_MAX)) {
+        throw new SchemaError(`${path}.int`, 'expected u8, u16, u32 or u64');
+      }
+      checkBound(`${path}.min`, field.min, 'min');
+      checkBound(`${path}.max`, field.max, 'max');
+      if (field.kind === 'decimal' && !(isInteger(field.scale) && field.scale >= 0 && field.scale <= 18)) {
+        throw new SchemaError(`${path}.scale`, 'expected 0 to 18 decimals');
+      }
+      return;
+    case 'enum':
+      if (!Array.isArray(field.options) || field.options.length === 0) {
+        throw new SchemaError(`${path}.options`, 'expected a non-empty array');
+      }
+      field.options.forEach((option: unknown, idx: number) => {
+        if (!isRecord(option) || !isInteger(option.value) || option.value < 0 || option.value > 0xff
+          || typeof option.label !== 'string') {
+          throw new SchemaError(`${path}.options[${idx}]`, 'expected { value: 0-255, label }');
+        }
+      });
+      return;
+    case 'media':
+      if (field.max !== undefined && !(isInteger(field.max) && field.max >= 1 && field.max <= EMBEDDED_MEDIA_MAX)) {
+        throw new SchemaError(`${path}.max`, `expected an embedded size limit of 1 to ${EMBEDDED_MEDIA_MAX} bytes`);
+      }
+      return;
+    case 'map':
+      checkBound(`${path}.max`, field.max, 'max');
+      checkBound(`${path}.keyMax`, field.keyMax, 'keyMax');
+      checkBound(`${path}.valueMax`, field.valueMax, 'valueMax');
+      if (field.max === undefined || max < 1 || max > 0xff) {
+        throw new SchemaError(`${path}.max`, 'expected 1 to 255 entries');
+      }
+      return;
+    case 'list': {
+      if (nested) throw new SchemaError(path, 'lists cannot be nested');
+      checkBound(`${path}.min`, field.min, 'min');
+      checkBound(`${path}.max`, field.max, 'max');
+      if (field.max === undefined || max < 1 || max > 0xffff) {
+        throw new SchemaError(`${path}.max`, 'expected 1 to 65535 entries');
+      }
+      if (!Array.isArray(field.of) || field.of.length === 0) {
+        throw new SchemaError(`${path}.of`, 'expected a non-empty array of fields');
+      }
+      const subNames = new Set<string>();
+      field.of.forEach((sub: unknown, idx: number) => checkField(sub, `${path}.of[${idx}]`, subNames, true));
+      const subs = field.of as SchemaField[];
+      if (field.unique !== undefined && !(Array.isArray(field.unique)
+        && field.unique.every((name: unknown) => subs.some(sub => sub.name === name)))) {
+        throw new SchemaError(`${path}.unique`, 'expected names of sub-fields');
+      }
+      if (field.totals !== undefined && !(Array.isArray(field.totals)
+        && field.totals.every((name: unknown) => subs.some(sub => sub.name === name && sub.kind === 'integer')))) {
+        throw new SchemaError(`${path}.totals`, 'expected names of integer sub-fields');
+      }
+      return;
+    }
+    default:
+      throw new SchemaError(`${path}.kind`, 'expected string, integer, decimal, enum, media, map or list');
+  }
+}
+
+function checkIntegerRef(fields: SchemaField[], name: unknown, path: string): void {
+  const field = fields.find(f => f.name === name);
+  if (field?.kind !== 'integer' || field.optional) {
+    throw new SchemaError(path, 'expected the name of a required integer field');
+  }
+}
+
+function checkSupplyFields(globals: GlobalStateDef[], owned: Record<string, unknown>, path: string): void {
+  if (owned.supplyField === undefined && owned.itemsField === undefined && owned.issuedField === undefined) return;
+  if (owned.kind !== 'fungible') throw new SchemaError(path, 'only fungible state takes a supply');
+  if (owned.itemsField !== undefined && owned.issuedField !== undefined) {
+    throw new SchemaError(`${path}.issuedField`, 'cannot be combined with itemsField');
+  }
+
+  let fields = globals.flatMap(global => global.fields);
+  if (owned.issuedField !== undefined) checkIntegerRef(fields, owned.issuedField, `${path}.issuedField`);
+  if (owned.itemsField !== undefined) {
+    const list = fields.find(field => field.name === owned.itemsField);
+    if (list?.kind !== 'list') throw new SchemaError(`${path}.itemsField`, 'expected the name of a list field');
+    fields = list.of;
+  }
+  checkIntegerRef(fields, owned.supplyField, `${path}.supplyField`);
+}
+
+/**
+ * Check a schema description loaded from JSON
+ */
+export function validateSchema(data: unknown): ContractSchemaDef {
+  if (!isRecord(data)) {
+    throw new SchemaError('$', 'expected a schema object');
+  }
+  if (typeof data.name !== 'string' || !NAME_RE.test(data.name)) throw new SchemaError('$.name', 'expected an identifier');
+  if (typeof data.standard !== 'string' || !data.standard) throw new SchemaError('$.standard', 'expected e.g. "RGB20"');
+  if (typeof data.title !== 'string' || !data.title) throw new SchemaError('$.title', 'expected a title');
+  if (!Array.isArray(data.globals) || data.globals.length === 0) {
+    throw new SchemaError('$.globals', 'expected a non-empty array');
+  }
+  if (!Array.isArray(data.owned)) throw new SchemaError('$.owned', 'expected an array');
+
+  const types = new Set<number>();
+  const checkType = (path: string, type: unknown) => {
+    if (!isInteger(type) || type < 0 || type > 0xffff) {
+      throw new SchemaError(path, 'expected a u16 type id');
+    }
+    if (types.has(type)) throw new SchemaError(path, `duplicate type id ${type}`);
+    types.add(type);
+  };
+
+  const fieldNames = new Set<string>();
+  data.globals.forEach((global: unknown, idx: number) => {
+    const path = `$.globals[${idx}]`;
+    if (!isRecord(global)) throw new SchemaError(path, 'expected a global state object');
+    checkType(`${path}.type`, global.type);
+    if (typeof global.name !== 'string' || !NAME_RE.test(global.name)) {
+      throw new SchemaError(`${path}.name`, 'expected an identifier');
+    }
+    if (!Array.isArray(global.fields) || global.fields.length === 0) {
+      throw new SchemaError(`${path}.fields`, 'expected a non-empty array');
+    }
+    global.fields.forEach((field: unknown, i: number) => checkField(field, `${path}.fields[${i}]`, fieldNames, false));
+  });
+  const globals = data.globals as GlobalStateDef[];
+  const fields = globals.flatMap(global => global.fields);
+  globals.forEach((global, idx) => global.fields.forEach((field, i) => {
+    if (field.kind === 'integer' && field.maxField !== undefined) {
+      checkIntegerRef(fields, field.maxField, `$.globals[${idx}].fields[${i}].maxField`);
+    }
+  }));
+  data.owned.forEach((owned: unknown, idx: number) => {
+    const path = `$.owned[${idx}]`;
+    if (!isRecord(owned)) throw new SchemaError(path, 'expected an owned state object');
+    checkType(`${path}.type`, owned.type);
+    if (typeof owned.name !== 'string' || !NAME_RE.test(owned.name)) {
+      throw new SchemaError(`${path}.name`, 'expected an identifier');
+    }
+    if (!OWNED_KINDS.some(kind => kind === owned.kind)) {
+      throw new SchemaError(`${path}.kind`, `expected ${OWNED_KINDS.join(', ')}`);
+    }
+    checkSupplyFields(globals, owned, path);
+  });
+  return data as unknown as ContractSchemaDef;
+}
+
+/**
+ * Parse a schema description pasted or loaded as JSON
+ */
+export function parseSchemaDescription(json: string): ContractSchemaDef {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new SchemaError('$', `invalid JSON: ${e.message}`);
+  }
+  return validateSchema(data);
+}
+
+const TICKER = { kind: 'string', min: 1, max: 8, ascii: true, uppercase: true } as const;
+
+const RGB20_SPEC: GlobalStateDef = {
+  type: 2000,
+  name: 'spec',
+  fields: [
+    { ...TICKER, name: 'ticker', label: 'Ticker Symbol', placeholder: 'MTK' },
+    { kind: 'string', name: 'name', label: 'Token Name', min: 1, max: 40, placeholder: 'My Token' },
+    {
+      kind: 'string',
+      name: 'details',
+      label: 'Description',
+      optional: true,
+      max: 255,
+      multiline: true,
+      placeholder: 'A description of your token...',
+    },
+    {
+      kind: 'enum',
+      name: 'precision',
+      label: 'Precision (decimals)',
+      options: [
+        { value: 0, label: '0 - Whole numbers only' },
+        { value: 2, label: '2 - 0.01 (cents)' },
+        { value: 8, label: '8 - 0.00000001 (satoshi-like)' },
+        { value: 18, label: '18 - 0.000000000000000001 (ether-like)' },
+      ],
+      default: 8,
+    },
+  ],
+};
+
+export const RGB20_SCHEMA: ContractSchemaDef = {
+  name: 'NonInflatableAsset',
+  standard: 'RGB20',
+  title: '🪙 RGB20 Fungible Token Builder',
+  description: 'Create a fungible token like stablecoins, utility tokens, or securities',
+  note: 'This is a demo contract. In production, use the RGB CLI or SDK to create actual contracts with proper validation.',
+  globals: [
+    RGB20_SPEC,
+    {
+      type: 2010,
+      name: 'issuedSupply',
+      fields: [
+        { kind: 'integer', name: 'supply', label: 'Total Supply', int: 'u64', min: 1, placeholder: '1000000', default: '1000000' },
+      ],
+    },
+  ],
+  owned: [{ type: 4000, name: 'assetOwner', kind: 'fungible', label: 'Owners', supplyField: 'supply' }],
+};
+
+export const RGB20_INFLATABLE_SCHEMA: ContractSchemaDef = {
+  name: 'InflatableFungibleAsset',
+  standard: 'RGB20',
+  title: '🪙 RGB20 Inflatable Token Builder',
+  description: 'Issue part of the supply now and keep the right to issue the rest, burn or replace tokens later',
+  note: 'Issued supply plus the inflation allowance always equals the maximum supply: '
+    + 'each secondary issuance spends allowance and can never mint past the maximum.',
+  globals: [
+    RGB20_SPEC,
+    {
+      type: 2010,
+      name: 'issuedSupply',
+      fields: [
+        {
+          kind: 'integer',
+          name: 'supply',
+          label: 'Issued Supply',
+          hint: 'Allocated to owners in genesis',
+          int: 'u64',
+          min: 1,
+          maxField: 'maxSupply',
+          placeholder: '1000000',
+          default: '1000000',
+        },
+      ],
+    },
+    {
+      type: 2011,
+      name: 'maxSupply',
+      fields: [
+        {
+          kind: 'integer',
+          name: 'maxSupply',
+          label: 'Maximum Supply',
+          hint: 'Cap on all issuances, genesis included',
+          int: 'u64',
+          min: 1,
+          placeholder: '10000000',
+          default: '10000000',
+        },
+      ],
+    },
+  ],
+  owned: [
+    { type: 4000, name: 'assetOwner', kind: 'fungible', label: 'Owners', supplyField: 'supply' },
+    {
+      type: 4010,
+      name: 'inflationAllowance',
+      kind: 'fungible',
+      label: 'Inflation Allowance',
+      hint: 'Seals allowed to issue the rest of the maximum supply',
+      supplyField: 'maxSupply',
+      issuedField: 'supply',
+    },
+    {
+      type: 4020,
+      name: 'burnRight',
+      kind: 'declarative',
+      label: 'Burn Right',
+      hint: 'Seals allowed to provably burn tokens; leave empty to forbid burning',
+    },
+    {
+      type: 4030,
+      name: 'replaceRight',
+      kind: 'declarative',
+      label: 'Replace Right',
+      hint: 'Seals allowed to burn tokens and reissue them, e.g. to consolidate history; leave empty to forbid',
+    },
+  ],
+};
+
+export const RGB21_SCHEMA: ContractSchemaDef = {
+  name: 'UniqueDigitalAsset',
+  standard: 'RGB21',
+  title: '🖼️ RGB21 NFT Builder',
+  description: 'Create unique non-fungible tokens for digital art, collectibles, and unique assets',
+  note: 'Attachments commit to file digests only: publish the files themselves (IPFS, Arweave, HTTP) '
+    + 'and anyone can check them against the contract. Embedded media travels inside every consignment.',
+  globals: [
+    {
+      type: 2000,
+      name: 'spec',
+      fields: [
+        { kind: 'string', name: 'name', label: 'NFT Name', min: 1, max: 255, placeholder: 'My Unique NFT' },
+        {
+          kind: 'string',
+          name: 'description',
+          label: 'Description',
+          min: 1,
+          max: 0xffff,
+          multiline: true,
+          placeholder: 'A unique digital artwork representing...',
+        },
+        { kind: 'string', name: 'creator', label: 'Creator', optional: true, max: 255, placeholder: 'Artist name' },
+      ],
+    },
+    {
+      type: 2020,
+      name: 'royalty',
+      fields: [
+        {
+          kind: 'decimal',
+          name: 'royalty',
+          label: 'Royalty Rate (%)',
+          hint: 'Committed in basis points',
+          int: 'u16',
+          scale: 2,
+          max: 100,
+          unit: '% on secondary sales',
+          default: '5',
+        },
+      ],
+    },
+    {
+      type: 2102,
+      name: 'tokenData',
+      fields: [
+        { kind: 'integer', name: 'index', label: 'Token Index', int: 'u32', default: '0' },
+        {
+          kind: 'media',
+          name: 'preview',
+          label: 'Preview',
+          hint: 'Embedded in the contract, e.g. a compressed thumbnail',
+          optional: true,
+          embedded: true,
+          accept: 'image/*',
+        },
+        {
+          kind: 'media',
+          name: 'media',
+          label: 'Media',
+          hint: 'Committed by SHA-256 digest; any size',
+          optional: true,
+        },
+        {
+          kind: 'list',
+          name: 'attachments',
+          label: 'Attachments',
+          max: 0xff,
+          of: [{ kind: 'media', name: 'file', label: 'File' }],
+        },
+      ],
+    },
+    {
+      type: 2103,
+      name: 'engravings',
+      fields: [
+        {
+          kind: 'list',
+          name: 'engravings',
+          label: 'Engravings',
+          hint: 'Embedded content applied to the token, e.g. a signed note from the creator',
+          max: 0xff,
+          of: [{ kind: 'media', name: 'content', label: 'Content', embedded: true }],
+        },
+      ],
+    },
+  ],
+  owned: [{ type: 4000, name: 'assetOwner', kind: 'structured' }],
+};
+
+export const RGB25_SCHEMA: ContractSchemaDef = {
+  name: 'CollectibleFungibleAsset',
+  standard: 'RGB25',
+  title: '🎮 RGB25 Collectible Builder',
+  description: 'Create collectible fungible assets like trading cards, game items, or limited editions',
+  note: 'Each item is a separately allocated token of the collection: its supply, precision, '
+    + 'attributes and media digest are fixed in genesis.',
+  globals: [
+    {
+      type: 2000,
+      name: 'spec',
+      fields: [
+        { kind: 'string', name: 'collectionName', label: 'Collection Name', min: 1, max: 40, placeholder: 'Crypto Legends' },
+        { ...TICKER, name: 'symbol', label: 'Symbol', placeholder: 'CLGD' },
+      ],
+    },
+    {
+      type: 2030,
+      name: 'items',
+      fields: [
+        {
+          kind: 'list',
+          name: 'items',
+          label: 'Collection Items',
+          min: 1,
+          max: 0xff,
+          unique: ['name'],
+          totals: ['supply'],
+          of: [
+            { kind: 'string', name: 'name', label: 'Name', min: 1, max: 40 },
+            { kind: 'integer', name: 'supply', label: 'Supply', int: 'u64', min: 1, default: '1' },
+            { kind: 'string', name: 'rarity', label: 'Rarity', min: 1, max: 40, default: 'Common' },
+            { kind: 'integer', name: 'precision', label: 'Precision', hint: 'Decimals', int: 'u8', max: 18, default: '0' },
+            { kind: 'map', name: 'attributes', label: 'Attributes', max: 16, placeholder: 'element=fire\nedition=first' },
+            { kind: 'media', name: 'media', label: 'Media', optional: true, accept: 'image/*' },
+          ],
+          default: [
+            { name: 'Common Card', supply: '1000', rarity: 'Common', attributes: 'edition=first' },
+            { name: 'Rare Card', supply: '100', rarity: 'Rare', attributes: 'edition=first' },
+            { name: 'Ultra Rare Card', supply: '10', rarity: 'Ultra Rare', attributes: 'edition=first\nfoil=holographic' },
+          ],
+        },
+      ],
+    },
+  ],
+  owned: [{ type: 4000, name: 'assetOwner', kind: 'fungible', label: 'Owners', supplyField: 'supply', itemsField: 'items' }],
+};
+
+export const BUILTIN_SCHEMAS: ContractSchemaDef[] = [RGB20_SCHEMA, RGB20_INFLATABLE_SCHEMA, RGB21_SCHEMA, RGB25_SCHEMA];
@@ -0,0 +1,58 @@
+/**
+ * Errors raised by the Playground encoders and decoders
+ * Kept apart from the codecs so that every codec module can raise them
+ */
+
+export type EncodingErrorCode =
+  | 'invalid_character'
+  | 'invalid_length'
+  | 'invalid_checksum'
+  | 'invalid_prefix'
+  | 'invalid_padding'
+  | 'invalid_format'
+  | 'mixed_case';
+
+/**
+ * Half-open character range [start, end) in the decoder input
+ */
+export interface EncodingErrorRange {
+  start: number;
+  end: number;
+}
+
+export interface EncodingErrorDetails {
+  range?: EncodingErrorRange | null;
+  /** Expected alphabet or format */
+  expected?: string | null;
+  /** How to fix the input, e.g. which look-alike character was probably meant */
+  suggestion?: string | null;
+}
+
+/**
+ * Encoding or decoding error pointing at the offending characters
+ */
+export class EncodingError extends Error {
+  readonly range: EncodingErrorRange | null;
+  readonly expected: string | null;
+  readonly suggestion: string | null;
+
+  constructor(public readonly code: EncodingErrorCode, message: string, details: EncodingErrorDetails = {}) {
+    super(message);
+    this.name = 'EncodingError';
+    this.range = details.range ?? null;
+    this.expected = details.expected ?? null;
+    this.suggestion = details.suggestion ?? null;
+  }
+
+  /**
+   * Same error with its range mapped into an enclosing string
+   */
+  relocate(map: (index: number) => number): EncodingError {
+    const range = this.range && { start: map(this.range.start), end: map(this.range.end - 1) + 1 };
+    return new EncodingError(this.code, this.message, {
+      range,
+      expected: this.expected,
+      suggestion: this.suggestion,
+    });
+  }
+}
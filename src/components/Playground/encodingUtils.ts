@@ -3,21 +3,92 @@
  * Implements BAID64, hex conversions, and hashing
  */
 
-// BAID64 character set (Base58 without similar-looking characters)
-const BAID64_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz-_';
+import { EncodingError } from './encodingError';
+import { encodeMnemonic, decodeMnemonic } from './mnemonic';
+
+export { EncodingError } from './encodingError';
+export type { EncodingErrorCode, EncodingErrorRange, EncodingErrorDetails } from './encodingError';
+
+// BAID64 character set (URL-safe radix-64, as used by the `baid64` crate)
+const BAID64_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_~';
+const BAID64_HRI_MAX_LEN = 16;
+const BAID64_CHUNK_FIRST_LEN = 8;
+const BAID64_CHUNK_LEN = 7;
 const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
 
+/**
+ * Run a decoder on part of a larger input, mapping error ranges back into it
+ */
+function relocateErrors<T>(map: (index: number) => number, fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    throw e instanceof EncodingError ? e.relocate(map) : e;
+  }
+}
+
+const CHARACTER_HINTS: [RegExp, string][] = [
+  [/[\u200b-\u200d\u2060\ufeff]/, 'Invisible zero-width character, usually inserted by a chat app; delete it'],
+  [/[\u2010-\u2015\u2212]/, 'Typographic dash, usually an autocorrected "-"; type a plain hyphen instead'],
+  [/[\u2018\u2019\u201c\u201d'"`]/, 'Quotes are not part of the value; remove them'],
+  [/\u2026/, 'The value was shortened with "…"; copy the full string'],
+  [/\s/, 'Whitespace inside the value, probably from line wrapping; remove it'],
+];
+
+function describeChar(char: string): string {
+  return /^[\x21-\x7e]$/.test(char)
+    ? `'${char}'`
+    : `U+${char.codePointAt(0).toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+function invalidCharacter(
+  encoding: string,
+  str: string,
+  index: number,
+  expected: string,
+  hint: string | null = null,
+): EncodingError {
+  const char = String.fromCodePoint(str.codePointAt(index));
+  const common = CHARACTER_HINTS.find(([re]) => re.test(char));
+  return new EncodingError('invalid_character', `Invalid ${encoding} character ${describeChar(char)}`, {
+    range: { start: index, end: index + char.length },
+    expected,
+    suggestion: common ? common[1] : hint,
+  });
+}
+
+const HEX_EXPECTED = 'hex digits 0-9, a-f (optional 0x prefix)';
+
+function hexHint(char: string): string | null {
+  if (/[oO]/.test(char)) return 'Letter O is not hex; did you mean the digit 0?';
+  if (/[lI]/.test(char)) return `Letter ${char} is not hex; did you mean the digit 1?`;
+  return null;
+}
+
 /**
  * Convert hex string to bytes
  */
 export function hexToBytes(hex: string): Uint8Array {
-  const clean = hex.replace(/^0x/, '').replace(/\s/g, '');
-  if (clean.length % 2 !== 0) {
-    throw new Error('Hex string must have even length');
+  const start = hex.startsWith('0x') ? 2 : 0;
+  const positions: number[] = [];
+  for (let i = start; i < hex.length; i++) {
+    if (/\s/.test(hex[i])) continue;
+    if (!/[0-9a-fA-F]/.test(hex[i])) {
+      throw invalidCharacter('hex', hex, i, HEX_EXPECTED, hexHint(hex[i]));
+    }
+    positions.push(i);
+  }
+  if (positions.length % 2 !== 0) {
+    const last = positions[positions.length - 1];
+    throw new EncodingError('invalid_length', `Hex string must have even length, found ${positions.length} digits`, {
+      range: { start: last, end: last + 1 },
+      expected: 'two hex digits per byte',
+      suggestion: 'One digit is missing or extra, often from an incomplete copy',
+    });
   }
-  const bytes = new Uint8Array(clean.length / 2);
-  for (let i = 0; i < clean.length; i += 2) {
-    bytes[i / 2] = parseInt(clean.substr(i, 2), 16);
+  const bytes = new Uint8Array(positions.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex[positions[2 * i]] + hex[positions[2 * i + 1]], 16);
   }
   return bytes;
 }
@@ -47,16 +118,18 @@ export function encodeBase58(bytes: Uint8Array): string {
   const size = Math.floor((bytes.length - zeros) * 138 / 100) + 1;
   const b58 = new Uint8Array(size);
 
+  // `length` tracks the digits in use so far; every one of them must absorb the carry
+  let length = 0;
   for (let i = zeros; i < bytes.length; i++) {
     let carry = bytes[i];
     let j = 0;
 
-    for (let k = size - 1; k >= 0; k--, j++) {
-      if (carry === 0 && j >= 1) break;
+    for (let k = size - 1; (carry !== 0 || j < length) && k >= 0; k--, j++) {
       carry += 256 * b58[k];
       b58[k] = carry % 58;
       carry = Math.floor(carry / 58);
     }
+    length = j;
   }
 
   // Skip leading zeros in base58 result
@@ -90,22 +163,28 @@ export function decodeBase58(str: string): Uint8Array {
   const size = Math.floor((str.length - zeros) * 733 / 1000) + 1;
   const b256 = new Uint8Array(size);
 
+  let length = 0;
   for (let i = zeros; i < str.length; i++) {
-    const char = str[i];
-    const idx = BASE58_ALPHABET.indexOf(char);
+    const idx = BASE58_ALPHABET.indexOf(str[i]);
     if (idx === -1) {
-      throw new Error(`Invalid Base58 character: ${char}`);
+      throw invalidCharacter(
+        'Base58',
+        str,
+        i,
+        'Base58 alphabet (digits 1-9 and letters, without 0, O, I and l)',
+        /[0OIl]/.test(str[i]) ? '0/O/I/l are not valid in Base58; the character was probably mistyped or mis-transcribed' : null,
+      );
     }
 
     let carry = idx;
     let j = 0;
 
-    for (let k = size - 1; k >= 0; k--, j++) {
-      if (carry === 0 && j >= 1) break;
+    for (let k = size - 1; (carry !== 0 || j < length) && k >= 0; k--, j++) {
       carry += 58 * b256[k];
       b256[k] = carry % 256;
       carry = Math.floor(carry / 256);
     }
+    length = j;
   }
 
   // Skip leading zeros
@@ -126,59 +205,438 @@ export function decodeBase58(str: string): Uint8Array {
   return result;
 }
 
+/**
+ * BAID64 formatting options, mirroring the `baid64` crate display flags
+ */
+export interface Baid64Options {
+  /** Human-readable identifier, e.g. `rgb`, `sc` or `op` */
+  hri?: string;
+  /** Prepend `hri:` to the encoded string */
+  prefix?: boolean;
+  /** Split the body into an 8-character chunk followed by 7-character chunks */
+  chunking?: boolean;
+  /** Append the 4 checksum bytes to the payload before encoding */
+  embedChecksum?: boolean;
+  /** Append the checksum as a `#word-word-word` mnemonic suffix */
+  mnemonic?: boolean;
+}
+
+/**
+ * Individual parts of a BAID64 string
+ */
+export interface Baid64Components {
+  hri: string;
+  payload: Uint8Array;
+  checksum: Uint8Array;
+  mnemonic: string;
+  /** Radix-64 body without prefix, separators or suffix */
+  body: string;
+  hasPrefix: boolean;
+  chunked: boolean;
+  embeddedChecksum: boolean;
+  hasMnemonic: boolean;
+  /** Whether the string carried a checksum (embedded or mnemonic) that was verified */
+  checksumVerified: boolean;
+}
+
+const DEFAULT_BAID64_OPTIONS: Required<Baid64Options> = {
+  hri: 'rgb',
+  prefix: false,
+  chunking: true,
+  embedChecksum: false,
+  mnemonic: false,
+};
+
+/**
+ * Compute the BAID64 checksum: first 4 bytes of SHA256(SHA256(hri) || payload)
+ */
+export function baid64Checksum(hri: string, payload: Uint8Array): Uint8Array {
+  const key = sha256Sync(new TextEncoder().encode(hri));
+  const preimage = new Uint8Array(key.length + payload.length);
+  preimage.set(key);
+  preimage.set(payload, key.length);
+  return sha256Sync(preimage).slice(0, 4);
+}
+
+/**
+ * Radix-64 encode without padding using the BAID64 alphabet
+ */
+function encodeRadix64(bytes: Uint8Array): string {
+  let result = '';
+  let acc = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    acc = ((acc << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 6) {
+      bits -= 6;
+      result += BAID64_ALPHABET[(acc >> bits) & 63];
+    }
+  }
+  if (bits > 0) {
+    result += BAID64_ALPHABET[(acc << (6 - bits)) & 63];
+  }
+  return result;
+}
+
+/**
+ * Radix-64 decode, rejecting unknown characters and non-canonical trailing bits
+ */
+function decodeRadix64(str: string): Uint8Array {
+  for (let i = 0; i < str.length; i++) {
+    if (BAID64_ALPHABET.indexOf(str[i]) === -1) {
+      throw invalidCharacter('BAID64', str, i, BAID64_EXPECTED, baid64Hint(str[i]));
+    }
+  }
+  if (str.length % 4 === 1) {
+    throw new EncodingError('invalid_length', `Invalid BAID64 length: ${str.length} characters`, {
+      range: { start: str.length - 1, end: str.length },
+      expected: 'a length that is not 1 more than a multiple of 4',
+      suggestion: 'A character is missing or extra; compare the string with its source',
+    });
+  }
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const char of str) {
+    const idx = BAID64_ALPHABET.indexOf(char);
+    acc = ((acc << 6) | idx) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+  }
+  if ((acc & ((1 << bits) - 1)) !== 0) {
+    throw new EncodingError('invalid_padding', 'Invalid BAID64 encoding: non-zero trailing bits', {
+      range: { start: str.length - 1, end: str.length },
+      expected: 'zero bits after the last whole byte',
+      suggestion: 'The last character is wrong or the string was cut short',
+    });
+  }
+  return new Uint8Array(bytes);
+}
+
+const BAID64_EXPECTED = `BAID64 alphabet ${BAID64_ALPHABET}, with "-" between chunks`;
+
+function baid64Hint(char: string): string | null {
+  if (char === '+' || char === '/') return 'Standard Base64 character; BAID64 uses _ and ~ instead of + and /';
+  if (char === '=') return 'BAID64 has no "=" padding; remove it';
+  return null;
+}
+
+/**
+ * `offset` is where the HRI starts in the decoded input, null when it comes from options
+ */
+function checkHri(hri: string, offset: number | null = null): void {
+  if (hri.length > BAID64_HRI_MAX_LEN) {
+    throw new EncodingError('invalid_prefix', `BAID64 HRI must not exceed ${BAID64_HRI_MAX_LEN} characters`, {
+      range: offset === null ? null : { start: offset, end: offset + hri.length },
+      expected: `at most ${BAID64_HRI_MAX_LEN} characters`,
+    });
+  }
+  const bad = hri.search(/[^a-z0-9]/);
+  if (bad !== -1) {
+    throw new EncodingError('invalid_prefix', `Invalid BAID64 HRI: ${hri}`, {
+      range: offset === null ? null : { start: offset + bad, end: offset + bad + 1 },
+      expected: 'lowercase letters and digits',
+      suggestion: /[A-Z]/.test(hri[bad]) ? 'HRIs are lowercase, e.g. rgb, sc, op' : null,
+    });
+  }
+}
+
+/**
+ * Compute all BAID64 components for a payload
+ */
+export function baid64Components(bytes: Uint8Array, options: Baid64Options = {}): Baid64Components {
+  const opts = { ...DEFAULT_BAID64_OPTIONS, ...options };
+  checkHri(opts.hri);
+
+  const checksum = baid64Checksum(opts.hri, bytes);
+  const data = opts.embedChecksum ? new Uint8Array([...bytes, ...checksum]) : bytes;
+
+  return {
+    hri: opts.hri,
+    payload: bytes,
+    checksum,
+    mnemonic: encodeMnemonic(checksum),
+    body: encodeRadix64(data),
+    hasPrefix: opts.prefix,
+    chunked: opts.chunking,
+    embeddedChecksum: opts.embedChecksum,
+    hasMnemonic: opts.mnemonic,
+    checksumVerified: false,
+  };
+}
+
 /**
  * Encode bytes to BAID64 format
- * BAID64 is Base58 with checksum and formatting for RGB identifiers
+ * BAID64 is radix-64 with an HRI-keyed checksum, optional prefix, chunking and mnemonic
  */
-export function encodeBaid64(bytes: Uint8Array, separators: number = 6): string {
-  const base58 = encodeBase58(bytes);
+export function encodeBaid64(bytes: Uint8Array, options: Baid64Options = {}): string {
+  const parts = baid64Components(bytes, options);
 
-  // Add separators every N characters
-  if (separators > 0) {
-    const parts: string[] = [];
-    for (let i = 0; i < base58.length; i += separators) {
-      parts.push(base58.slice(i, i + separators));
+  let body = parts.body;
+  if (parts.chunked && body.length > BAID64_CHUNK_FIRST_LEN) {
+    const chunks = [body.slice(0, BAID64_CHUNK_FIRST_LEN)];
+    for (let i = BAID64_CHUNK_FIRST_LEN; i < body.length; i += BAID64_CHUNK_LEN) {
+      chunks.push(body.slice(i, i + BAID64_CHUNK_LEN));
     }
-    return parts.join('-');
+    body = chunks.join('-');
   }
 
-  return base58;
+  const prefix = parts.hasPrefix ? `${parts.hri}:` : '';
+  const suffix = parts.hasMnemonic ? `#${parts.mnemonic}` : '';
+  return `${prefix}${body}${suffix}`;
+}
+
+function inferBaid64Length(hri: string, data: Uint8Array): number {
+  const payload = data.slice(0, -4);
+  return data.length > 4 && bytesToHex(data.slice(-4)) === bytesToHex(baid64Checksum(hri, payload))
+    ? payload.length
+    : data.length;
+}
+
+/**
+ * Parse a BAID64 string into its components, verifying any checksum it carries
+ *
+ * `hri` is required to verify strings without a prefix; `length` is the expected
+ * payload size and tells an embedded checksum apart from payload bytes. With
+ * `length: null` the size is inferred: trailing 4 bytes that match the checksum
+ * of the rest are an embedded checksum, otherwise everything is payload.
+ */
+export function parseBaid64(
+  baid64: string,
+  options: { hri?: string; length?: number | null } = {},
+): Baid64Components {
+  let offset = baid64.length - baid64.trimStart().length;
+  let rest = baid64.trim();
+
+  let hri = options.hri ?? DEFAULT_BAID64_OPTIONS.hri;
+  let hasPrefix = false;
+  const colon = rest.lastIndexOf(':');
+  if (colon !== -1) {
+    const found = rest.slice(0, colon);
+    if (options.hri !== undefined && found !== options.hri) {
+      throw new EncodingError('invalid_prefix', `Invalid BAID64 HRI: expected ${options.hri}, found ${found}`, {
+        range: { start: offset, end: offset + colon },
+        expected: `${options.hri}:`,
+      });
+    }
+    checkHri(found, offset);
+    hri = found;
+    hasPrefix = true;
+    rest = rest.slice(colon + 1);
+    offset += colon + 1;
+  }
+
+  let mnemonicChecksum: Uint8Array | null = null;
+  const hash = rest.indexOf('#');
+  const mnemonicRange = { start: offset + hash + 1, end: offset + rest.length };
+  if (hash !== -1) {
+    mnemonicChecksum = relocateErrors(i => i + mnemonicRange.start, () => decodeMnemonic(rest.slice(hash + 1)));
+    rest = rest.slice(0, hash);
+  }
+
+  const chunked = rest.includes('-');
+  const positions: number[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] !== '-') positions.push(offset + i);
+  }
+  const body = rest.replace(/-/g, '');
+  const bodyRange = { start: offset, end: offset + rest.length };
+  const data = relocateErrors(i => positions[i], () => decodeRadix64(body));
+  const length = options.length === null ? inferBaid64Length(hri, data) : options.length ?? 32;
+  if (data.length !== length && data.length !== length + 4) {
+    throw new EncodingError(
+      'invalid_length',
+      `Invalid BAID64 payload length: expected ${length} bytes, found ${data.length}`,
+      {
+        range: bodyRange,
+        expected: `${length} bytes, or ${length + 4} with an embedded checksum`,
+        suggestion: data.length < length ? 'The string looks truncated; copy it again in full' : null,
+      },
+    );
+  }
+
+  const payload = data.slice(0, length);
+  const embedded = data.length === length + 4 ? data.slice(length) : null;
+  const checksum = baid64Checksum(hri, payload);
+
+  const sources = [['embedded', embedded, bodyRange], ['mnemonic', mnemonicChecksum, mnemonicRange]] as const;
+  for (const [source, given, range] of sources) {
+    if (given && bytesToHex(given) !== bytesToHex(checksum)) {
+      throw new EncodingError(
+        'invalid_checksum',
+        `BAID64 ${source} checksum mismatch: expected ${bytesToHex(checksum)}, found ${bytesToHex(given)}`,
+        {
+          range,
+          suggestion: 'At least one character differs from the original; check for look-alikes such as I/l/1 and O/0',
+        },
+      );
+    }
+  }
+
+  return {
+    hri,
+    payload,
+    checksum,
+    mnemonic: encodeMnemonic(checksum),
+    body,
+    hasPrefix,
+    chunked,
+    embeddedChecksum: embedded !== null,
+    hasMnemonic: mnemonicChecksum !== null,
+    checksumVerified: embedded !== null || mnemonicChecksum !== null,
+  };
 }
 
 /**
  * Decode BAID64 to bytes
  */
-export function decodeBaid64(baid64: string): Uint8Array {
-  // Remove separators
-  const clean = baid64.replace(/-/g, '');
-  return decodeBase58(clean);
+export function decodeBaid64(baid64: string, options: { hri?: string; length?: number | null } = {}): Uint8Array {
+  return parseBaid64(baid64, options).payload;
 }
 
 /**
- * Parse RGB invoice/contract ID format
- * Format: rgb:BAID64 or rgbXX:BAID64
+ * Parse RGB contract, schema, operation or other HRI-prefixed BAID64 identifier
+ * Format: hri:BAID64[#mnemonic], e.g. rgb:..., sc:..., op:...
  */
 export function parseRgbId(id: string): {
   prefix: string;
   baid64: string;
   bytes: Uint8Array;
+  components: Baid64Components;
 } {
-  const match = id.match(/^(rgb\d*):(.+)$/);
+  const match = id.trim().match(/^([a-z][a-z0-9]{0,15}):(.+)$/);
   if (!match) {
-    throw new Error('Invalid RGB ID format. Expected rgb:... or rgbXX:...');
+    throw new EncodingError('invalid_format', 'Invalid RGB ID format. Expected hri:... (e.g. rgb:..., sc:..., op:...)', {
+      expected: 'hri:BAID64[#mnemonic]',
+      suggestion: /^[A-Z]/.test(id.trim()) ? 'The prefix must be lowercase' : null,
+    });
   }
 
   const [, prefix, baid64] = match;
-  const bytes = decodeBaid64(baid64);
+  const components = parseBaid64(id, { hri: prefix });
 
-  return { prefix, baid64, bytes };
+  return { prefix, baid64, bytes: components.payload, components };
 }
 
 /**
  * Format bytes as RGB contract ID
  */
 export function formatContractId(bytes: Uint8Array): string {
-  return `rgb:${encodeBaid64(bytes)}`;
+  return encodeBaid64(bytes, { hri: 'rgb', prefix: true });
+}
+
+// SHA-256 round constants
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Incremental SHA-256 (pure TypeScript)
+ * Web Crypto only hashes whole buffers; this takes input in chunks, e.g. slices of a large file
+ */
+export class Sha256 {
+  private readonly h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private readonly w = new Uint32Array(64);
+  private readonly block = new Uint8Array(64);
+  private readonly blockView = new DataView(this.block.buffer);
+  private buffered = 0;
+  private length = 0;
+
+  update(data: Uint8Array): this {
+    let pos = 0;
+    this.length += data.length;
+    if (this.buffered > 0) {
+      pos = Math.min(64 - this.buffered, data.length);
+      this.block.set(data.subarray(0, pos), this.buffered);
+      this.buffered += pos;
+      if (this.buffered < 64) return this;
+      this.compress(this.blockView, 0);
+      this.buffered = 0;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (; pos + 64 <= data.length; pos += 64) this.compress(view, pos);
+    this.block.set(data.subarray(pos));
+    this.buffered = data.length - pos;
+    return this;
+  }
+
+  digest(): Uint8Array {
+    // Pad: 0x80, zeros, then 64-bit big-endian bit length
+    const length = this.length;
+    const padding = new Uint8Array(((this.buffered + 9 + 63) & ~63) - this.buffered);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(length / 0x20000000));
+    view.setUint32(padding.length - 4, (length << 3) >>> 0);
+    this.update(padding);
+
+    const out = new Uint8Array(32);
+    const outView = new DataView(out.buffer);
+    this.h.forEach((word, i) => outView.setUint32(i * 4, word));
+    return out;
+  }
+
+  private compress(view: DataView, offset: number): void {
+    const { h, w } = this;
+    const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+}
+
+/**
+ * Synchronous SHA-256 (pure TypeScript)
+ * Needed where a checksum must be computed inline, e.g. BAID64 display
+ */
+export function sha256Sync(data: Uint8Array): Uint8Array {
+  return new Sha256().update(data).digest();
 }
 
 /**
@@ -198,6 +656,179 @@ export async function commitmentHash(data: Uint8Array): Promise<Uint8Array> {
   return hash2;
 }
 
+/**
+ * Whether parsed JSON is an object, as opposed to null, an array or a primitive
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lexicographic byte order, shorter arrays first on a common prefix
+ */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Bitcoin CompactSize (varint) length prefix
+ */
+export function encodeCompactSize(value: number): Uint8Array {
+  if (value < 0xfd) return new Uint8Array([value]);
+  if (value <= 0xffff) return new Uint8Array([0xfd, value & 0xff, value >>> 8]);
+  const out = new Uint8Array(5);
+  out[0] = 0xfe;
+  new DataView(out.buffer).setUint32(1, value, true);
+  return out;
+}
+
+/**
+ * Intermediate values of a BIP-340 tagged hash
+ */
+export interface TaggedHashSteps {
+  tagHash: Uint8Array;
+  preimage: Uint8Array;
+  hash: Uint8Array;
+}
+
+/**
+ * BIP-340 tagged hash with all intermediate steps:
+ * SHA256(SHA256(tag) || SHA256(tag) || data)
+ */
+export function taggedHashSteps(tag: string, data: Uint8Array): TaggedHashSteps {
+  const tagHash = sha256Sync(new TextEncoder().encode(tag));
+  const preimage = concatBytes(tagHash, tagHash, data);
+  return { tagHash, preimage, hash: sha256Sync(preimage) };
+}
+
+/**
+ * BIP-340 tagged hash, e.g. for `urn:lnp-bp:...` and `urn:ubideco:...` tags
+ */
+export function taggedHash(tag: string, data: Uint8Array): Uint8Array {
+  return taggedHashSteps(tag, data).hash;
+}
+
+// RIPEMD-160 message word selection and rotation amounts (left and right lines)
+const RMD_R = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+  7, 4, 13, 1, 10, 6, 15, 3, 12, 0, 9, 5, 2, 14, 11, 8,
+  3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11, 5, 12,
+  1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2,
+  4, 0, 5, 9, 7, 12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13,
+];
+const RMD_RP = [
+  5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12,
+  6, 11, 3, 7, 0, 13, 5, 10, 14, 15, 8, 12, 4, 9, 1, 2,
+  15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0, 4, 13,
+  8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14,
+  12, 15, 10, 4, 1, 5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11,
+];
+const RMD_S = [
+  11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8,
+  7, 6, 8, 13, 11, 9, 7, 15, 7, 12, 15, 9, 11, 7, 13, 12,
+  11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5, 12, 7, 5,
+  11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12,
+  9, 15, 5, 11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6,
+];
+const RMD_SP = [
+  8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6,
+  9, 13, 15, 7, 12, 8, 9, 11, 7, 7, 12, 7, 6, 15, 13, 11,
+  9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14, 13, 13, 7, 5,
+  15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8,
+  8, 5, 12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11,
+];
+const RMD_K = [0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc, 0xa953fd4e];
+const RMD_KP = [0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x7a6d76e9, 0x00000000];
+
+function rmdF(round: number, x: number, y: number, z: number): number {
+  switch (round) {
+    case 0: return x ^ y ^ z;
+    case 1: return (x & y) | (~x & z);
+    case 2: return (x | ~y) ^ z;
+    case 3: return (x & z) | (y & ~z);
+    default: return x ^ (y | ~z);
+  }
+}
+
+/**
+ * RIPEMD-160 (pure TypeScript)
+ */
+export function ripemd160(data: Uint8Array): Uint8Array {
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+
+  // Pad: 0x80, zeros, then 64-bit little-endian bit length
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length << 3) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+  const x = new Array<number>(16);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      x[i] = view.getUint32(offset + i * 4, true);
+    }
+
+    let [al, bl, cl, dl, el] = h;
+    let [ar, br, cr, dr, er] = h;
+    for (let j = 0; j < 80; j++) {
+      const round = Math.floor(j / 16);
+      let t = (rotl((al + rmdF(round, bl, cl, dl) + x[RMD_R[j]] + RMD_K[round]) | 0, RMD_S[j]) + el) | 0;
+      al = el;
+      el = dl;
+      dl = rotl(cl, 10);
+      cl = bl;
+      bl = t;
+
+      t = (rotl((ar + rmdF(4 - round, br, cr, dr) + x[RMD_RP[j]] + RMD_KP[round]) | 0, RMD_SP[j]) + er) | 0;
+      ar = er;
+      er = dr;
+      dr = rotl(cr, 10);
+      cr = br;
+      br = t;
+    }
+
+    const t = (h[1] + cl + dr) | 0;
+    h[1] = (h[2] + dl + er) | 0;
+    h[2] = (h[3] + el + ar) | 0;
+    h[3] = (h[4] + al + br) | 0;
+    h[4] = (h[0] + bl + cr) | 0;
+    h[0] = t;
+  }
+
+  const out = new Uint8Array(20);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word >>> 0, true));
+  return out;
+}
+
+/**
+ * HASH160: RIPEMD160(SHA256(data)), used for Bitcoin key and script hashes
+ */
+export function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256Sync(data));
+}
+
 /**
  * Format bytes as human-readable size
  */
@@ -216,20 +847,280 @@ export function isValidHex(str: string): boolean {
 }
 
 /**
- * Validate BAID64 string
+ * Validate BAID64 string (alphabet only; use parseBaid64 to verify checksums)
  */
 export function isValidBaid64(str: string): boolean {
-  const clean = str.replace(/-/g, '');
-  return /^[1-9A-HJ-NP-Za-km-z]+$/.test(clean);
+  const clean = str.replace(/^[a-z0-9]+:/, '').replace(/#[a-z-]+$/, '').replace(/-/g, '');
+  return /^[0-9A-Za-z_~]+$/.test(clean);
+}
+
+/**
+ * Content-derived RGB identifier kinds
+ */
+export type RgbIdKind = 'contract' | 'schema' | 'interface' | 'operation';
+
+/**
+ * Human-readable identifier each kind of ID is displayed with
+ */
+export const RGB_ID_HRI: Record<RgbIdKind, string> = {
+  contract: 'rgb',
+  schema: 'sc',
+  interface: 'if',
+  operation: 'op',
+};
+
+/**
+ * Tagged hash tag each kind of ID commits with
+ */
+export const RGB_ID_TAGS: Record<RgbIdKind, string> = {
+  contract: 'urn:lnp-bp:rgb:contract-id#2024-02-03',
+  schema: 'urn:lnp-bp:rgb:schema#2024-02-03',
+  interface: 'urn:lnp-bp:rgb:interface#2024-02-03',
+  operation: 'urn:lnp-bp:rgb:operation#2024-02-03',
+};
+
+/**
+ * State committed to by a genesis or state transition
+ *
+ * Global state and assignments are keyed by their u16 type id. Values are the
+ * already-serialized state (and seal) bytes, committed as length-prefixed blobs.
+ */
+export interface OperationState {
+  metadata: Uint8Array;
+  globals: Record<number, Uint8Array>;
+  assignments: Record<number, Uint8Array[]>;
+  valencies: number[];
+}
+
+export interface GenesisCommitment extends OperationState {
+  schemaId: Uint8Array;
+}
+
+export interface TransitionCommitment extends OperationState {
+  contractId: Uint8Array;
+  transitionType: number;
+}
+
+/**
+ * Byte range of one field in a serialized commitment
+ */
+export interface CommitmentField {
+  name: string;
+  offset: number;
+  length: number;
+  value: string;
+  depth: number;
+}
+
+/**
+ * Identifier together with the data it commits to
+ */
+export interface RgbIdCommitment {
+  kind: RgbIdKind;
+  /** Serialized commitment: the tagged hash preimage without the tag hashes */
+  bytes: Uint8Array;
+  fields: CommitmentField[];
+  id: Uint8Array;
+  /** `hri:` prefixed BAID64 with checksum mnemonic */
+  formatted: string;
+}
+
+/**
+ * Consensus-encoding writer that records the byte range of every field
+ */
+class CommitmentWriter {
+  private parts: Uint8Array[] = [];
+  length = 0;
+  fields: CommitmentField[] = [];
+
+  write(name: string, depth: number, bytes: Uint8Array, value: string): void {
+    this.fields.push({ name, offset: this.length, length: bytes.length, value, depth });
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+
+  /** Record a field spanning its parts; call the returned function after writing them */
+  group(name: string, depth: number, value: string): () => void {
+    const field = { name, offset: this.length, length: 0, value, depth };
+    this.fields.push(field);
+    return () => {
+      field.length = this.length - field.offset;
+    };
+  }
+
+  u16(name: string, depth: number, value: number): void {
+    if (!Number.isInteger(value) || value < 0 || value > 0xffff) {
+      throw new EncodingError('invalid_format', `${name} must be a u16 (0-65535), got ${value}`);
+    }
+    this.write(name, depth, new Uint8Array([value & 0xff, value >>> 8]), String(value));
+  }
+
+  count(name: string, depth: number, value: number): void {
+    this.write(name, depth, encodeCompactSize(value), String(value));
+  }
+
+  /** VarInt length followed by the bytes */
+  blob(name: string, depth: number, bytes: Uint8Array): void {
+    this.count(`${name} length`, depth, bytes.length);
+    if (bytes.length > 0) this.write(name, depth, bytes, bytesToHex(bytes));
+  }
+
+  id(name: string, bytes: Uint8Array, kind: RgbIdKind): void {
+    if (bytes.length !== 32) {
+      throw new EncodingError('invalid_length', `${name} must be 32 bytes, got ${bytes.length}`);
+    }
+    this.write(name, 0, bytes, formatRgbId(kind, bytes));
+  }
+
+  finish(): { bytes: Uint8Array; fields: CommitmentField[] } {
+    return { bytes: concatBytes(...this.parts), fields: this.fields };
+  }
+}
+
+/**
+ * Map keys in ascending numeric order, as a BTreeMap iterates them
+ */
+function sortedKeys(map: Record<number, unknown>): number[] {
+  return Object.keys(map).map(Number).sort((a, b) => a - b);
+}
+
+function writeOperationState(writer: CommitmentWriter, state: OperationState): void {
+  writer.blob('metadata', 0, state.metadata);
+
+  const globalTypes = sortedKeys(state.globals);
+  const endGlobals = writer.group('globals', 0, `${globalTypes.length} types`);
+  writer.count('global type count', 1, globalTypes.length);
+  for (const type of globalTypes) {
+    writer.u16('global type', 1, type);
+    writer.blob(`global ${type}`, 1, state.globals[type]);
+  }
+  endGlobals();
+
+  const assignmentTypes = sortedKeys(state.assignments);
+  const endAssignments = writer.group('assignments', 0, `${assignmentTypes.length} types`);
+  writer.count('assignment type count', 1, assignmentTypes.length);
+  for (const type of assignmentTypes) {
+    const assignments = state.assignments[type];
+    writer.u16('assignment type', 1, type);
+    writer.count(`assignment ${type} count`, 1, assignments.length);
+    assignments.forEach((assignment, idx) => writer.blob(`assignment ${type}[${idx}]`, 2, assignment));
+  }
+  endAssignments();
+
+  // A set: duplicates collapse and members are written in order
+  const valencies = Array.from(new Set(state.valencies)).sort((a, b) => a - b);
+  const endValencies = writer.group('valencies', 0, `${valencies.length} valencies`);
+  writer.count('valency count', 1, valencies.length);
+  valencies.forEach(valency => writer.u16('valency', 1, valency));
+  endValencies();
+}
+
+/**
+ * Consensus-encode a genesis: schema ID followed by the committed state
+ */
+export function serializeGenesis(genesis: GenesisCommitment): { bytes: Uint8Array; fields: CommitmentField[] } {
+  const writer = new CommitmentWriter();
+  writer.id('schema_id', genesis.schemaId, 'schema');
+  writeOperationState(writer, genesis);
+  return writer.finish();
+}
+
+/**
+ * Consensus-encode a state transition in the field order of `Transition::consensus_encode`
+ */
+export function serializeTransition(transition: TransitionCommitment): { bytes: Uint8Array; fields: CommitmentField[] } {
+  const writer = new CommitmentWriter();
+  writer.id('contract_id', transition.contractId, 'contract');
+  writer.u16('transition_type', 0, transition.transitionType);
+  writeOperationState(writer, transition);
+  return writer.finish();
 }
 
 /**
- * Generate example contract ID
+ * Display form of an identifier: `hri:` prefixed, chunked BAID64 with mnemonic
+ */
+export function formatRgbId(kind: RgbIdKind, id: Uint8Array): string {
+  return encodeBaid64(id, { hri: RGB_ID_HRI[kind], prefix: true, mnemonic: true });
+}
+
+function commitId(kind: RgbIdKind, serialized: { bytes: Uint8Array; fields: CommitmentField[] }): RgbIdCommitment {
+  const id = taggedHash(RGB_ID_TAGS[kind], serialized.bytes);
+  return { kind, ...serialized, id, formatted: formatRgbId(kind, id) };
+}
+
+/**
+ * Schema ID: tagged hash of the serialized schema definition
+ */
+export function computeSchemaId(definition: Uint8Array): RgbIdCommitment {
+  return commitId('schema', {
+    bytes: definition,
+    fields: [{ name: 'schema definition', offset: 0, length: definition.length, value: '', depth: 0 }],
+  });
+}
+
+/**
+ * Interface ID: tagged hash of the serialized interface definition
+ */
+export function computeInterfaceId(definition: Uint8Array): RgbIdCommitment {
+  return commitId('interface', {
+    bytes: definition,
+    fields: [{ name: 'interface definition', offset: 0, length: definition.length, value: '', depth: 0 }],
+  });
+}
+
+/**
+ * Contract ID: tagged hash of the consensus-encoded genesis
+ */
+export function computeContractId(genesis: GenesisCommitment): RgbIdCommitment {
+  return commitId('contract', serializeGenesis(genesis));
+}
+
+/**
+ * Operation ID: tagged hash of the consensus-encoded state transition
+ */
+export function computeOperationId(transition: TransitionCommitment): RgbIdCommitment {
+  return commitId('operation', serializeTransition(transition));
+}
+
+/**
+ * Minimal fungible asset schema; examples commit to its UTF-8 bytes
+ */
+export const EXAMPLE_SCHEMA_DEFINITION = 'schema NonInflatableAsset\n'
+  + '  global spec: RGBContract.AssetSpec\n'
+  + '  global issuedSupply: RGBContract.Amount\n'
+  + '  owned assetOwner: Fungible\n'
+  + '  genesis: spec, issuedSupply -> assetOwner*\n'
+  + '  transition transfer: assetOwner+ -> assetOwner+\n';
+
+/**
+ * Example genesis of a 1,000,000-unit asset under the example schema
+ */
+export function exampleGenesis(metadata: Uint8Array = new Uint8Array(0)): GenesisCommitment {
+  return {
+    schemaId: computeSchemaId(new TextEncoder().encode(EXAMPLE_SCHEMA_DEFINITION)).id,
+    metadata,
+    globals: {
+      // AssetSpec { ticker: "TUSD", name: "Test USD", details: None, precision: centiMicro }
+      2000: hexToBytes('04545553440854657374205553440008'),
+      // Amount 1,000,000 as u64
+      2010: hexToBytes('40420f0000000000'),
+    },
+    assignments: {
+      // Concealed seal followed by the amount it receives
+      4000: [hexToBytes(`${'11'.repeat(32)}40420f0000000000`)],
+    },
+    valencies: [],
+  };
+}
+
+/**
+ * Generate example contract ID from an example genesis
+ * Random metadata makes every call commit to a different genesis.
  */
 export function generateExampleContractId(): string {
-  const randomBytes = new Uint8Array(32);
-  crypto.getRandomValues(randomBytes);
-  return formatContractId(randomBytes);
+  const metadata = new Uint8Array(8);
+  crypto.getRandomValues(metadata);
+  return computeContractId(exampleGenesis(metadata)).formatted;
 }
 
 /**
@@ -265,7 +1156,30 @@ export function encodeBase64(bytes: Uint8Array): string {
  */
 export function decodeBase64(str: string): Uint8Array {
   const base64chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
-  const clean = str.replace(/[^A-Za-z0-9+/=]/g, '');
+  const positions: number[] = [];
+  for (let i = 0; i < str.length; i++) {
+    if (/\s/.test(str[i])) continue;
+    if (!/[A-Za-z0-9+/=]/.test(str[i])) {
+      throw invalidCharacter(
+        'Base64',
+        str,
+        i,
+        'Base64 alphabet A-Z, a-z, 0-9, +, / with = padding',
+        str[i] === '-' || str[i] === '_' ? 'URL-safe Base64 is not supported; use + and / instead of - and _' : null,
+      );
+    }
+    positions.push(i);
+  }
+  const clean = positions.map(i => str[i]).join('');
+  const padding = clean.indexOf('=');
+  if (clean.length % 4 !== 0 || (padding !== -1 && padding < clean.length - 2) || /=[^=]/.test(clean)) {
+    const at = padding !== -1 && padding < clean.length - 2 ? padding : clean.length - 1;
+    throw new EncodingError('invalid_padding', `Invalid Base64 length or padding: ${clean.length} characters`, {
+      range: clean.length > 0 ? { start: positions[at], end: positions[at] + 1 } : null,
+      expected: 'groups of 4 characters, with up to two = at the end',
+      suggestion: 'The string was probably cut short while copying',
+    });
+  }
   const len = clean.length;
   const bytes = new Uint8Array((len * 3) / 4);
   let byteIndex = 0;
@@ -289,21 +1203,339 @@ export function decodeBase64(str: string): Uint8Array {
  */
 const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
 
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+const BECH32_MAX_LENGTH = 90;
+
+export type Bech32Variant = 'bech32' | 'bech32m';
+
+/**
+ * Decoded Bech32/Bech32m string
+ */
+export interface Bech32Decoded {
+  hrp: string;
+  variant: Bech32Variant;
+  /** 5-bit data words, excluding the checksum */
+  words: number[];
+  checksum: string;
+}
+
+/**
+ * Decoded SegWit address (BIP-173 / BIP-350)
+ */
+export interface SegwitAddress {
+  hrp: string;
+  /** `tb` is shared by testnet and signet */
+  network: 'mainnet' | 'testnet' | 'regtest' | 'unknown';
+  witnessVersion: number;
+  program: Uint8Array;
+  variant: Bech32Variant;
+}
+
+function bech32Polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = (((chk & 0x1ffffff) << 5) ^ value) >>> 0;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk = (chk ^ generator[i]) >>> 0;
+    }
+  }
+  return chk;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < hrp.length; i++) result.push(hrp.charCodeAt(i) >> 5);
+  result.push(0);
+  for (let i = 0; i < hrp.length; i++) result.push(hrp.charCodeAt(i) & 31);
+  return result;
+}
+
+function bech32Const(variant: Bech32Variant): number {
+  return variant === 'bech32' ? BECH32_CONST : BECH32M_CONST;
+}
+
+function bech32CreateChecksum(hrp: string, words: number[], variant: Bech32Variant): number[] {
+  const values = [...bech32HrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0];
+  const mod = (bech32Polymod(values) ^ bech32Const(variant)) >>> 0;
+  const result: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    result.push((mod >>> (5 * (5 - i))) & 31);
+  }
+  return result;
+}
+
+function bech32VerifyChecksum(hrp: string, words: number[]): Bech32Variant | null {
+  const check = bech32Polymod([...bech32HrpExpand(hrp), ...words]);
+  if (check === BECH32_CONST) return 'bech32';
+  if (check === BECH32M_CONST) return 'bech32m';
+  return null;
+}
+
+const BECH32_EXPECTED = `Bech32 data characters ${BECH32_CHARSET} (no 1, b, i or o)`;
+
+function checkBech32Hrp(hrp: string): void {
+  if (hrp.length < 1 || hrp.length > 83) {
+    throw new EncodingError('invalid_prefix', `Invalid Bech32 HRP length: ${hrp.length} (must be 1-83)`, {
+      range: hrp.length > 0 ? { start: 0, end: hrp.length } : null,
+      expected: 'a 1-83 character prefix such as bc, tb or bcrt',
+    });
+  }
+  for (let i = 0; i < hrp.length; i++) {
+    const code = hrp.charCodeAt(i);
+    if (code < 33 || code > 126) {
+      throw new EncodingError('invalid_prefix', `Invalid Bech32 HRP character ${describeChar(hrp[i])}`, {
+        range: { start: i, end: i + 1 },
+        expected: 'printable ASCII characters',
+        suggestion: CHARACTER_HINTS.find(([re]) => re.test(hrp[i]))?.[1] ?? null,
+      });
+    }
+  }
+}
+
+/**
+ * Encode 5-bit words to a Bech32 or Bech32m string
+ */
+export function encodeBech32Words(
+  hrp: string,
+  words: number[],
+  variant: Bech32Variant = 'bech32',
+): string {
+  checkBech32Hrp(hrp);
+  if (hrp !== hrp.toLowerCase() && hrp !== hrp.toUpperCase()) {
+    throw new EncodingError('mixed_case', 'Bech32 HRP must not be mixed case', {
+      range: { start: 0, end: hrp.length },
+      expected: 'all lowercase or all uppercase',
+    });
+  }
+  const lowerHrp = hrp.toLowerCase();
+  const combined = [...words, ...bech32CreateChecksum(lowerHrp, words, variant)];
+  const result = lowerHrp + '1' + combined.map(w => BECH32_CHARSET[w]).join('');
+  if (result.length > BECH32_MAX_LENGTH) {
+    throw new EncodingError(
+      'invalid_length',
+      `Bech32 string too long: ${result.length} characters (max ${BECH32_MAX_LENGTH})`,
+      { expected: `at most ${BECH32_MAX_LENGTH} characters` },
+    );
+  }
+  return result;
+}
+
 /**
- * Encode bytes to Bech32 (simplified, without checksum for demo)
+ * Encode bytes to Bech32 (BIP-173) or Bech32m (BIP-350)
  */
-export function encodeBech32(hrp: string, bytes: Uint8Array): string {
+export function encodeBech32(hrp: string, bytes: Uint8Array, variant: Bech32Variant = 'bech32'): string {
   // Convert 8-bit bytes to 5-bit groups
   const words = convertBits(Array.from(bytes), 8, 5, true);
-  if (!words) throw new Error('Invalid bytes for Bech32 encoding');
+  if (!words) throw new EncodingError('invalid_format', 'Invalid bytes for Bech32 encoding');
+  return encodeBech32Words(hrp, words, variant);
+}
 
-  // Encode to bech32 characters
-  let result = hrp + '1';
-  for (const word of words) {
-    result += BECH32_CHARSET[word];
+/**
+ * Find positions where substituting a single character yields a valid checksum
+ */
+function locateBech32Error(hrp: string, words: number[], dataOffset: number): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const original = words[i];
+    for (let candidate = 0; candidate < 32; candidate++) {
+      if (candidate === original) continue;
+      words[i] = candidate;
+      if (bech32VerifyChecksum(hrp, words)) {
+        positions.push(dataOffset + i);
+        break;
+      }
+    }
+    words[i] = original;
   }
+  return positions;
+}
 
-  return result;
+/**
+ * The single-character correction that makes a checksum valid, for error suggestions
+ */
+function correctBech32Char(hrp: string, words: number[], index: number): string {
+  const original = words[index];
+  for (let candidate = 0; candidate < 32; candidate++) {
+    words[index] = candidate;
+    if (candidate !== original && bech32VerifyChecksum(hrp, words)) {
+      words[index] = original;
+      return BECH32_CHARSET[candidate];
+    }
+  }
+  words[index] = original;
+  return BECH32_CHARSET[original];
+}
+
+/**
+ * Decode and verify a Bech32 or Bech32m string
+ */
+export function decodeBech32(str: string, limit: number = BECH32_MAX_LENGTH): Bech32Decoded {
+  if (str.length > limit) {
+    throw new EncodingError('invalid_length', `Bech32 string too long: ${str.length} characters (max ${limit})`, {
+      range: { start: limit, end: str.length },
+      expected: `at most ${limit} characters`,
+    });
+  }
+  if (str !== str.toLowerCase() && str !== str.toUpperCase()) {
+    const lowerCount = (str.match(/[a-z]/g) ?? []).length;
+    const upperCount = (str.match(/[A-Z]/g) ?? []).length;
+    const minority = str.search(lowerCount < upperCount ? /[a-z]/ : /[A-Z]/);
+    throw new EncodingError('mixed_case', 'Bech32 string must not be mixed case', {
+      range: { start: minority, end: minority + 1 },
+      expected: 'all lowercase or all uppercase',
+      suggestion: 'Bech32 is case-insensitive but must not mix cases; convert the whole string to lowercase',
+    });
+  }
+
+  const lower = str.toLowerCase();
+  const sep = lower.lastIndexOf('1');
+  if (sep === -1) {
+    throw new EncodingError('invalid_format', 'Bech32 separator "1" not found', {
+      expected: '<hrp>1<data><6-character checksum>',
+    });
+  }
+  if (lower.length - sep - 1 < 6) {
+    throw new EncodingError('invalid_length', 'Bech32 checksum too short', {
+      range: { start: sep + 1, end: lower.length },
+      expected: 'at least 6 characters after the last "1"',
+      suggestion: 'The string looks truncated; copy it again in full',
+    });
+  }
+
+  const hrp = lower.slice(0, sep);
+  checkBech32Hrp(hrp);
+
+  const words: number[] = [];
+  for (let i = sep + 1; i < lower.length; i++) {
+    const idx = BECH32_CHARSET.indexOf(lower[i]);
+    if (idx === -1) {
+      throw invalidCharacter(
+        'Bech32',
+        str,
+        i,
+        BECH32_EXPECTED,
+        /[bio]/.test(lower[i]) ? '1, b, i and o are excluded from Bech32 data as look-alikes' : null,
+      );
+    }
+    words.push(idx);
+  }
+
+  const variant = bech32VerifyChecksum(hrp, words);
+  if (!variant) {
+    const positions = locateBech32Error(hrp, words, sep + 1);
+    const where = positions.length > 0
+      ? 'likely a single wrong character'
+      : 'more than one character is wrong';
+    throw new EncodingError('invalid_checksum', `Invalid Bech32 checksum: ${where}`, {
+      range: positions.length > 0
+        ? { start: positions[0], end: positions[positions.length - 1] + 1 }
+        : { start: sep + 1, end: lower.length },
+      suggestion: positions.length === 1
+        ? `Replace '${str[positions[0]]}' with '${correctBech32Char(hrp, words, positions[0] - sep - 1)}'`
+        : null,
+    });
+  }
+
+  return {
+    hrp,
+    variant,
+    words: words.slice(0, -6),
+    checksum: lower.slice(-6),
+  };
+}
+
+/**
+ * Convert decoded 5-bit Bech32 words back to bytes
+ */
+export function bech32WordsToBytes(words: number[]): Uint8Array {
+  const bytes = convertBits(words, 5, 8, false);
+  if (!bytes) {
+    throw new EncodingError('invalid_padding', 'Invalid Bech32 data padding', {
+      expected: 'at most 4 zero padding bits',
+    });
+  }
+  return new Uint8Array(bytes);
+}
+
+function segwitNetwork(hrp: string): SegwitAddress['network'] {
+  switch (hrp) {
+    case 'bc': return 'mainnet';
+    case 'tb': return 'testnet';
+    case 'bcrt': return 'regtest';
+    default: return 'unknown';
+  }
+}
+
+/**
+ * Encode a SegWit address; v0 uses Bech32, v1+ (taproot) uses Bech32m
+ */
+export function encodeSegwitAddress(hrp: string, witnessVersion: number, program: Uint8Array): string {
+  const words = convertBits(Array.from(program), 8, 5, true);
+  if (!words) throw new EncodingError('invalid_format', 'Invalid witness program');
+  const address = encodeBech32Words(hrp, [witnessVersion, ...words], witnessVersion === 0 ? 'bech32' : 'bech32m');
+  decodeSegwitAddress(address);
+  return address;
+}
+
+/**
+ * Decode and validate a SegWit v0 or taproot (v1+) address
+ */
+export function decodeSegwitAddress(address: string): SegwitAddress {
+  const decoded = decodeBech32(address);
+  const dataStart = decoded.hrp.length + 1;
+  const programRange = { start: dataStart + 1, end: address.length - 6 };
+  if (decoded.words.length < 1) {
+    throw new EncodingError('invalid_format', 'SegWit address has no witness version', {
+      expected: 'a witness version character after the separator',
+    });
+  }
+
+  const [witnessVersion, ...programWords] = decoded.words;
+  const versionRange = { start: dataStart, end: dataStart + 1 };
+  if (witnessVersion > 16) {
+    throw new EncodingError('invalid_format', `Invalid witness version: ${witnessVersion}`, {
+      range: versionRange,
+      expected: 'witness version 0-16 (q for v0, p for v1)',
+    });
+  }
+  const expected: Bech32Variant = witnessVersion === 0 ? 'bech32' : 'bech32m';
+  if (decoded.variant !== expected) {
+    throw new EncodingError(
+      'invalid_checksum',
+      `Witness version ${witnessVersion} requires ${expected}, found ${decoded.variant}`,
+      {
+        range: { start: address.length - 6, end: address.length },
+        expected: `${expected} checksum`,
+        suggestion: 'The address was produced by software using the wrong checksum variant',
+      },
+    );
+  }
+
+  const program = bech32WordsToBytes(programWords);
+  if (program.length < 2 || program.length > 40) {
+    throw new EncodingError('invalid_length', `Invalid witness program length: ${program.length} bytes`, {
+      range: programRange,
+      expected: '2-40 bytes',
+    });
+  }
+  if (witnessVersion === 0 && program.length !== 20 && program.length !== 32) {
+    throw new EncodingError('invalid_length', `Witness v0 program must be 20 or 32 bytes, found ${program.length}`, {
+      range: programRange,
+      expected: '20 bytes (P2WPKH) or 32 bytes (P2WSH)',
+      suggestion: 'The address looks truncated or has extra characters',
+    });
+  }
+
+  return {
+    hrp: decoded.hrp,
+    network: segwitNetwork(decoded.hrp),
+    witnessVersion,
+    program,
+    variant: decoded.variant,
+  };
 }
 
 /**
@@ -339,15 +1571,54 @@ function convertBits(data: number[], fromBits: number, toBits: number, pad: bool
 }
 
 /**
- * Format bytes as Bitcoin address-like format (demo)
+ * Base58Check checksum: first 4 bytes of SHA256(SHA256(data))
  */
-export function formatBitcoinAddress(bytes: Uint8Array): string {
-  return encodeBase58(bytes);
+export function calculateChecksum(data: Uint8Array): Uint8Array {
+  return sha256Sync(sha256Sync(data)).slice(0, 4);
 }
 
 /**
- * Calculate checksum for validation
+ * Encode bytes to Base58Check (payload followed by its checksum)
  */
-export function calculateChecksum(data: Uint8Array): Uint8Array {
-  return data.slice(0, 4); // Simplified
+export function encodeBase58Check(payload: Uint8Array): string {
+  return encodeBase58(concatBytes(payload, calculateChecksum(payload)));
+}
+
+/**
+ * Decode a Base58Check string, verifying and stripping the checksum
+ */
+export function decodeBase58Check(str: string): Uint8Array {
+  const bytes = decodeBase58(str);
+  if (bytes.length < 5) {
+    throw new EncodingError('invalid_length', `Base58Check string too short: ${bytes.length} bytes`, {
+      range: { start: 0, end: str.length },
+      expected: 'a payload followed by a 4-byte checksum',
+    });
+  }
+  const payload = bytes.slice(0, -4);
+  const expected = calculateChecksum(payload);
+  if (bytesToHex(bytes.slice(-4)) !== bytesToHex(expected)) {
+    throw new EncodingError(
+      'invalid_checksum',
+      `Invalid Base58Check checksum: expected ${bytesToHex(expected)}, found ${bytesToHex(bytes.slice(-4))}`,
+      {
+        range: { start: 0, end: str.length },
+        suggestion: 'Base58Check cannot locate the error; look for a mistyped, missing or swapped character',
+      },
+    );
+  }
+  return payload;
+}
+
+/**
+ * Format a 20-byte public key hash as a legacy P2PKH address
+ * Version byte 0x00 is mainnet, 0x6f is testnet/signet/regtest
+ */
+export function formatBitcoinAddress(pubkeyHash: Uint8Array, version: number = 0x00): string {
+  if (pubkeyHash.length !== 20) {
+    throw new EncodingError('invalid_length', `Public key hash must be 20 bytes, got ${pubkeyHash.length}`, {
+      expected: '20 bytes',
+    });
+  }
+  return encodeBase58Check(concatBytes(new Uint8Array([version]), pubkeyHash));
 }
@@ -0,0 +1,346 @@
+/**
+ * Input auto-detection for Playground
+ *
+ * A registry of detectors, each recognising one kind of pasted value and
+ * scoring how likely that reading is. `detectInput` runs all of them and
+ * returns every plausible interpretation, most confident first.
+ */
+
+import {
+  isValidHex,
+  isValidBaid64,
+  parseRgbId,
+  parseBaid64,
+  hexToBytes,
+  bytesToHex,
+  decodeBase58,
+  decodeBase58Check,
+  decodeBase64,
+  decodeBech32,
+} from './encodingUtils';
+import { parseRgbInvoice } from './rgbInvoice';
+import { decodeAddress, ADDRESS_TYPE_LABELS } from './bitcoinAddress';
+import { decodeTransaction } from './bitcoinTx';
+import { parsePsbt, parsePsbtInput } from './psbt';
+import { parseArmor, isArmored, ARMOR_LABELS } from './armor';
+
+/** Decoder an interpretation is routed to */
+export type DetectionTarget =
+  | 'baid64'
+  | 'hex'
+  | 'bech32'
+  | 'invoice'
+  | 'tx'
+  | 'psbt'
+  | 'seal'
+  | 'address'
+  | 'consignment';
+
+export interface DetectorMatch {
+  /** 0 to 1 */
+  confidence: number;
+  summary: string;
+  /** Value handed to the target decoder, the trimmed input when omitted */
+  value?: string;
+}
+
+export interface InputDetector {
+  id: string;
+  label: string;
+  target: DetectionTarget;
+  /** Null when the input cannot be this kind; throwing counts as no match */
+  detect(input: string): DetectorMatch | null | Promise<DetectorMatch | null>;
+}
+
+export interface Detection {
+  detector: string;
+  label: string;
+  target: DetectionTarget;
+  confidence: number;
+  summary: string;
+  value: string;
+}
+
+const HEX_RE = /^(0x)?[0-9a-fA-F]+$/;
+const BASE58_RE = /^[1-9A-HJ-NP-Za-km-z]+$/;
+const BASE64_RE = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const ID_LABELS: Record<string, string> = {
+  rgb: 'RGB contract ID',
+  sc: 'RGB schema ID',
+  op: 'RGB operation ID',
+  if: 'RGB interface ID',
+};
+
+const detectors: InputDetector[] = [];
+
+/**
+ * Add a detector, replacing any registered with the same id
+ */
+export function registerDetector(detector: InputDetector): void {
+  const existing = detectors.findIndex(d => d.id === detector.id);
+  if (existing === -1) {
+    detectors.push(detector);
+  } else {
+    detectors[existing] = detector;
+  }
+}
+
+export function inputDetectors(): readonly InputDetector[] {
+  return detectors;
+}
+
+/**
+ * Classify an input with every registered detector, most confident first
+ */
+export async function detectInput(input: string): Promise<Detection[]> {
+  const trimmed = input.trim();
+  if (!trimmed) return [];
+
+  const results = await Promise.all(detectors.map(async detector => {
+    try {
+      const match = await detector.detect(trimmed);
+      if (!match || match.confidence <= 0) return null;
+      return {
+        detector: detector.id,
+        label: detector.label,
+        target: detector.target,
+        confidence: Math.min(match.confidence, 1),
+        summary: match.summary,
+        value: match.value ?? trimmed,
+      };
+    } catch {
+      return null;
+    }
+  }));
+  return results.filter((d): d is Detection => d !== null).sort((a, b) => b.confidence - a.confidence);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+registerDetector({
+  id: 'invoice',
+  label: 'RGB invoice',
+  target: 'invoice',
+  detect(input) {
+    if (!input.startsWith('rgb:') || !/[/+]/.test(input)) return null;
+    try {
+      const invoice = parseRgbInvoice(input);
+      const state = invoice.state.type === 'void' ? 'any amount' : invoice.state.value;
+      return {
+        confidence: 0.98,
+        summary: `${invoice.iface ?? 'any interface'}, ${state} to a ${invoice.beneficiary.type === 'blinded' ? 'blinded seal' : 'witness output'}`,
+      };
+    } catch (e) {
+      // Still route it: the invoice parser shows where it is broken
+      return { confidence: 0.5, summary: `Looks like an invoice, but ${e.message}` };
+    }
+  },
+});
+
+registerDetector({
+  id: 'rgb-id',
+  label: 'RGB identifier',
+  target: 'invoice',
+  detect(input) {
+    if (/[/+]/.test(input) || input.startsWith('utxob:')) return null;
+    const { prefix, bytes, components } = parseRgbId(input);
+    const label = ID_LABELS[prefix];
+    const checksum = components.checksumVerified ? 'checksum verified' : 'no checksum to verify';
+    return {
+      confidence: label ? (components.checksumVerified ? 0.97 : 0.9) : 0.6,
+      summary: `${label ?? `"${prefix}" identifier`}: ${bytes.length} bytes, ${checksum}`,
+    };
+  },
+});
+
+registerDetector({
+  id: 'blinded-seal',
+  label: 'Blinded seal',
+  target: 'seal',
+  detect(input) {
+    const seal = input.replace(/^(bc|tb|bcrt):/, '');
+    if (!seal.startsWith('utxob:')) return null;
+    const { components } = parseRgbId(seal);
+    return { confidence: 0.95, summary: `Concealed seal ${bytesToHex(components.payload)}`, value: seal };
+  },
+});
+
+registerDetector({
+  id: 'baid64',
+  label: 'BAID64 (no prefix)',
+  target: 'baid64',
+  detect(input) {
+    if (input.includes(':') || !isValidBaid64(input)) return null;
+    const components = parseBaid64(input);
+    return {
+      confidence: components.checksumVerified ? 0.8 : components.chunked ? 0.55 : 0.35,
+      summary: `${components.payload.length} bytes${components.checksumVerified ? ', checksum verified for HRI rgb' : ''}`,
+    };
+  },
+});
+
+registerDetector({
+  id: 'psbt',
+  label: 'PSBT',
+  target: 'psbt',
+  async detect(input) {
+    const compact = input.replace(/\s+/g, '');
+    if (!compact.startsWith('cHNidP8') && !/^70736274ff/i.test(compact)) return null;
+    try {
+      const psbt = await parsePsbt(parsePsbtInput(compact));
+      const rgb = psbt.rgb.closeMethod !== null || psbt.rgb.commitments.length > 0 ? ', with RGB data' : '';
+      return {
+        confidence: 0.99,
+        summary: `v${psbt.version}, ${plural(psbt.inputs.length, 'input')}, ${plural(psbt.outputs.length, 'output')}${rgb}`,
+      };
+    } catch (e) {
+      return { confidence: 0.7, summary: `PSBT magic found, but ${e.message}` };
+    }
+  },
+});
+
+registerDetector({
+  id: 'transaction',
+  label: 'Raw Bitcoin transaction',
+  target: 'tx',
+  async detect(input) {
+    const compact = input.replace(/\s+/g, '');
+    if (!isValidHex(compact) || compact.length < 120) return null;
+    const tx = await decodeTransaction(hexToBytes(compact));
+    return {
+      confidence: 0.95,
+      summary: `${plural(tx.inputs.length, 'input')}, ${plural(tx.outputs.length, 'output')}, txid ${tx.txid.slice(0, 16)}…`,
+      value: compact,
+    };
+  },
+});
+
+registerDetector({
+  id: 'txid',
+  label: 'Txid or 32-byte hash',
+  target: 'hex',
+  detect(input) {
+    if (!/^[0-9a-fA-F]{64}$/.test(input)) return null;
+    return { confidence: 0.7, summary: 'Transaction id, contract ID bytes or another SHA-256 hash' };
+  },
+});
+
+registerDetector({
+  id: 'address',
+  label: 'Bitcoin address',
+  target: 'address',
+  detect(input) {
+    const address = decodeAddress(input);
+    return {
+      confidence: 0.97,
+      summary: `${ADDRESS_TYPE_LABELS[address.type]} on ${address.networks.join('/')}`,
+    };
+  },
+});
+
+registerDetector({
+  id: 'bech32',
+  label: 'Bech32 / Bech32m',
+  target: 'bech32',
+  detect(input) {
+    if (input.length > 1023) return null;
+    const decoded = decodeBech32(input, 1023);
+    return {
+      confidence: 0.85,
+      summary: `${decoded.variant} with HRP "${decoded.hrp}", ${plural(decoded.words.length, 'data word')}`,
+    };
+  },
+});
+
+registerDetector({
+  id: 'base58check',
+  label: 'Base58Check',
+  target: 'hex',
+  detect(input) {
+    if (!BASE58_RE.test(input)) return null;
+    const payload = decodeBase58Check(input);
+    return {
+      confidence: 0.75,
+      summary: `${payload.length} bytes with a valid checksum, version byte 0x${payload[0].toString(16).padStart(2, '0')}`,
+      value: bytesToHex(payload),
+    };
+  },
+});
+
+registerDetector({
+  id: 'hex',
+  label: 'Hex bytes',
+  target: 'hex',
+  detect(input) {
+    if (!isValidHex(input)) return null;
+    const bytes = hexToBytes(input);
+    // Short all-digit strings are as likely to be decimal numbers
+    const digitsOnly = /^\d+$/.test(input);
+    const confidence = input.startsWith('0x') ? 0.8 : digitsOnly && bytes.length < 8 ? 0.2 : 0.5;
+    return { confidence, summary: plural(bytes.length, 'byte') };
+  },
+});
+
+registerDetector({
+  id: 'base58',
+  label: 'Base58',
+  target: 'hex',
+  detect(input) {
+    if (!BASE58_RE.test(input) || HEX_RE.test(input)) return null;
+    const bytes = decodeBase58(input);
+    return { confidence: 0.25, summary: `${plural(bytes.length, 'byte')}, no checksum`, value: bytesToHex(bytes) };
+  },
+});
+
+registerDetector({
+  id: 'base64',
+  label: 'Base64',
+  target: 'hex',
+  detect(input) {
+    const compact = input.replace(/\s+/g, '');
+    if (!BASE64_RE.test(compact) || compact.length % 4 !== 0 || HEX_RE.test(compact)) return null;
+    const bytes = decodeBase64(compact);
+    // Padding or +/ rule out Base58 and BAID64 readings of the same string
+    const distinctive = /[+/=]/.test(compact);
+    return {
+      confidence: distinctive ? 0.6 : 0.3,
+      summary: plural(bytes.length, 'byte'),
+      value: bytesToHex(bytes),
+    };
+  },
+});
+
+registerDetector({
+  id: 'consignment',
+  label: 'Consignment JSON',
+  target: 'consignment',
+  detect(input) {
+    if (!input.startsWith('{')) return null;
+    const data = JSON.parse(input);
+    if (typeof data !== 'object' || data === null || !('contract_id' in data)) return null;
+    const history = Array.isArray(data.history) ? data.history.length : 0;
+    return {
+      confidence: Array.isArray(data.history) ? 0.97 : 0.5,
+      summary: `${data.contract_id}, ${plural(history, 'operation')}`,
+    };
+  },
+});
+
+registerDetector({
+  id: 'armored-consignment',
+  label: 'Armored consignment',
+  target: 'consignment',
+  detect(input) {
+    if (!isArmored(input) || !input.includes(ARMOR_LABELS.consignment)) return null;
+    try {
+      const armor = parseArmor(input);
+      return { confidence: 0.98, summary: `${armor.payload.length} bytes, checksum ${armor.checksum} verified` };
+    } catch (e) {
+      // The inspector points at the broken header or checksum
+      return { confidence: 0.6, summary: `Armored block, but ${e.message}` };
+    }
+  },
+});
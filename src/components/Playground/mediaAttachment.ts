@@ -0,0 +1,127 @@
+/**
+ * Media files for contract state
+ *
+ * RGB21 commits to media in two ways:
+ * - attachment: MIME type and SHA-256 digest; the file itself lives elsewhere
+ * - embedded media: MIME type and the file bytes, at most 65535 (SmallBlob)
+ *
+ * Files are hashed in the browser in chunks, so large media never sits in
+ * memory whole and the page keeps rendering while it is hashed.
+ */
+
+import { Sha256, bytesToHex, formatBytes } from './encodingUtils';
+
+/** SmallBlob limit for embedded media */
+export const EMBEDDED_MEDIA_MAX = 0xffff;
+
+const HASH_CHUNK_SIZE = 1 << 20;
+const MEDIA_TYPE_RE = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/i;
+
+// Values holding each preview URL; duplicated rows share one until the last lets go
+const previewRefs = new Map<string, number>();
+
+/**
+ * Media as selected in the builder
+ */
+export interface MediaValue {
+  /** File name, for display only */
+  name: string;
+  /** MIME type, e.g. image/png */
+  type: string;
+  size: number;
+  /** SHA-256 of the file, hex */
+  digest: string;
+  /** File content as hex, read only for embedded media within the size limit */
+  data?: string;
+  /** Object URL for image previews, never committed */
+  url?: string;
+}
+
+export interface HashProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * SHA-256 of a file, read and hashed one chunk at a time
+ */
+export async function hashFile(
+  file: Blob,
+  onProgress?: (progress: HashProgress) => void,
+): Promise<Uint8Array> {
+  const hasher = new Sha256();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    hasher.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()));
+    onProgress?.({ done: Math.min(offset + HASH_CHUNK_SIZE, file.size), total: file.size });
+    // Yield so progress renders between chunks
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return hasher.digest();
+}
+
+/**
+ * Hash a file and, when it is to be embedded and fits `maxEmbedded`, read its content
+ */
+export async function readMedia(
+  file: File,
+  maxEmbedded: number | null,
+  onProgress?: (progress: HashProgress) => void,
+): Promise<MediaValue> {
+  const digest = await hashFile(file, onProgress);
+  const media: MediaValue = {
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+    digest: bytesToHex(digest),
+  };
+  if (maxEmbedded !== null && file.size <= maxEmbedded) {
+    media.data = bytesToHex(new Uint8Array(await file.arrayBuffer()));
+  }
+  if (file.type.startsWith('image/')) {
+    media.url = URL.createObjectURL(file);
+    previewRefs.set(media.url, 1);
+  }
+  return media;
+}
+
+/**
+ * Take another reference to the preview of media copied into a new value
+ */
+export function retainMedia(media: MediaValue): MediaValue {
+  if (media.url) previewRefs.set(media.url, (previewRefs.get(media.url) ?? 0) + 1);
+  return media;
+}
+
+/**
+ * Drop a reference to the preview of media no longer held, revoking it after the last one
+ */
+export function releaseMedia(media: MediaValue): void {
+  if (!media.url) return;
+  const refs = (previewRefs.get(media.url) ?? 1) - 1;
+  if (refs > 0) {
+    previewRefs.set(media.url, refs);
+  } else {
+    previewRefs.delete(media.url);
+    URL.revokeObjectURL(media.url);
+  }
+}
+
+/**
+ * Validation message for media, null when it can be committed
+ */
+export function validateMedia(media: MediaValue, maxEmbedded: number | null): string | null {
+  if (!MEDIA_TYPE_RE.test(media.type) || media.type.length > 255) {
+    return `"${media.type}" is not a MIME type like image/png`;
+  }
+  if (maxEmbedded !== null && media.size > maxEmbedded) {
+    return `${media.name} is ${formatBytes(media.size)}; embedded media is limited to ${formatBytes(maxEmbedded)}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a value is selected media rather than an empty input
+ */
+export function isMedia(value: unknown): value is MediaValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'digest' in value;
+}
@@ -0,0 +1,279 @@
+/**
+ * Multi-Protocol Commitment (MPC) Merkle tree
+ *
+ * Each protocol (contract) ID gets a deterministic slot in a tree of width 2^depth:
+ *   position = protocol_id (256-bit little-endian) mod (width - cofactor)
+ * The smallest depth and cofactor placing every protocol without collisions is used.
+ * Unused slots are filled with entropy leaves so the tree hides how many protocols it holds.
+ *
+ * Hashing follows the commitment encoding in encodings.md:
+ *   leaf    = tagged_hash("rgb:mpc:commitment", protocol_id || message)
+ *   entropy = tagged_hash("rgb:mpc:entropy", entropy_u64_le || position_u32_le)
+ *   branch  = tagged_hash("rgb:merkle:branch", min(left, right) || max(left, right))
+ */
+
+import { taggedHash, compareBytes, concatBytes, bytesToHex, hexToBytes, isRecord } from './encodingUtils';
+
+export const MPC_LEAF_TAG = 'rgb:mpc:commitment';
+export const MPC_ENTROPY_TAG = 'rgb:mpc:entropy';
+export const MERKLE_BRANCH_TAG = 'rgb:merkle:branch';
+
+export const MPC_MIN_DEPTH = 3;
+// Deeper trees are valid but too large to build in the browser
+export const MPC_MAX_DEPTH = 16;
+export const MPC_COFACTOR_ATTEMPTS = 500;
+
+export interface MpcMessage {
+  /** 32-byte protocol ID, e.g. a contract ID */
+  protocolId: Uint8Array;
+  /** 32-byte message committed under the protocol */
+  message: Uint8Array;
+}
+
+export interface MpcLeaf {
+  position: number;
+  hash: Uint8Array;
+  /** Null for entropy leaves */
+  protocolId: Uint8Array | null;
+  message: Uint8Array | null;
+}
+
+export interface MpcTree {
+  depth: number;
+  width: number;
+  cofactor: number;
+  entropy: bigint;
+  leaves: MpcLeaf[];
+  /** levels[0] holds leaf hashes, the last level holds the root */
+  levels: Uint8Array[][];
+  root: Uint8Array;
+}
+
+export interface MpcProof {
+  depth: number;
+  cofactor: number;
+  position: number;
+  /** Sibling hashes from the leaf up to the root */
+  path: Uint8Array[];
+}
+
+export interface MpcVerification {
+  valid: boolean;
+  /** Why verification failed, if it did */
+  reason: string;
+  expectedPosition: number;
+  leaf: Uint8Array;
+  /** Node hashes from the leaf up to the computed root */
+  nodes: Uint8Array[];
+  computedRoot: Uint8Array;
+}
+
+function checkLength(bytes: Uint8Array, what: string): void {
+  if (bytes.length !== 32) {
+    throw new Error(`${what} must be 32 bytes, got ${bytes.length}`);
+  }
+}
+
+/**
+ * Tree slot of a protocol for a given width and cofactor
+ */
+export function mpcPosition(protocolId: Uint8Array, cofactor: number, width: number): number {
+  checkLength(protocolId, 'Protocol ID');
+  let value = 0n;
+  for (let i = protocolId.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(protocolId[i]);
+  }
+  return Number(value % BigInt(Math.max(1, width - cofactor)));
+}
+
+/**
+ * Smallest depth and cofactor that place every protocol in its own slot
+ */
+export function findMpcLayout(protocolIds: Uint8Array[]): { depth: number; width: number; cofactor: number } {
+  const unique = new Set(protocolIds.map(bytesToHex));
+  if (unique.size !== protocolIds.length) {
+    throw new Error('Duplicate protocol ID: each protocol can commit only one message');
+  }
+
+  let prevWidth = 1;
+  for (let depth = MPC_MIN_DEPTH; depth <= MPC_MAX_DEPTH; depth++) {
+    const width = 2 ** depth;
+    if (width >= protocolIds.length) {
+      const maxCofactor = Math.min(prevWidth, MPC_COFACTOR_ATTEMPTS, width - protocolIds.length);
+      for (let cofactor = 0; cofactor <= maxCofactor; cofactor++) {
+        const taken = new Set(protocolIds.map(id => mpcPosition(id, cofactor, width)));
+        if (taken.size === protocolIds.length) {
+          return { depth, width, cofactor };
+        }
+      }
+    }
+    prevWidth = width;
+  }
+  throw new Error(`Unable to place ${protocolIds.length} protocols in a tree of depth ${MPC_MAX_DEPTH} or less`);
+}
+
+/**
+ * Commitment leaf for a protocol message
+ */
+export function mpcLeafHash(protocolId: Uint8Array, message: Uint8Array): Uint8Array {
+  checkLength(protocolId, 'Protocol ID');
+  checkLength(message, 'Message');
+  return taggedHash(MPC_LEAF_TAG, concatBytes(protocolId, message));
+}
+
+/**
+ * Filler leaf for an unused slot
+ */
+export function mpcEntropyLeafHash(entropy: bigint, position: number): Uint8Array {
+  const data = new Uint8Array(12);
+  const view = new DataView(data.buffer);
+  view.setBigUint64(0, BigInt.asUintN(64, entropy), true);
+  view.setUint32(8, position, true);
+  return taggedHash(MPC_ENTROPY_TAG, data);
+}
+
+/**
+ * Merkle branch node over a lexicographically sorted pair
+ */
+export function merkleBranch(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const [first, second] = compareBytes(left, right) <= 0 ? [left, right] : [right, left];
+  return taggedHash(MERKLE_BRANCH_TAG, concatBytes(first, second));
+}
+
+/**
+ * Build the MPC tree for a set of protocol messages
+ */
+export function buildMpcTree(messages: MpcMessage[], entropy: bigint): MpcTree {
+  if (messages.length === 0) {
+    throw new Error('At least one protocol message is required');
+  }
+  const { depth, width, cofactor } = findMpcLayout(messages.map(m => m.protocolId));
+
+  const byPosition = new Map<number, MpcMessage>();
+  messages.forEach(m => byPosition.set(mpcPosition(m.protocolId, cofactor, width), m));
+
+  const leaves: MpcLeaf[] = [];
+  for (let position = 0; position < width; position++) {
+    const entry = byPosition.get(position);
+    leaves.push(entry
+      ? {
+        position,
+        hash: mpcLeafHash(entry.protocolId, entry.message),
+        protocolId: entry.protocolId,
+        message: entry.message,
+      }
+      : { position, hash: mpcEntropyLeafHash(entropy, position), protocolId: null, message: null });
+  }
+
+  const levels: Uint8Array[][] = [leaves.map(l => l.hash)];
+  while (levels[levels.length - 1].length > 1) {
+    const below = levels[levels.length - 1];
+    const level: Uint8Array[] = [];
+    for (let i = 0; i < below.length; i += 2) {
+      level.push(merkleBranch(below[i], below[i + 1]));
+    }
+    levels.push(level);
+  }
+
+  return { depth, width, cofactor, entropy, leaves, levels, root: levels[levels.length - 1][0] };
+}
+
+/**
+ * Inclusion proof for a protocol in a built tree
+ */
+export function mpcProof(tree: MpcTree, protocolId: Uint8Array): MpcProof {
+  const position = mpcPosition(protocolId, tree.cofactor, tree.width);
+  const leaf = tree.leaves[position];
+  if (!leaf.protocolId || compareBytes(leaf.protocolId, protocolId) !== 0) {
+    throw new Error(`Protocol ${bytesToHex(protocolId)} is not in the tree`);
+  }
+  const path: Uint8Array[] = [];
+  let index = position;
+  for (let level = 0; level < tree.depth; level++) {
+    path.push(tree.levels[level][index ^ 1]);
+    index >>= 1;
+  }
+  return { depth: tree.depth, cofactor: tree.cofactor, position, path };
+}
+
+/**
+ * Check that a protocol message is committed under a root
+ */
+export function verifyMpcProof(
+  protocolId: Uint8Array,
+  message: Uint8Array,
+  proof: MpcProof,
+  root: Uint8Array,
+): MpcVerification {
+  checkLength(root, 'Root');
+  proof.path.forEach((node, i) => checkLength(node, `Path node ${i + 1}`));
+
+  const expectedPosition = mpcPosition(protocolId, proof.cofactor, 2 ** proof.depth);
+  const leaf = mpcLeafHash(protocolId, message);
+  const nodes = [leaf];
+  for (const sibling of proof.path) {
+    nodes.push(merkleBranch(nodes[nodes.length - 1], sibling));
+  }
+  const computedRoot = nodes[nodes.length - 1];
+
+  let reason = '';
+  if (proof.path.length !== proof.depth) {
+    reason = `Path has ${proof.path.length} nodes but the tree depth is ${proof.depth}`;
+  } else if (proof.position !== expectedPosition) {
+    reason = `Protocol belongs at position ${expectedPosition}, proof claims ${proof.position}`;
+  } else if (compareBytes(computedRoot, root) !== 0) {
+    reason = 'Computed root does not match the commitment';
+  }
+  return { valid: reason === '', reason, expectedPosition, leaf, nodes, computedRoot };
+}
+
+/**
+ * JSON form of a proof with hex-encoded hashes
+ */
+export function serializeMpcProof(proof: MpcProof): string {
+  return JSON.stringify({
+    depth: proof.depth,
+    cofactor: proof.cofactor,
+    position: proof.position,
+    path: proof.path.map(bytesToHex),
+  }, null, 2);
+}
+
+/**
+ * Parse a proof produced by serializeMpcProof
+ */
+export function parseMpcProof(json: string): MpcProof {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Proof is not valid JSON: ${e.message}`);
+  }
+  if (!isRecord(raw)) {
+    throw new Error('Proof must be an object with depth, cofactor, position and path');
+  }
+  const record = raw;
+  const integer = (key: string): number => {
+    const value = record[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Proof field "${key}" must be a non-negative integer`);
+    }
+    return value;
+  };
+  const depth = integer('depth');
+  const cofactor = integer('cofactor');
+  const position = integer('position');
+  if (depth > 32) {
+    throw new Error(`Proof depth ${depth} exceeds the maximum of 32`);
+  }
+  const { path } = raw;
+  if (!Array.isArray(path)) {
+    throw new Error('Proof field "path" must be an array of hex hashes');
+  }
+  return {
+    depth,
+    cofactor,
+    position,
+    path: path.map((node: unknown) => hexToBytes(String(node))),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Opret commitments: RGB MPC commitments in an OP_RETURN output
+ *
+ * Standard form (34 bytes), as produced by RGB wallets:
+ *   OP_RETURN OP_PUSHBYTES_32 <mpc_commitment>
+ * Tagged form (39 bytes), the layout described in opret.md:
+ *   OP_RETURN OP_PUSHBYTES_4 <protocol_tag> OP_PUSHBYTES_32 <mpc_commitment>
+ */
+
+import { bytesToHex, concatBytes, encodeCompactSize } from './encodingUtils';
+import { parseScript, OP_RETURN } from './bitcoinScript';
+
+export const OPRET_PROTOCOL_TAGS = ['RGB1', 'RGB2', 'RGBT', 'MPC\0'];
+
+export interface OpretCommitment {
+  commitment: Uint8Array;
+  /** Protocol tag of the tagged form, null for the standard form */
+  tag: string | null;
+}
+
+export interface OpretVerification extends OpretCommitment {
+  valid: boolean;
+  reason: string;
+}
+
+function encodeTag(tag: string): Uint8Array {
+  // One byte per character, so characters past Latin-1 are rejected rather than truncated
+  const codes = [...tag].map(c => c.codePointAt(0));
+  const wide = [...tag].find(c => c.codePointAt(0) > 0xff);
+  if (wide) {
+    throw new Error(`Protocol tag must be 4 one-byte characters, "${wide}" does not fit in a byte`);
+  }
+  if (codes.length !== 4) {
+    throw new Error(`Protocol tag must be 4 bytes, got "${tag}"`);
+  }
+  return new Uint8Array(codes);
+}
+
+/**
+ * Build the OP_RETURN scriptPubKey carrying a commitment
+ */
+export function opretScript(commitment: Uint8Array, tag: string | null = null): Uint8Array {
+  if (commitment.length !== 32) {
+    throw new Error(`MPC commitment must be 32 bytes, got ${commitment.length}`);
+  }
+  const prefix = tag === null
+    ? new Uint8Array([OP_RETURN])
+    : concatBytes(new Uint8Array([OP_RETURN, 0x04]), encodeTag(tag));
+  return concatBytes(prefix, new Uint8Array([0x20]), commitment);
+}
+
+/**
+ * Serialized zero-value transaction output holding the script
+ */
+export function opretTxOut(script: Uint8Array): Uint8Array {
+  return concatBytes(new Uint8Array(8), encodeCompactSize(script.length), script);
+}
+
+/**
+ * Extract the commitment from an opret scriptPubKey
+ */
+export function parseOpretScript(script: Uint8Array): OpretCommitment {
+  const elements = parseScript(script);
+  if (elements.length === 0 || elements[0].opcode !== OP_RETURN) {
+    throw new Error('Script does not start with OP_RETURN');
+  }
+  const pushes = elements.slice(1);
+  if (pushes.some(el => !el.data)) {
+    const extra = pushes.find(el => !el.data);
+    throw new Error(`Unexpected ${extra.name} at byte ${extra.offset}: opret scripts contain only data pushes`);
+  }
+
+  if (pushes.length === 1 && pushes[0].data.length === 32 && pushes[0].opcode === 0x20) {
+    return { commitment: pushes[0].data, tag: null };
+  }
+  if (pushes.length === 2 && pushes[0].opcode === 0x04 && pushes[1].opcode === 0x20) {
+    return { commitment: pushes[1].data, tag: String.fromCharCode(...pushes[0].data) };
+  }
+  const sizes = pushes.map(el => `${el.data.length}`).join(' + ') || 'no data';
+  throw new Error(`Expected a single 32-byte push (or a 4-byte tag and a 32-byte push), found ${sizes}`);
+}
+
+/**
+ * Check an output script against an expected commitment
+ */
+export function verifyOpretScript(script: Uint8Array, expected: Uint8Array): OpretVerification {
+  const parsed = parseOpretScript(script);
+  let reason = '';
+  if (bytesToHex(parsed.commitment) !== bytesToHex(expected)) {
+    reason = `Script commits to ${bytesToHex(parsed.commitment)}, expected ${bytesToHex(expected)}`;
+  } else if (parsed.tag !== null && !OPRET_PROTOCOL_TAGS.includes(parsed.tag)) {
+    reason = `Unknown protocol tag "${parsed.tag}"`;
+  }
+  return { ...parsed, valid: reason === '', reason };
+}
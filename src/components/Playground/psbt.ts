@@ -0,0 +1,477 @@
+/**
+ * PSBT (BIP-174 v0, BIP-370 v2) decoding for Playground
+ * Decodes standard keys and the proprietary keys RGB wallets use for MPC, DBC hosts and transitions
+ */
+
+import { bytesToHex, hexToBytes, decodeBase64, formatContractId } from './encodingUtils';
+import { scriptToAsm } from './bitcoinScript';
+import { parseTapretScript } from './tapret';
+import {
+  TxReader,
+  decodeTransaction,
+  classifyOutputScript,
+  formatSats,
+  OUTPUT_SCRIPT_LABELS,
+} from './bitcoinTx';
+import type { BitcoinTx } from './bitcoinTx';
+import { scriptToAddress } from './bitcoinAddress';
+
+export const PSBT_MAGIC = new Uint8Array([0x70, 0x73, 0x62, 0x74, 0xff]);
+export const PSBT_PROPRIETARY = 0xfc;
+
+export type PsbtScope = 'global' | 'input' | 'output';
+
+export interface PsbtEntry {
+  keyType: number;
+  keyData: Uint8Array;
+  value: Uint8Array;
+  /** BIP-174 name, or PREFIX/SUBTYPE for proprietary keys */
+  name: string;
+  proprietary: { prefix: string; subtype: number } | null;
+  /** Human-readable key data, e.g. a protocol ID */
+  keyLabel: string;
+  decoded: string;
+  /** Set when the value does not match the key's expected format */
+  error?: string;
+  rgb: boolean;
+}
+
+export interface RgbPsbtSummary {
+  closeMethod: string | null;
+  opretHost: number | null;
+  tapretHost: number | null;
+  mpcMessages: { output: number; protocolId: string; message: string }[];
+  commitments: { output: number; method: string; commitment: string }[];
+  transitions: string[];
+}
+
+export interface Psbt {
+  version: number;
+  global: PsbtEntry[];
+  inputs: PsbtEntry[][];
+  outputs: PsbtEntry[][];
+  /** Unsigned transaction of a v0 PSBT */
+  unsignedTx: BitcoinTx | null;
+  rgb: RgbPsbtSummary;
+}
+
+interface KeyDef {
+  name: string;
+  keyLabel?: (keyData: Uint8Array) => string;
+  decode?: (value: Uint8Array, hrp: string) => string | Promise<string>;
+}
+
+const hex = (bytes: Uint8Array) => bytesToHex(bytes);
+
+function u32(value: Uint8Array): string {
+  if (value.length !== 4) throw new Error(`Expected 4 bytes, got ${value.length}`);
+  return String(new DataView(value.buffer, value.byteOffset).getUint32(0, true));
+}
+
+function u8(value: Uint8Array): number {
+  if (value.length !== 1) throw new Error(`Expected 1 byte, got ${value.length}`);
+  return value[0];
+}
+
+function bytes32(value: Uint8Array): string {
+  if (value.length !== 32) throw new Error(`Expected 32 bytes, got ${value.length}`);
+  return hex(value);
+}
+
+function asm(script: Uint8Array): string {
+  if (script.length === 0) return '(empty)';
+  try {
+    return scriptToAsm(script);
+  } catch {
+    return hex(script);
+  }
+}
+
+function compactSizeValue(value: Uint8Array): string {
+  const reader = new TxReader(value, 'PSBT value');
+  const n = reader.compactSize('count');
+  if (reader.remaining > 0) throw new Error('Trailing bytes after count');
+  return String(n);
+}
+
+function bip32Path(value: Uint8Array): string {
+  if (value.length < 4 || value.length % 4 !== 0) {
+    throw new Error(`Derivation must be a fingerprint and 4-byte path elements, got ${value.length} bytes`);
+  }
+  const view = new DataView(value.buffer, value.byteOffset, value.length);
+  const path = [hex(value.slice(0, 4))];
+  for (let i = 4; i < value.length; i += 4) {
+    const index = view.getUint32(i, true);
+    path.push(index >= 0x80000000 ? `${index - 0x80000000}'` : String(index));
+  }
+  return `[${path.join('/')}]`;
+}
+
+function tapBip32Path(value: Uint8Array): string {
+  const reader = new TxReader(value, 'PSBT value');
+  const count = reader.compactSize('leaf hash');
+  const leaves: string[] = [];
+  for (let i = 0; i < count; i++) leaves.push(hex(reader.bytes(32, `leaf hash #${i}`)));
+  const path = bip32Path(reader.bytes(reader.remaining, 'derivation'));
+  return leaves.length ? `${path} leaves: ${leaves.join(', ')}` : `${path} (key path)`;
+}
+
+function sighashType(value: Uint8Array): string {
+  const n = Number(u32(value));
+  const base = { 0: 'DEFAULT', 1: 'ALL', 2: 'NONE', 3: 'SINGLE' }[n & 0x7f] ?? `0x${n.toString(16)}`;
+  return n & 0x80 ? `${base}|ANYONECANPAY` : base;
+}
+
+function describeScript(script: Uint8Array, hrp: string): string {
+  return `${OUTPUT_SCRIPT_LABELS[classifyOutputScript(script)]} ${scriptToAddress(script, hrp) ?? asm(script)}`;
+}
+
+function txOut(value: Uint8Array, hrp: string): string {
+  const reader = new TxReader(value, 'PSBT value');
+  const amount = reader.u64('amount');
+  const script = reader.varBytes('scriptPubKey');
+  if (reader.remaining > 0) throw new Error('Trailing bytes after scriptPubKey');
+  return `${formatSats(amount)} → ${describeScript(script, hrp)}`;
+}
+
+function witnessStack(value: Uint8Array): string {
+  const reader = new TxReader(value, 'PSBT value');
+  const count = reader.compactSize('witness');
+  const items: string[] = [];
+  for (let i = 0; i < count; i++) items.push(hex(reader.varBytes(`witness item #${i}`)) || '(empty)');
+  return `[${items.join(', ')}]`;
+}
+
+function leafScript(value: Uint8Array): string {
+  if (value.length === 0) throw new Error('Missing leaf version');
+  const script = value.slice(0, -1);
+  const tapret = parseTapretScript(script);
+  const label = `leaf v0x${value[value.length - 1].toString(16)}: ${asm(script)}`;
+  return tapret ? `${label} (tapret commitment leaf, nonce ${tapret.nonce})` : label;
+}
+
+function tapTree(value: Uint8Array): string {
+  const reader = new TxReader(value, 'PSBT value');
+  const leaves: string[] = [];
+  while (reader.remaining > 0) {
+    const depth = reader.bytes(1, 'depth')[0];
+    const version = reader.bytes(1, 'leaf version')[0];
+    const script = reader.varBytes('leaf script');
+    const tapret = parseTapretScript(script) ? ' (tapret)' : '';
+    leaves.push(`depth ${depth} v0x${version.toString(16)}${tapret}: ${asm(script)}`);
+  }
+  return leaves.join('; ');
+}
+
+function protocolId(keyData: Uint8Array): string {
+  return keyData.length === 32 ? formatContractId(keyData) : hex(keyData);
+}
+
+const GLOBAL_KEYS: Record<number, KeyDef> = {
+  0x00: { name: 'PSBT_GLOBAL_UNSIGNED_TX' },
+  0x01: { name: 'PSBT_GLOBAL_XPUB', decode: bip32Path },
+  0x02: { name: 'PSBT_GLOBAL_TX_VERSION', decode: u32 },
+  0x03: { name: 'PSBT_GLOBAL_FALLBACK_LOCKTIME', decode: u32 },
+  0x04: { name: 'PSBT_GLOBAL_INPUT_COUNT', decode: compactSizeValue },
+  0x05: { name: 'PSBT_GLOBAL_OUTPUT_COUNT', decode: compactSizeValue },
+  0x06: { name: 'PSBT_GLOBAL_TX_MODIFIABLE', decode: (v) => {
+    const flags = u8(v);
+    const names = ['inputs', 'outputs', 'SIGHASH_SINGLE'].filter((_, i) => flags & (1 << i));
+    return names.length ? `modifiable: ${names.join(', ')}` : 'not modifiable';
+  } },
+  0xfb: { name: 'PSBT_GLOBAL_VERSION', decode: u32 },
+};
+
+const INPUT_KEYS: Record<number, KeyDef> = {
+  0x00: { name: 'PSBT_IN_NON_WITNESS_UTXO', decode: async (v) => {
+    const tx = await decodeTransaction(v);
+    return `transaction ${tx.txid} (${tx.outputs.length} outputs)`;
+  } },
+  0x01: { name: 'PSBT_IN_WITNESS_UTXO', decode: txOut },
+  0x02: { name: 'PSBT_IN_PARTIAL_SIG', decode: hex },
+  0x03: { name: 'PSBT_IN_SIGHASH_TYPE', decode: sighashType },
+  0x04: { name: 'PSBT_IN_REDEEM_SCRIPT', decode: asm },
+  0x05: { name: 'PSBT_IN_WITNESS_SCRIPT', decode: asm },
+  0x06: { name: 'PSBT_IN_BIP32_DERIVATION', decode: bip32Path },
+  0x07: { name: 'PSBT_IN_FINAL_SCRIPTSIG', decode: asm },
+  0x08: { name: 'PSBT_IN_FINAL_SCRIPTWITNESS', decode: witnessStack },
+  0x09: { name: 'PSBT_IN_POR_COMMITMENT', decode: (v) => new TextDecoder().decode(v) },
+  0x0a: { name: 'PSBT_IN_RIPEMD160', decode: hex },
+  0x0b: { name: 'PSBT_IN_SHA256', decode: hex },
+  0x0c: { name: 'PSBT_IN_HASH160', decode: hex },
+  0x0d: { name: 'PSBT_IN_HASH256', decode: hex },
+  0x0e: { name: 'PSBT_IN_PREVIOUS_TXID', decode: (v) => bytes32(Uint8Array.from(v).reverse()) },
+  0x0f: { name: 'PSBT_IN_OUTPUT_INDEX', decode: u32 },
+  0x10: { name: 'PSBT_IN_SEQUENCE', decode: (v) => `0x${Number(u32(v)).toString(16).padStart(8, '0')}` },
+  0x11: { name: 'PSBT_IN_REQUIRED_TIME_LOCKTIME', decode: u32 },
+  0x12: { name: 'PSBT_IN_REQUIRED_HEIGHT_LOCKTIME', decode: u32 },
+  0x13: { name: 'PSBT_IN_TAP_KEY_SIG', decode: hex },
+  0x14: { name: 'PSBT_IN_TAP_SCRIPT_SIG', decode: hex },
+  0x15: { name: 'PSBT_IN_TAP_LEAF_SCRIPT', decode: leafScript },
+  0x16: { name: 'PSBT_IN_TAP_BIP32_DERIVATION', decode: tapBip32Path },
+  0x17: { name: 'PSBT_IN_TAP_INTERNAL_KEY', decode: bytes32 },
+  0x18: { name: 'PSBT_IN_TAP_MERKLE_ROOT', decode: bytes32 },
+  0x19: { name: 'PSBT_IN_MUSIG2_PARTICIPANT_PUBKEYS', decode: hex },
+  0x1a: { name: 'PSBT_IN_MUSIG2_PUB_NONCE', decode: hex },
+  0x1b: { name: 'PSBT_IN_MUSIG2_PARTIAL_SIG', decode: hex },
+};
+
+const OUTPUT_KEYS: Record<number, KeyDef> = {
+  0x00: { name: 'PSBT_OUT_REDEEM_SCRIPT', decode: asm },
+  0x01: { name: 'PSBT_OUT_WITNESS_SCRIPT', decode: asm },
+  0x02: { name: 'PSBT_OUT_BIP32_DERIVATION', decode: bip32Path },
+  0x03: { name: 'PSBT_OUT_AMOUNT', decode: (v) => {
+    if (v.length !== 8) throw new Error(`Expected 8 bytes, got ${v.length}`);
+    return formatSats(new DataView(v.buffer, v.byteOffset).getBigUint64(0, true));
+  } },
+  0x04: { name: 'PSBT_OUT_SCRIPT', decode: describeScript },
+  0x05: { name: 'PSBT_OUT_TAP_INTERNAL_KEY', decode: bytes32 },
+  0x06: { name: 'PSBT_OUT_TAP_TREE', decode: tapTree },
+  0x07: { name: 'PSBT_OUT_TAP_BIP32_DERIVATION', decode: tapBip32Path },
+  0x08: { name: 'PSBT_OUT_MUSIG2_PARTICIPANT_PUBKEYS', decode: hex },
+};
+
+const STANDARD_KEYS: Record<PsbtScope, Record<number, KeyDef>> = {
+  global: GLOBAL_KEYS,
+  input: INPUT_KEYS,
+  output: OUTPUT_KEYS,
+};
+
+const MPC_KEYS: Record<number, KeyDef> = {
+  0x00: { name: 'MESSAGE', keyLabel: protocolId, decode: bytes32 },
+  0x01: { name: 'ENTROPY', decode: (v) => {
+    if (v.length !== 8) throw new Error(`Expected 8 bytes, got ${v.length}`);
+    return String(new DataView(v.buffer, v.byteOffset).getBigUint64(0, true));
+  } },
+  0x04: { name: 'MIN_TREE_DEPTH', decode: (v) => String(u8(v)) },
+  0x10: { name: 'COMMITMENT', decode: bytes32 },
+  0x11: { name: 'PROOF', decode: hex },
+};
+
+const VELOCITY_HINTS: Record<number, string> = {
+  0: 'unspecified', 15: 'seldom', 31: 'episodic', 63: 'regular', 127: 'frequent', 255: 'high frequency',
+};
+
+/**
+ * Proprietary keys (prefix, subtype) defined by the LNP/BP and RGB standard libraries
+ * LNPBP4 is the pre-0.11 name of the MPC prefix
+ */
+const PROPRIETARY_KEYS: Record<PsbtScope, Record<string, Record<number, KeyDef>>> = {
+  global: {
+    RGB: {
+      0x01: { name: 'TRANSITION', keyLabel: hex, decode: (v) => `${v.length}-byte strict-encoded transition` },
+      0x02: { name: 'CLOSE_METHOD', decode: (v) => {
+        const method = u8(v);
+        return { 0x00: 'opret1st', 0x01: 'tapret1st' }[method] ?? `unknown (0x${method.toString(16)})`;
+      } },
+      0x03: { name: 'TAP_HOST_CHANGE', decode: (v) => (u8(v) ? 'yes' : 'no') },
+    },
+  },
+  input: {
+    RGB: {
+      0x03: { name: 'CONSUMED_BY', keyLabel: protocolId, decode: (v) => {
+        if (v.length === 0 || v.length % 32 !== 0) throw new Error(`Expected 32-byte operation IDs, got ${v.length} bytes`);
+        const ids: string[] = [];
+        for (let i = 0; i < v.length; i += 32) ids.push(hex(v.slice(i, i + 32)));
+        return ids.join(', ');
+      } },
+    },
+  },
+  output: {
+    MPC: MPC_KEYS,
+    LNPBP4: MPC_KEYS,
+    OPRET: {
+      0x00: { name: 'HOST', decode: () => 'output can host an opret commitment' },
+      0x01: { name: 'COMMITMENT', decode: bytes32 },
+    },
+    TAPRET: {
+      0x00: { name: 'HOST', decode: () => 'output can host a tapret commitment' },
+      0x01: { name: 'COMMITMENT', decode: (v) => {
+        if (v.length !== 33) throw new Error(`Expected MPC commitment and nonce (33 bytes), got ${v.length}`);
+        return `${hex(v.slice(0, 32))} nonce ${v[32]}`;
+      } },
+      0x02: { name: 'PROOF', decode: hex },
+    },
+    RGB: {
+      0x10: { name: 'VELOCITY_HINT', decode: (v) => VELOCITY_HINTS[u8(v)] ?? `0x${v[0].toString(16)}` },
+    },
+  },
+};
+
+const RGB_PREFIXES = ['RGB', 'MPC', 'LNPBP4', 'OPRET', 'TAPRET', 'LNPBP'];
+
+function formatPrefix(prefix: Uint8Array): string {
+  return prefix.every(b => b >= 0x20 && b < 0x7f) ? String.fromCharCode(...prefix) : `0x${hex(prefix)}`;
+}
+
+function readMap(reader: TxReader, what: string): { keyType: number; keyData: Uint8Array; value: Uint8Array }[] {
+  const pairs: { keyType: number; keyData: Uint8Array; value: Uint8Array }[] = [];
+  const seen = new Set<string>();
+  for (;;) {
+    const key = reader.varBytes(`${what} key`);
+    if (key.length === 0) return pairs;
+    const value = reader.varBytes(`${what} value`);
+    const id = hex(key);
+    if (seen.has(id)) {
+      throw new Error(`Duplicate key ${id} in ${what}`);
+    }
+    seen.add(id);
+    const keyReader = new TxReader(key, `${what} key`);
+    const keyType = keyReader.compactSize('key type');
+    pairs.push({ keyType, keyData: key.slice(keyReader.pos), value });
+  }
+}
+
+async function decodeEntry(
+  scope: PsbtScope,
+  pair: { keyType: number; keyData: Uint8Array; value: Uint8Array },
+  hrp: string,
+): Promise<PsbtEntry> {
+  const { keyType, keyData, value } = pair;
+  let def: KeyDef | undefined;
+  let proprietary: PsbtEntry['proprietary'] = null;
+  let subKeyData = keyData;
+  let name: string;
+
+  if (keyType === PSBT_PROPRIETARY) {
+    const reader = new TxReader(keyData, 'proprietary key');
+    const prefix = formatPrefix(reader.varBytes('prefix'));
+    const subtype = reader.compactSize('subtype');
+    subKeyData = keyData.slice(reader.pos);
+    proprietary = { prefix, subtype };
+    def = PROPRIETARY_KEYS[scope][prefix]?.[subtype];
+    name = `${prefix}/${def ? def.name : `0x${subtype.toString(16).padStart(2, '0')}`}`;
+  } else {
+    def = STANDARD_KEYS[scope][keyType];
+    name = def ? def.name : `UNKNOWN (0x${keyType.toString(16).padStart(2, '0')})`;
+  }
+
+  const entry: PsbtEntry = {
+    keyType,
+    keyData,
+    value,
+    name,
+    proprietary,
+    keyLabel: subKeyData.length ? (def?.keyLabel ?? hex)(subKeyData) : '',
+    decoded: hex(value),
+    rgb: proprietary !== null && RGB_PREFIXES.includes(proprietary.prefix),
+  };
+  if (def?.decode) {
+    try {
+      entry.decoded = await def.decode(value, hrp);
+    } catch (e) {
+      entry.error = e.message;
+    }
+  }
+  return entry;
+}
+
+function findProprietary(entries: PsbtEntry[], prefixes: string[], subtype: number): PsbtEntry | undefined {
+  return entries.find(e => e.proprietary && prefixes.includes(e.proprietary.prefix) && e.proprietary.subtype === subtype);
+}
+
+function summarizeRgb(psbt: Omit<Psbt, 'rgb'>): RgbPsbtSummary {
+  const closeMethod = findProprietary(psbt.global, ['RGB'], 0x02);
+  const summary: RgbPsbtSummary = {
+    closeMethod: closeMethod && !closeMethod.error ? closeMethod.decoded : null,
+    opretHost: null,
+    tapretHost: null,
+    mpcMessages: [],
+    commitments: [],
+    transitions: psbt.global
+      .filter(e => e.proprietary?.prefix === 'RGB' && e.proprietary.subtype === 0x01)
+      .map(e => e.keyLabel),
+  };
+  psbt.outputs.forEach((entries, output) => {
+    if (summary.opretHost === null && findProprietary(entries, ['OPRET'], 0x00)) summary.opretHost = output;
+    if (summary.tapretHost === null && findProprietary(entries, ['TAPRET'], 0x00)) summary.tapretHost = output;
+    entries
+      .filter(e => e.proprietary && ['MPC', 'LNPBP4'].includes(e.proprietary.prefix) && e.proprietary.subtype === 0x00)
+      .forEach(e => summary.mpcMessages.push({ output, protocolId: e.keyLabel, message: e.decoded }));
+    for (const method of ['OPRET', 'TAPRET']) {
+      const commitment = findProprietary(entries, [method], 0x01);
+      if (commitment && !commitment.error) {
+        summary.commitments.push({ output, method: method.toLowerCase(), commitment: commitment.decoded });
+      }
+    }
+  });
+  return summary;
+}
+
+/**
+ * Accept a PSBT as base64 or hex
+ */
+export function parsePsbtInput(input: string): Uint8Array {
+  const clean = input.replace(/\s+/g, '');
+  if (/^70736274ff/i.test(clean)) {
+    return hexToBytes(clean);
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(clean) || clean.length % 4 !== 0) {
+    throw new Error('PSBT must be base64 (starting with cHNidP8) or hex (starting with 70736274ff)');
+  }
+  return decodeBase64(clean);
+}
+
+/**
+ * Decode a serialized PSBT into its global, input and output maps
+ */
+export async function parsePsbt(data: Uint8Array, hrp: string = 'bc'): Promise<Psbt> {
+  if (data.length < PSBT_MAGIC.length || PSBT_MAGIC.some((b, i) => data[i] !== b)) {
+    throw new Error('Missing PSBT magic bytes "psbt\\xff"');
+  }
+  const reader = new TxReader(data, 'PSBT');
+  reader.pos = PSBT_MAGIC.length;
+
+  const globalPairs = readMap(reader, 'global map');
+  const global = await Promise.all(globalPairs.map(p => decodeEntry('global', p, hrp)));
+
+  const versionEntry = global.find(e => e.keyType === 0xfb);
+  const version = versionEntry ? Number(versionEntry.decoded) : 0;
+  if (version !== 0 && version !== 2) {
+    throw new Error(`Unsupported PSBT version ${versionEntry.decoded}`);
+  }
+
+  let unsignedTx: BitcoinTx | null = null;
+  let inputCount: number;
+  let outputCount: number;
+  const unsigned = globalPairs.find(p => p.keyType === 0x00 && p.keyData.length === 0);
+  if (version === 0) {
+    if (!unsigned) {
+      throw new Error('PSBT v0 requires PSBT_GLOBAL_UNSIGNED_TX');
+    }
+    unsignedTx = await decodeTransaction(unsigned.value, hrp);
+    if (unsignedTx.segwit || unsignedTx.inputs.some(i => i.scriptSig.length > 0)) {
+      throw new Error('Unsigned transaction must have empty scriptSigs and witnesses');
+    }
+    global.find(e => e.keyType === 0x00).decoded = `transaction ${unsignedTx.txid} `
+      + `(${unsignedTx.inputs.length} inputs, ${unsignedTx.outputs.length} outputs)`;
+    inputCount = unsignedTx.inputs.length;
+    outputCount = unsignedTx.outputs.length;
+  } else {
+    if (unsigned) {
+      throw new Error('PSBT v2 must not contain PSBT_GLOBAL_UNSIGNED_TX');
+    }
+    const counts = [0x04, 0x05].map(type => global.find(e => e.keyType === type));
+    if (counts.some(e => !e || e.error)) {
+      throw new Error('PSBT v2 requires PSBT_GLOBAL_INPUT_COUNT and PSBT_GLOBAL_OUTPUT_COUNT');
+    }
+    [inputCount, outputCount] = counts.map(e => Number(e.decoded));
+  }
+
+  const inputs: PsbtEntry[][] = [];
+  for (let i = 0; i < inputCount; i++) {
+    const pairs = readMap(reader, `input #${i} map`);
+    inputs.push(await Promise.all(pairs.map(p => decodeEntry('input', p, hrp))));
+  }
+  const outputs: PsbtEntry[][] = [];
+  for (let i = 0; i < outputCount; i++) {
+    const pairs = readMap(reader, `output #${i} map`);
+    outputs.push(await Promise.all(pairs.map(p => decodeEntry('output', p, hrp))));
+  }
+  if (reader.remaining > 0) {
+    throw new Error(`${reader.remaining} unexpected bytes after the last output map`);
+  }
+
+  const psbt = { version, global, inputs, outputs, unsignedTx };
+  return { ...psbt, rgb: summarizeRgb(psbt) };
+}
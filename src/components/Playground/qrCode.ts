@@ -0,0 +1,475 @@
+/**
+ * QR Code encoder for Playground (ISO/IEC 18004, model 2)
+ * Pure TypeScript: numeric/alphanumeric/byte modes, all EC levels, versions 1-40
+ */
+
+export type QrEcLevel = 'L' | 'M' | 'Q' | 'H';
+export type QrMode = 'numeric' | 'alphanumeric' | 'byte';
+
+export interface QrCode {
+  version: number;
+  /** Modules per side */
+  size: number;
+  ecLevel: QrEcLevel;
+  mode: QrMode;
+  mask: number;
+  /** modules[y][x], true for dark */
+  modules: boolean[][];
+}
+
+export const QR_ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const EC_LEVEL_INDEX: Record<QrEcLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+export const QR_EC_FORMAT_BITS: Record<QrEcLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, indexed by [EC level][version]
+export const QR_ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// Number of error correction blocks, indexed by [EC level][version]
+export const QR_NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MODE_INDICATOR: Record<QrMode, number> = { numeric: 0x1, alphanumeric: 0x2, byte: 0x4 };
+const CHAR_COUNT_BITS: Record<QrMode, [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16],
+};
+
+/**
+ * Width of the character count field for a mode at a given version
+ */
+export function qrCharCountBits(mode: QrMode, version: number): number {
+  return CHAR_COUNT_BITS[mode][version <= 9 ? 0 : version <= 26 ? 1 : 2];
+}
+
+/**
+ * Number of modules available for data and EC codewords in a version
+ */
+export function qrRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/**
+ * Number of data codewords (excluding EC) for a version and EC level
+ */
+export function qrDataCodewords(version: number, ecLevel: QrEcLevel): number {
+  const e = EC_LEVEL_INDEX[ecLevel];
+  return Math.floor(qrRawDataModules(version) / 8)
+    - QR_ECC_CODEWORDS_PER_BLOCK[e][version] * QR_NUM_ERROR_CORRECTION_BLOCKS[e][version];
+}
+
+/**
+ * Center coordinates of alignment patterns for a version
+ */
+export function qrAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 17 - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// GF(256) arithmetic with the QR reducing polynomial x^8 + x^4 + x^3 + x^2 + 1
+export function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Most compact mode able to represent the text
+ */
+export function qrDetectMode(text: string): QrMode {
+  if (/^\d*$/.test(text)) return 'numeric';
+  if ([...text].every(c => QR_ALPHANUMERIC_CHARSET.includes(c))) return 'alphanumeric';
+  return 'byte';
+}
+
+function appendBits(buffer: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    buffer.push((value >>> i) & 1);
+  }
+}
+
+function encodeSegmentData(text: string, mode: QrMode): { bits: number[]; count: number } {
+  const bits: number[] = [];
+  if (mode === 'numeric') {
+    for (let i = 0; i < text.length; i += 3) {
+      const chunk = text.slice(i, i + 3);
+      appendBits(bits, parseInt(chunk, 10), chunk.length * 3 + 1);
+    }
+    return { bits, count: text.length };
+  }
+  if (mode === 'alphanumeric') {
+    for (let i = 0; i < text.length; i += 2) {
+      const first = QR_ALPHANUMERIC_CHARSET.indexOf(text[i]);
+      if (i + 1 < text.length) {
+        appendBits(bits, first * 45 + QR_ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+      } else {
+        appendBits(bits, first, 6);
+      }
+    }
+    return { bits, count: text.length };
+  }
+  const bytes = new TextEncoder().encode(text);
+  bytes.forEach(b => appendBits(bits, b, 8));
+  return { bits, count: bytes.length };
+}
+
+function addEccAndInterleave(data: number[], version: number, ecLevel: QrEcLevel): number[] {
+  const e = EC_LEVEL_INDEX[ecLevel];
+  const numBlocks = QR_NUM_ERROR_CORRECTION_BLOCKS[e][version];
+  const blockEccLen = QR_ECC_CODEWORDS_PER_BLOCK[e][version];
+  const rawCodewords = Math.floor(qrRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLen = shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(k, k + dataLen);
+    k += dataLen;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Pad short blocks so all blocks interleave at the same positions
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Evaluate whether a mask pattern inverts the module at (x, y)
+ */
+export function qrMaskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * Grid of function-pattern modules (finders, timing, alignment, format and version areas)
+ */
+export function qrFunctionModules(version: number): boolean[][] {
+  const size = version * 4 + 17;
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const mark = (x: number, y: number) => {
+    if (x >= 0 && x < size && y >= 0 && y < size) isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    mark(6, i);
+    mark(i, 6);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) mark(cx + dx, cy + dy);
+    }
+  }
+  const align = qrAlignmentPositions(version);
+  align.forEach((ax, i) => align.forEach((ay, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) mark(ax + dx, ay + dy);
+    }
+  }));
+  for (let i = 0; i < 9; i++) {
+    mark(8, i);
+    mark(i, 8);
+  }
+  for (let i = 0; i < 8; i++) {
+    mark(size - 1 - i, 8);
+    mark(8, size - 1 - i);
+  }
+  if (version >= 7) {
+    for (let i = 0; i < 18; i++) {
+      mark(size - 11 + (i % 3), Math.floor(i / 3));
+      mark(Math.floor(i / 3), size - 11 + (i % 3));
+    }
+  }
+  return isFunction;
+}
+
+/**
+ * 15-bit BCH-protected format information for an EC level and mask
+ */
+export function qrFormatBits(ecLevel: QrEcLevel, mask: number): number {
+  const data = (QR_EC_FORMAT_BITS[ecLevel] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+function drawFunctionPatterns(modules: boolean[][], version: number): void {
+  const size = modules.length;
+  for (let i = 0; i < size; i++) {
+    modules[6][i] = i % 2 === 0;
+    modules[i][6] = i % 2 === 0;
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        modules[y][x] = dist !== 2 && dist !== 4;
+      }
+    }
+  }
+
+  const align = qrAlignmentPositions(version);
+  align.forEach((ax, i) => align.forEach((ay, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        modules[ay + dy][ax + dx] = Math.max(Math.abs(dx), Math.abs(dy)) !== 1;
+      }
+    }
+  }));
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const bit = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      modules[b][a] = bit;
+      modules[a][b] = bit;
+    }
+  }
+}
+
+function drawFormatBits(modules: boolean[][], ecLevel: QrEcLevel, mask: number): void {
+  const size = modules.length;
+  const bits = qrFormatBits(ecLevel, mask);
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) modules[i][8] = bit(i);
+  modules[7][8] = bit(6);
+  modules[8][8] = bit(7);
+  modules[8][7] = bit(8);
+  for (let i = 9; i < 15; i++) modules[8][14 - i] = bit(i);
+
+  for (let i = 0; i < 8; i++) modules[8][size - 1 - i] = bit(i);
+  for (let i = 8; i < 15; i++) modules[size - 15 + i][8] = bit(i);
+  modules[size - 8][8] = true;
+}
+
+/**
+ * Visit data module coordinates in the zigzag placement order
+ */
+export function qrForEachDataModule(
+  isFunction: boolean[][],
+  visit: (x: number, y: number) => void,
+): void {
+  const size = isFunction.length;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x]) visit(x, y);
+      }
+    }
+  }
+}
+
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  const lines: string[] = [];
+  for (let i = 0; i < size; i++) {
+    let row = '';
+    let col = '';
+    for (let j = 0; j < size; j++) {
+      row += modules[i][j] ? '1' : '0';
+      col += modules[j][i] ? '1' : '0';
+    }
+    lines.push(row, col);
+  }
+
+  for (const line of lines) {
+    // Runs of five or more same-colored modules
+    for (const run of line.match(/0{5,}|1{5,}/g) ?? []) {
+      penalty += run.length - 2;
+    }
+    // Finder-like patterns
+    penalty += (line.match(/(?=10111010000|00001011101)/g) ?? []).length * 40;
+  }
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+  return penalty;
+}
+
+/**
+ * Encode text into a QR code, picking the smallest version that fits
+ */
+export function encodeQr(
+  text: string,
+  options: { ecLevel?: QrEcLevel; mode?: QrMode; minVersion?: number; mask?: number } = {},
+): QrCode {
+  const ecLevel = options.ecLevel ?? 'M';
+  const mode = options.mode ?? qrDetectMode(text);
+  if (mode !== 'byte' && mode !== qrDetectMode(text) && !(mode === 'alphanumeric' && qrDetectMode(text) === 'numeric')) {
+    throw new Error(`Text cannot be encoded in ${mode} mode`);
+  }
+
+  const segment = encodeSegmentData(text, mode);
+  let version = Math.max(1, options.minVersion ?? 1);
+  for (; ; version++) {
+    if (version > 40) {
+      throw new Error(`Data too long for a QR code at EC level ${ecLevel} (${segment.count} characters)`);
+    }
+    const countBits = qrCharCountBits(mode, version);
+    const needed = 4 + countBits + segment.bits.length;
+    if (segment.count < 1 << countBits && needed <= qrDataCodewords(version, ecLevel) * 8) break;
+  }
+
+  const capacity = qrDataCodewords(version, ecLevel) * 8;
+  const bits: number[] = [];
+  appendBits(bits, MODE_INDICATOR[mode], 4);
+  appendBits(bits, segment.count, qrCharCountBits(mode, version));
+  bits.push(...segment.bits);
+  appendBits(bits, 0, Math.min(4, capacity - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  }
+  const codewords = addEccAndInterleave(data, version, ecLevel);
+
+  const size = version * 4 + 17;
+  const isFunction = qrFunctionModules(version);
+  const base = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  drawFunctionPatterns(base, version);
+  let bitIndex = 0;
+  qrForEachDataModule(isFunction, (x, y) => {
+    if (bitIndex < codewords.length * 8) {
+      base[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+    }
+    bitIndex++;
+  });
+
+  let best: { mask: number; modules: boolean[][]; penalty: number } | null = null;
+  const masks = options.mask !== undefined ? [options.mask] : [0, 1, 2, 3, 4, 5, 6, 7];
+  for (const mask of masks) {
+    const modules = base.map(row => [...row]);
+    qrForEachDataModule(isFunction, (x, y) => {
+      if (qrMaskBit(mask, x, y)) modules[y][x] = !modules[y][x];
+    });
+    drawFormatBits(modules, ecLevel, mask);
+    const penalty = penaltyScore(modules);
+    if (!best || penalty < best.penalty) best = { mask, modules, penalty };
+  }
+
+  return { version, size, ecLevel, mode, mask: best.mask, modules: best.modules };
+}
+
+/**
+ * SVG path data drawing each dark module as a unit square
+ */
+export function qrToSvgPath(qr: QrCode, border: number = 4): string {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x + border},${y + border}h1v1h-1z`);
+  }));
+  return parts.join('');
+}
+
+/**
+ * Standalone SVG document for a QR code
+ */
+export function qrToSvg(qr: QrCode, border: number = 4): string {
+  const dim = qr.size + border * 2;
+  return `<?xml version="1.0" encoding="UTF-8"?>\n`
+    + `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="#ffffff"/>`
+    + `<path d="${qrToSvgPath(qr, border)}" fill="#000000"/>`
+    + `</svg>\n`;
+}
@@ -0,0 +1,715 @@
+/**
+ * QR Code reader for Playground
+ * Pure TypeScript: locates a QR code in raw RGBA pixels, samples its module
+ * grid and decodes it with Reed-Solomon error correction
+ */
+
+import {
+  QR_ALPHANUMERIC_CHARSET,
+  QR_ECC_CODEWORDS_PER_BLOCK,
+  QR_NUM_ERROR_CORRECTION_BLOCKS,
+  qrCharCountBits,
+  qrRawDataModules,
+  qrFunctionModules,
+  qrForEachDataModule,
+  qrFormatBits,
+  qrMaskBit,
+  gfMultiply,
+} from './qrCode';
+import type { QrEcLevel, QrMode } from './qrCode';
+
+export interface QrPoint {
+  x: number;
+  y: number;
+}
+
+export interface QrDecodeResult {
+  text: string;
+  version: number;
+  ecLevel: QrEcLevel;
+  mask: number;
+  /** Modes of the decoded segments, in order */
+  modes: QrMode[];
+  /** Codeword errors fixed by Reed-Solomon decoding */
+  errorsCorrected: number;
+  /** Finder pattern centers in image pixels, when decoded from an image */
+  finders?: { topLeft: QrPoint; topRight: QrPoint; bottomLeft: QrPoint };
+}
+
+const EC_LEVELS: QrEcLevel[] = ['L', 'M', 'Q', 'H'];
+
+// GF(256) exponent and logarithm tables for Reed-Solomon decoding
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_LOG[x] = i;
+  x = gfMultiply(x, 0x02);
+}
+for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+
+function gfDivide(x: number, y: number): number {
+  if (y === 0) throw new Error('Division by zero in GF(256)');
+  if (x === 0) return 0;
+  return GF_EXP[GF_LOG[x] + 255 - GF_LOG[y]];
+}
+
+function gfPow(exponent: number): number {
+  return GF_EXP[((exponent % 255) + 255) % 255];
+}
+
+/** Evaluate a polynomial given with coefficients from lowest degree */
+function polyEval(poly: number[], x: number): number {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    result = gfMultiply(result, x) ^ poly[i];
+  }
+  return result;
+}
+
+/**
+ * Correct errors in one Reed-Solomon block in place (data codewords first)
+ * Returns the number of corrected codewords
+ */
+export function reedSolomonCorrect(block: number[], eccLen: number): number {
+  const n = block.length;
+  const syndromes: number[] = [];
+  for (let i = 0; i < eccLen; i++) {
+    let s = 0;
+    for (const c of block) s = gfMultiply(s, gfPow(i)) ^ c;
+    syndromes.push(s);
+  }
+  if (syndromes.every(s => s === 0)) return 0;
+
+  // Berlekamp-Massey: error locator polynomial
+  let locator = [1];
+  let prev = [1];
+  let errors = 0;
+  let shift = 1;
+  let prevDiscrepancy = 1;
+  for (let k = 0; k < eccLen; k++) {
+    let d = syndromes[k];
+    for (let i = 1; i <= errors; i++) d ^= gfMultiply(locator[i] ?? 0, syndromes[k - i]);
+    if (d === 0) {
+      shift++;
+      continue;
+    }
+    const factor = gfDivide(d, prevDiscrepancy);
+    const next = [...locator];
+    prev.forEach((coef, i) => {
+      while (next.length <= i + shift) next.push(0);
+      next[i + shift] ^= gfMultiply(factor, coef);
+    });
+    if (2 * errors <= k) {
+      prev = locator;
+      errors = k + 1 - errors;
+      prevDiscrepancy = d;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (2 * errors > eccLen) {
+    throw new Error('Too many errors to correct');
+  }
+
+  // Chien search: position p holds the coefficient of x^(n-1-p)
+  const positions: number[] = [];
+  for (let p = 0; p < n; p++) {
+    if (polyEval(locator, gfPow(-(n - 1 - p))) === 0) positions.push(p);
+  }
+  if (positions.length !== errors) {
+    throw new Error('Too many errors to correct');
+  }
+
+  // Forney: error magnitudes from the evaluator polynomial
+  const evaluator = new Array<number>(eccLen).fill(0);
+  for (let i = 0; i < eccLen; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      evaluator[i] ^= gfMultiply(syndromes[i - j], locator[j]);
+    }
+  }
+  const derivative = locator.map((coef, i) => (i % 2 === 1 ? coef : 0)).slice(1);
+  for (const p of positions) {
+    const x = gfPow(n - 1 - p);
+    const xInv = gfPow(-(n - 1 - p));
+    const magnitude = gfMultiply(x, gfDivide(polyEval(evaluator, xInv), polyEval(derivative, xInv)));
+    block[p] ^= magnitude;
+  }
+  return errors;
+}
+
+function hammingDistance(a: number, b: number): number {
+  let x = a ^ b;
+  let count = 0;
+  for (; x; x &= x - 1) count++;
+  return count;
+}
+
+function readFormat(modules: boolean[][]): { ecLevel: QrEcLevel; mask: number } {
+  const size = modules.length;
+  let first = 0;
+  let second = 0;
+  const set = (bits: number, i: number, dark: boolean) => (dark ? bits | (1 << i) : bits);
+  for (let i = 0; i <= 5; i++) first = set(first, i, modules[i][8]);
+  first = set(first, 6, modules[7][8]);
+  first = set(first, 7, modules[8][8]);
+  first = set(first, 8, modules[8][7]);
+  for (let i = 9; i < 15; i++) first = set(first, i, modules[8][14 - i]);
+  for (let i = 0; i < 8; i++) second = set(second, i, modules[8][size - 1 - i]);
+  for (let i = 8; i < 15; i++) second = set(second, i, modules[size - 15 + i][8]);
+
+  let best: { ecLevel: QrEcLevel; mask: number; distance: number } | null = null;
+  for (const ecLevel of EC_LEVELS) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = qrFormatBits(ecLevel, mask);
+      const distance = Math.min(hammingDistance(first, expected), hammingDistance(second, expected));
+      if (!best || distance < best.distance) best = { ecLevel, mask, distance };
+    }
+  }
+  if (best.distance > 3) {
+    throw new Error('Unreadable format information');
+  }
+  return { ecLevel: best.ecLevel, mask: best.mask };
+}
+
+/**
+ * Version encoded in the version information blocks (versions 7-40), or null if unreadable
+ */
+export function readQrVersionInfo(modules: boolean[][]): number | null {
+  const size = modules.length;
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    if (modules[b][a]) first |= 1 << i;
+    if (modules[a][b]) second |= 1 << i;
+  }
+  let best: { version: number; distance: number } | null = null;
+  for (let version = 7; version <= 40; version++) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const expected = (version << 12) | rem;
+    const distance = Math.min(hammingDistance(first, expected), hammingDistance(second, expected));
+    if (!best || distance < best.distance) best = { version, distance };
+  }
+  return best.distance <= 3 ? best.version : null;
+}
+
+class BitReader {
+  private pos = 0;
+
+  constructor(private readonly bytes: number[]) {}
+
+  get remaining(): number {
+    return this.bytes.length * 8 - this.pos;
+  }
+
+  read(length: number): number {
+    if (length > this.remaining) {
+      throw new Error('Truncated QR data segment');
+    }
+    let value = 0;
+    for (let i = 0; i < length; i++, this.pos++) {
+      value = (value << 1) | ((this.bytes[this.pos >>> 3] >>> (7 - (this.pos & 7))) & 1);
+    }
+    return value;
+  }
+}
+
+function parseSegments(data: number[], version: number): { text: string; modes: QrMode[] } {
+  const reader = new BitReader(data);
+  const modes: QrMode[] = [];
+  let text = '';
+  while (reader.remaining >= 4) {
+    const indicator = reader.read(4);
+    if (indicator === 0x0) break;
+    if (indicator === 0x7) {
+      // ECI designator; content is decoded as UTF-8 regardless
+      const first = reader.read(8);
+      if ((first & 0xc0) === 0x80) reader.read(8);
+      else if ((first & 0xe0) === 0xc0) reader.read(16);
+      continue;
+    }
+    if (indicator === 0x3) {
+      // Structured append header
+      reader.read(16);
+      continue;
+    }
+
+    const mode: QrMode | undefined = ({ 1: 'numeric', 2: 'alphanumeric', 4: 'byte' } as Record<number, QrMode>)[indicator];
+    if (!mode) {
+      throw new Error(`Unsupported QR segment mode 0x${indicator.toString(16)}`);
+    }
+    modes.push(mode);
+    let count = reader.read(qrCharCountBits(mode, version));
+    if (mode === 'numeric') {
+      for (; count >= 3; count -= 3) text += reader.read(10).toString().padStart(3, '0');
+      if (count === 2) text += reader.read(7).toString().padStart(2, '0');
+      if (count === 1) text += reader.read(4).toString();
+    } else if (mode === 'alphanumeric') {
+      for (; count >= 2; count -= 2) {
+        const pair = reader.read(11);
+        text += QR_ALPHANUMERIC_CHARSET[Math.floor(pair / 45)] + QR_ALPHANUMERIC_CHARSET[pair % 45];
+      }
+      if (count === 1) text += QR_ALPHANUMERIC_CHARSET[reader.read(6)];
+    } else {
+      const bytes = new Uint8Array(count);
+      for (let i = 0; i < count; i++) bytes[i] = reader.read(8);
+      text += new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+  return { text, modes };
+}
+
+/**
+ * Decode a sampled module grid (modules[y][x], true for dark)
+ */
+export function decodeQrModules(modules: boolean[][]): QrDecodeResult {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40) {
+    throw new Error(`Invalid QR grid size ${size}`);
+  }
+  const { ecLevel, mask } = readFormat(modules);
+
+  const isFunction = qrFunctionModules(version);
+  const rawCodewords = Math.floor(qrRawDataModules(version) / 8);
+  const codewords = new Array<number>(rawCodewords).fill(0);
+  let bitIndex = 0;
+  qrForEachDataModule(isFunction, (x, y) => {
+    if (bitIndex < rawCodewords * 8 && modules[y][x] !== qrMaskBit(mask, x, y)) {
+      codewords[bitIndex >>> 3] |= 0x80 >>> (bitIndex & 7);
+    }
+    bitIndex++;
+  });
+
+  // De-interleave blocks; short blocks have one data codeword less
+  const e = EC_LEVELS.indexOf(ecLevel);
+  const numBlocks = QR_NUM_ERROR_CORRECTION_BLOCKS[e][version];
+  const eccLen = QR_ECC_CODEWORDS_PER_BLOCK[e][version];
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const blocks: number[][] = Array.from({ length: numBlocks }, () => []);
+  let k = 0;
+  for (let i = 0; i <= shortBlockLen; i++) {
+    blocks.forEach((block, j) => {
+      if (i === shortBlockLen - eccLen && j < numShortBlocks) return;
+      block.push(codewords[k++]);
+    });
+  }
+
+  let errorsCorrected = 0;
+  const data: number[] = [];
+  blocks.forEach((block, j) => {
+    try {
+      errorsCorrected += reedSolomonCorrect(block, eccLen);
+    } catch (err) {
+      throw new Error(`${err.message} in block ${j + 1} of ${numBlocks}`);
+    }
+    data.push(...block.slice(0, block.length - eccLen));
+  });
+
+  const { text, modes } = parseSegments(data, version);
+  return { text, version, ecLevel, mask, modes, errorsCorrected };
+}
+
+// Image processing
+
+interface BinaryImage {
+  width: number;
+  height: number;
+  dark: Uint8Array;
+}
+
+function toLuminance(rgba: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const lum = new Uint8Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    // Transparent pixels are treated as white background
+    const gray = (rgba[i * 4] * 299 + rgba[i * 4 + 1] * 587 + rgba[i * 4 + 2] * 114) / 1000;
+    lum[i] = Math.round(gray * alpha + 255 * (1 - alpha));
+  }
+  return lum;
+}
+
+function otsuThreshold(lum: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  lum.forEach(v => histogram[v]++);
+  const total = lum.length;
+  let sum = 0;
+  histogram.forEach((count, v) => (sum += count * v));
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 127;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
+
+function binarizeGlobal(lum: Uint8Array, width: number, height: number): BinaryImage {
+  const threshold = otsuThreshold(lum);
+  const dark = new Uint8Array(lum.length);
+  lum.forEach((v, i) => (dark[i] = v <= threshold ? 1 : 0));
+  return { width, height, dark };
+}
+
+/** Local mean thresholding for uneven lighting in photos */
+function binarizeAdaptive(lum: Uint8Array, width: number, height: number): BinaryImage {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += lum[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  const radius = Math.max(8, Math.floor(Math.min(width, height) / 16));
+  const dark = new Uint8Array(lum.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      dark[y * width + x] = lum[y * width + x] < mean - 10 ? 1 : 0;
+    }
+  }
+  return { width, height, dark };
+}
+
+function invert(image: BinaryImage): BinaryImage {
+  return { ...image, dark: image.dark.map(v => 1 - v) };
+}
+
+function isDark(image: BinaryImage, x: number, y: number): boolean {
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  if (px < 0 || py < 0 || px >= image.width || py >= image.height) return false;
+  return image.dark[py * image.width + px] === 1;
+}
+
+/** Check run lengths against the 1:1:3:1:1 finder pattern ratio */
+function isFinderRatio(runs: number[]): boolean {
+  const total = runs.reduce((a, b) => a + b, 0);
+  if (total < 7) return false;
+  const moduleSize = total / 7;
+  const variance = moduleSize / 2;
+  return Math.abs(moduleSize - runs[0]) < variance
+    && Math.abs(moduleSize - runs[1]) < variance
+    && Math.abs(3 * moduleSize - runs[2]) < 3 * variance
+    && Math.abs(moduleSize - runs[3]) < variance
+    && Math.abs(moduleSize - runs[4]) < variance;
+}
+
+/**
+ * Measure the finder pattern through (x, y) along one axis
+ * Returns the refined center coordinate on that axis and the pattern width
+ */
+function crossCheck(
+  image: BinaryImage,
+  x: number,
+  y: number,
+  horizontal: boolean,
+  maxRun: number,
+): { center: number; total: number } | null {
+  const at = (t: number) => (horizontal ? isDark(image, t, y) : isDark(image, x, t));
+  const origin = Math.floor(horizontal ? x : y);
+  const limit = horizontal ? image.width : image.height;
+  const runs = [0, 0, 0, 0, 0];
+
+  let t = origin;
+  while (t >= 0 && at(t)) { runs[2]++; t--; }
+  const centerStart = t + 1;
+  while (t >= 0 && !at(t) && runs[1] <= maxRun) { runs[1]++; t--; }
+  while (t >= 0 && at(t) && runs[0] <= maxRun) { runs[0]++; t--; }
+
+  t = origin + 1;
+  while (t < limit && at(t)) { runs[2]++; t++; }
+  const centerEnd = t;
+  while (t < limit && !at(t) && runs[3] <= maxRun) { runs[3]++; t++; }
+  while (t < limit && at(t) && runs[4] <= maxRun) { runs[4]++; t++; }
+
+  if (!isFinderRatio(runs)) return null;
+  return { center: (centerStart + centerEnd) / 2, total: runs.reduce((a, b) => a + b, 0) };
+}
+
+interface FinderCandidate extends QrPoint {
+  moduleSize: number;
+  count: number;
+}
+
+function findFinderCandidates(image: BinaryImage): FinderCandidate[] {
+  const candidates: FinderCandidate[] = [];
+  const step = Math.max(1, Math.floor(Math.min(image.width, image.height) / 300));
+
+  for (let y = 0; y < image.height; y += step) {
+    // Run-length encode the row
+    const runs: { dark: boolean; start: number; length: number }[] = [];
+    for (let x = 0; x < image.width; x++) {
+      const dark = image.dark[y * image.width + x] === 1;
+      const last = runs[runs.length - 1];
+      if (last && last.dark === dark) last.length++;
+      else runs.push({ dark, start: x, length: 1 });
+    }
+
+    for (let i = 0; i + 4 < runs.length; i++) {
+      if (!runs[i].dark || !isFinderRatio(runs.slice(i, i + 5).map(r => r.length))) continue;
+      const rowTotal = runs.slice(i, i + 5).reduce((sum, r) => sum + r.length, 0);
+      const cx = runs[i + 2].start + runs[i + 2].length / 2;
+
+      const vertical = crossCheck(image, cx, y, false, rowTotal);
+      if (!vertical) continue;
+      const horizontal = crossCheck(image, cx, vertical.center, true, rowTotal);
+      if (!horizontal) continue;
+
+      const candidate = {
+        x: horizontal.center,
+        y: vertical.center,
+        moduleSize: (vertical.total + horizontal.total) / 14,
+      };
+      const existing = candidates.find(c =>
+        Math.abs(c.x - candidate.x) <= c.moduleSize * 2
+        && Math.abs(c.y - candidate.y) <= c.moduleSize * 2
+        && Math.abs(c.moduleSize - candidate.moduleSize) <= c.moduleSize * 0.5);
+      if (existing) {
+        const n = existing.count;
+        existing.x = (existing.x * n + candidate.x) / (n + 1);
+        existing.y = (existing.y * n + candidate.y) / (n + 1);
+        existing.moduleSize = (existing.moduleSize * n + candidate.moduleSize) / (n + 1);
+        existing.count++;
+      } else {
+        candidates.push({ ...candidate, count: 1 });
+      }
+    }
+  }
+  return candidates;
+}
+
+function distance(a: QrPoint, b: QrPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/** Pick the three candidates forming the most plausible right isosceles triangle */
+function selectFinderTriple(candidates: FinderCandidate[]): [FinderCandidate, FinderCandidate, FinderCandidate] {
+  const pool = [...candidates].sort((a, b) => b.count - a.count).slice(0, 10);
+  let best: { triple: [FinderCandidate, FinderCandidate, FinderCandidate]; score: number } | null = null;
+
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const [a, b, c] = [pool[i], pool[j], pool[k]];
+        // Order so that `a` is the right-angle corner
+        const sides = [
+          { corner: a, others: [b, c], hyp: distance(b, c) },
+          { corner: b, others: [a, c], hyp: distance(a, c) },
+          { corner: c, others: [a, b], hyp: distance(a, b) },
+        ].sort((x, y) => y.hyp - x.hyp)[0];
+        const legA = distance(sides.corner, sides.others[0]);
+        const legB = distance(sides.corner, sides.others[1]);
+        const sizes = [a.moduleSize, b.moduleSize, c.moduleSize];
+        const meanSize = (sizes[0] + sizes[1] + sizes[2]) / 3;
+
+        const rightAngle = Math.abs(legA ** 2 + legB ** 2 - sides.hyp ** 2) / sides.hyp ** 2;
+        const isosceles = Math.abs(legA - legB) / Math.max(legA, legB);
+        const sizeSpread = (Math.max(...sizes) - Math.min(...sizes)) / meanSize;
+        if (rightAngle > 0.3 || isosceles > 0.3 || sizeSpread > 0.5 || legA < meanSize * 10) continue;
+
+        const score = rightAngle + isosceles + sizeSpread;
+        if (!best || score < best.score) {
+          best = { triple: [sides.corner, sides.others[0], sides.others[1]], score };
+        }
+      }
+    }
+  }
+  if (!best) {
+    throw new Error('No QR code found in image');
+  }
+  return best.triple;
+}
+
+/** Solve an 8x8 linear system with Gaussian elimination */
+function solveLinear(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const m = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error('Degenerate QR code geometry');
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/** Perspective transform from grid coordinates to image pixels, fitted to four point pairs */
+function perspectiveTransform(from: QrPoint[], to: QrPoint[]): (p: QrPoint) => QrPoint {
+  const matrix: number[][] = [];
+  const rhs: number[] = [];
+  from.forEach((src, i) => {
+    const dst = to[i];
+    matrix.push([src.x, src.y, 1, 0, 0, 0, -src.x * dst.x, -src.y * dst.x]);
+    rhs.push(dst.x);
+    matrix.push([0, 0, 0, src.x, src.y, 1, -src.x * dst.y, -src.y * dst.y]);
+    rhs.push(dst.y);
+  });
+  const [a, b, c, d, e, f, g, h] = solveLinear(matrix, rhs);
+  return ({ x, y }) => {
+    const w = g * x + h * y + 1;
+    return { x: (a * x + b * y + c) / w, y: (d * x + e * y + f) / w };
+  };
+}
+
+/** Search near the predicted position for the bottom-right alignment pattern */
+function findAlignmentPattern(image: BinaryImage, predicted: QrPoint, u: QrPoint, v: QrPoint): QrPoint | null {
+  const moduleSize = Math.hypot(u.x, u.y);
+  const radius = moduleSize * 4;
+  const step = Math.max(1, moduleSize / 4);
+  let bestScore = 0;
+  let matches: QrPoint[] = [];
+
+  for (let y = predicted.y - radius; y <= predicted.y + radius; y += step) {
+    for (let x = predicted.x - radius; x <= predicted.x + radius; x += step) {
+      let score = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const expected = Math.max(Math.abs(dx), Math.abs(dy)) !== 1;
+          if (isDark(image, x + dx * u.x + dy * v.x, y + dx * u.y + dy * v.y) === expected) score++;
+        }
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        matches = [{ x, y }];
+      } else if (score === bestScore) {
+        matches.push({ x, y });
+      }
+    }
+  }
+  if (bestScore < 24) return null;
+  return {
+    x: matches.reduce((sum, p) => sum + p.x, 0) / matches.length,
+    y: matches.reduce((sum, p) => sum + p.y, 0) / matches.length,
+  };
+}
+
+function sampleGrid(
+  image: BinaryImage,
+  finders: [QrPoint, QrPoint, QrPoint],
+  dimension: number,
+): boolean[][] {
+  const [topLeft, topRight, bottomLeft] = finders;
+  const span = dimension - 7;
+  const u = { x: (topRight.x - topLeft.x) / span, y: (topRight.y - topLeft.y) / span };
+  const v = { x: (bottomLeft.x - topLeft.x) / span, y: (bottomLeft.y - topLeft.y) / span };
+  const affine = (gx: number, gy: number): QrPoint => ({
+    x: topLeft.x + (gx - 3.5) * u.x + (gy - 3.5) * v.x,
+    y: topLeft.y + (gx - 3.5) * u.y + (gy - 3.5) * v.y,
+  });
+
+  const from = [{ x: 3.5, y: 3.5 }, { x: dimension - 3.5, y: 3.5 }, { x: 3.5, y: dimension - 3.5 }];
+  const to: QrPoint[] = [topLeft, topRight, bottomLeft];
+  const alignment = dimension > 21
+    ? findAlignmentPattern(image, affine(dimension - 6.5, dimension - 6.5), u, v)
+    : null;
+  if (alignment) {
+    from.push({ x: dimension - 6.5, y: dimension - 6.5 });
+    to.push(alignment);
+  } else {
+    from.push({ x: dimension - 3.5, y: dimension - 3.5 });
+    to.push(affine(dimension - 3.5, dimension - 3.5));
+  }
+  const transform = perspectiveTransform(from, to);
+
+  return Array.from({ length: dimension }, (_, y) =>
+    Array.from({ length: dimension }, (_, x) => {
+      const p = transform({ x: x + 0.5, y: y + 0.5 });
+      return isDark(image, p.x, p.y);
+    }));
+}
+
+function decodeBinaryImage(image: BinaryImage): QrDecodeResult {
+  const [corner, a, b] = selectFinderTriple(findFinderCandidates(image));
+  // Orient so that (topRight - topLeft) x (bottomLeft - topLeft) is positive in image coordinates
+  const cross = (a.x - corner.x) * (b.y - corner.y) - (a.y - corner.y) * (b.x - corner.x);
+  const [topRight, bottomLeft] = cross > 0 ? [a, b] : [b, a];
+  const finders: [QrPoint, QrPoint, QrPoint] = [corner, topRight, bottomLeft];
+
+  const moduleSize = (corner.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  const estimate = Math.round((distance(corner, topRight) + distance(corner, bottomLeft)) / 2 / moduleSize) + 7;
+  const base = Math.round((estimate - 17) / 4) * 4 + 17;
+  const dimensions = [base, base + 4, base - 4, base + 8]
+    .filter(d => d >= 21 && d <= 177)
+    .sort((x, y) => Math.abs(x - estimate) - Math.abs(y - estimate));
+
+  let lastError: Error = new Error('No QR code found in image');
+  for (let dimension of dimensions) {
+    try {
+      let modules = sampleGrid(image, finders, dimension);
+      if (dimension >= 45) {
+        const version = readQrVersionInfo(modules);
+        if (version !== null && version * 4 + 17 !== dimension) {
+          dimension = version * 4 + 17;
+          modules = sampleGrid(image, finders, dimension);
+        }
+      }
+      const result = decodeQrModules(modules);
+      return {
+        ...result,
+        finders: { topLeft: { x: corner.x, y: corner.y }, topRight: { x: topRight.x, y: topRight.y }, bottomLeft: { x: bottomLeft.x, y: bottomLeft.y } },
+      };
+    } catch (e) {
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Locate and decode a QR code in RGBA pixel data (e.g. from canvas getImageData)
+ */
+export function decodeQrImage(rgba: Uint8ClampedArray, width: number, height: number): QrDecodeResult {
+  if (rgba.length < width * height * 4) {
+    throw new Error('Image data is shorter than width × height');
+  }
+  const lum = toLuminance(rgba, width, height);
+  const global = binarizeGlobal(lum, width, height);
+  const attempts = [
+    () => global,
+    () => binarizeAdaptive(lum, width, height),
+    () => invert(global),
+  ];
+
+  let lastError: Error = new Error('No QR code found in image');
+  for (const attempt of attempts) {
+    try {
+      return decodeBinaryImage(attempt());
+    } catch (e) {
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,316 @@
+/**
+ * RGB Invoice model, parser and serializer
+ *
+ * Format:
+ *   rgb:<contract|~>/<iface>[/<operation>[/<assignment>]]/<state>+<beneficiary>[?<query>]
+ *
+ * - state: amount (`1000`), data allocation (`0@1`) or empty for any state
+ * - beneficiary: `[chain:]utxob:<baid64>` blinded seal or `[chain:]<address>` witness output
+ * - query: `expiry=<unix time>`, `endpoints=<url>[,<url>...]` and any other parameters
+ */
+
+import { parseBaid64, encodeBaid64, decodeSegwitAddress, EncodingError } from './encodingUtils';
+
+export type InvoiceChain = 'bc' | 'tb' | 'bcrt';
+
+export type InvoiceState =
+  | { type: 'void' }
+  | { type: 'amount'; value: string }
+  | { type: 'data'; value: string };
+
+export type InvoiceBeneficiary =
+  | { type: 'blinded'; chain: InvoiceChain | null; seal: string }
+  | { type: 'witness'; chain: InvoiceChain | null; address: string };
+
+export interface RgbInvoice {
+  /** Contract ID (`rgb:...`), or null to accept any contract */
+  contractId: string | null;
+  /** Interface or API name, e.g. RGB20 */
+  iface: string | null;
+  operation: string | null;
+  assignment: string | null;
+  state: InvoiceState;
+  beneficiary: InvoiceBeneficiary;
+  /** Unix timestamp in seconds */
+  expiry: number | null;
+  /** Transport endpoints, e.g. rpcs://proxy.example.com/json-rpc */
+  endpoints: string[];
+  /** Query parameters not understood by this parser, preserved verbatim */
+  unknownQuery: Record<string, string>;
+}
+
+export type InvoiceField =
+  | 'scheme'
+  | 'contractId'
+  | 'iface'
+  | 'operation'
+  | 'assignment'
+  | 'state'
+  | 'beneficiary'
+  | 'expiry'
+  | 'endpoints'
+  | 'query';
+
+export interface InvoiceFieldError {
+  field: InvoiceField;
+  message: string;
+  /** Decoding error with its range relative to the field value */
+  encoding?: EncodingError;
+}
+
+const INVOICE_CHAINS: InvoiceChain[] = ['bc', 'tb', 'bcrt'];
+const ENDPOINT_SCHEMES = ['rpc', 'rpcs', 'http', 'https', 'ws', 'wss', 'storm'];
+const U64_MAX = (1n << 64n) - 1n;
+const IDENT_RE = /^[A-Za-z][A-Za-z0-9_]{0,99}$/;
+
+/**
+ * Invoice error pointing at the offending field
+ */
+export class InvoiceError extends Error {
+  constructor(
+    public readonly field: InvoiceField,
+    message: string,
+    /** Decoding error with its range relative to the whole invoice string */
+    public readonly encoding: EncodingError | null = null,
+  ) {
+    super(`${field}: ${message}`);
+    this.name = 'InvoiceError';
+  }
+}
+
+function fail(field: InvoiceField, message: string, encoding: EncodingError | null = null): never {
+  throw new InvoiceError(field, message, encoding);
+}
+
+/**
+ * Percent-decode part of a query parameter, reporting malformed escapes as invoice errors
+ */
+function decodeQueryPart(pair: string, part: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    fail('query', `malformed percent-encoding in "${pair}"`);
+  }
+}
+
+/**
+ * Percent-encode an endpoint for the query, keeping the URL readable but escaping
+ * characters that delimit query parameters and endpoint lists
+ */
+function encodeEndpoint(endpoint: string): string {
+  return encodeURI(endpoint).replace(/[&,#+=?]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function parseBeneficiary(str: string): InvoiceBeneficiary {
+  let rest = str;
+  let chain: InvoiceChain | null = null;
+  const colon = rest.indexOf(':');
+  if (colon !== -1 && INVOICE_CHAINS.includes(rest.slice(0, colon) as InvoiceChain)) {
+    chain = rest.slice(0, colon) as InvoiceChain;
+    rest = rest.slice(colon + 1);
+  }
+  if (rest.startsWith('utxob:')) {
+    return { type: 'blinded', chain, seal: rest };
+  }
+  return { type: 'witness', chain, address: rest };
+}
+
+function parseState(str: string): InvoiceState {
+  if (str === '') return { type: 'void' };
+  if (/^\d+$/.test(str)) return { type: 'amount', value: str };
+  return { type: 'data', value: str };
+}
+
+/**
+ * Validate every field of an invoice, returning all problems found
+ */
+export function validateRgbInvoice(invoice: RgbInvoice): InvoiceFieldError[] {
+  const errors: InvoiceFieldError[] = [];
+  const check = (field: InvoiceField, fn: () => void) => {
+    try {
+      fn();
+    } catch (e) {
+      errors.push({ field, message: e.message, encoding: e instanceof EncodingError ? e : undefined });
+    }
+  };
+
+  check('contractId', () => {
+    if (invoice.contractId !== null) parseBaid64(invoice.contractId, { hri: 'rgb' });
+  });
+
+  for (const field of ['iface', 'operation', 'assignment'] as const) {
+    check(field, () => {
+      const value = invoice[field];
+      if (value !== null && !IDENT_RE.test(value)) {
+        throw new Error(`invalid identifier "${value}"`);
+      }
+    });
+  }
+  check('operation', () => {
+    if (invoice.operation !== null && invoice.iface === null) {
+      throw new Error('an operation requires an interface');
+    }
+  });
+  check('assignment', () => {
+    if (invoice.assignment !== null && invoice.operation === null) {
+      throw new Error('an assignment requires an operation');
+    }
+  });
+
+  check('state', () => {
+    const { state } = invoice;
+    if (state.type === 'amount') {
+      if (!/^\d+$/.test(state.value)) throw new Error(`amount must be an integer, found "${state.value}"`);
+      const amount = BigInt(state.value);
+      if (amount === 0n) throw new Error('amount must be greater than zero');
+      if (amount > U64_MAX) throw new Error('amount exceeds the 64-bit maximum');
+    } else if (state.type === 'data' && !/^\d+@\d+$/.test(state.value)) {
+      throw new Error(`data allocation must be <token index>@<fraction>, found "${state.value}"`);
+    }
+  });
+
+  check('beneficiary', () => {
+    const { beneficiary } = invoice;
+    if (beneficiary.type === 'blinded') {
+      parseBaid64(beneficiary.seal, { hri: 'utxob' });
+      return;
+    }
+    const address = decodeSegwitAddress(beneficiary.address);
+    if (beneficiary.chain && address.hrp !== beneficiary.chain) {
+      throw new Error(`address network "${address.hrp}" does not match chain "${beneficiary.chain}"`);
+    }
+  });
+
+  check('expiry', () => {
+    if (invoice.expiry !== null && (!Number.isInteger(invoice.expiry) || invoice.expiry <= 0)) {
+      throw new Error('expiry must be a positive unix timestamp');
+    }
+  });
+
+  check('endpoints', () => {
+    for (const endpoint of invoice.endpoints) {
+      const match = endpoint.match(/^([a-z]+):\/\/[^\s,]+$/);
+      if (!match || !ENDPOINT_SCHEMES.includes(match[1])) {
+        throw new Error(`unsupported transport endpoint "${endpoint}"`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Parse an RGB invoice string into its typed fields
+ */
+export function parseRgbInvoice(str: string): RgbInvoice {
+  const lead = str.length - str.trimStart().length;
+  const trimmed = str.trim();
+  if (!trimmed.startsWith('rgb:')) {
+    fail('scheme', 'invoice must start with "rgb:"');
+  }
+
+  let body = trimmed.slice(4);
+  let query = '';
+  const q = body.indexOf('?');
+  if (q !== -1) {
+    query = body.slice(q + 1);
+    body = body.slice(0, q);
+  }
+
+  const plus = body.lastIndexOf('+');
+  if (plus === -1) {
+    fail('beneficiary', 'missing "+<beneficiary>"');
+  }
+  const beneficiary = parseBeneficiary(body.slice(plus + 1));
+
+  const path = body.slice(0, plus).split('/');
+  if (path.length < 2) {
+    fail('iface', 'expected <contract>/<iface>/.../<state>');
+  }
+  if (path.length > 5) {
+    fail('state', `too many path segments (${path.length})`);
+  }
+
+  const [contract, ...segments] = path;
+  const state = parseState(segments.pop() as string);
+  const [iface = null, operation = null, assignment = null] = segments.map(s => s === '' ? null : s);
+
+  const invoice: RgbInvoice = {
+    contractId: contract === '~' ? null : `rgb:${contract}`,
+    iface,
+    operation,
+    assignment,
+    state,
+    beneficiary,
+    expiry: null,
+    endpoints: [],
+    unknownQuery: {},
+  };
+
+  for (const pair of query.split('&').filter(p => p.length > 0)) {
+    const eq = pair.indexOf('=');
+    if (eq === -1) fail('query', `parameter "${pair}" has no value`);
+    const key = decodeQueryPart(pair, pair.slice(0, eq));
+    const raw = pair.slice(eq + 1);
+    if (key === 'endpoints') {
+      // Split before decoding so an escaped comma stays inside its endpoint
+      invoice.endpoints = raw.split(',').filter(e => e.length > 0).map(e => decodeQueryPart(pair, e));
+      continue;
+    }
+    const value = decodeQueryPart(pair, raw);
+    if (key === 'expiry') {
+      if (!/^\d+$/.test(value)) fail('expiry', `expected unix timestamp, found "${value}"`);
+      invoice.expiry = Number(value);
+    } else if (key in invoice.unknownQuery) {
+      fail('query', `duplicate parameter "${key}"`);
+    } else {
+      invoice.unknownQuery[key] = value;
+    }
+  }
+
+  // Where the validated contract ID (`rgb:` included) and beneficiary values start in `str`
+  const offsets: Partial<Record<InvoiceField, number>> = {
+    contractId: lead,
+    beneficiary: lead + 4 + plus + 1 + (beneficiary.chain ? beneficiary.chain.length + 1 : 0),
+  };
+  const errors = validateRgbInvoice(invoice);
+  if (errors.length > 0) {
+    const [{ field, message, encoding }] = errors;
+    const offset = offsets[field];
+    fail(field, message, encoding && offset !== undefined ? encoding.relocate(i => i + offset) : null);
+  }
+  return invoice;
+}
+
+/**
+ * Serialize an invoice to its canonical string form
+ */
+export function serializeRgbInvoice(invoice: RgbInvoice): string {
+  const errors = validateRgbInvoice(invoice);
+  if (errors.length > 0) {
+    fail(errors[0].field, errors[0].message);
+  }
+
+  const contract = invoice.contractId === null
+    ? '~'
+    : encodeBaid64(parseBaid64(invoice.contractId, { hri: 'rgb' }).payload, { hri: 'rgb' });
+
+  const path = [contract];
+  for (const segment of [invoice.iface, invoice.operation, invoice.assignment]) {
+    if (segment !== null) path.push(segment);
+  }
+  path.push(invoice.state.type === 'void' ? '' : invoice.state.value);
+
+  const { beneficiary } = invoice;
+  const chain = beneficiary.chain ? `${beneficiary.chain}:` : '';
+  const target = beneficiary.type === 'blinded' ? beneficiary.seal : beneficiary.address;
+
+  const query: string[] = [];
+  if (invoice.expiry !== null) query.push(`expiry=${invoice.expiry}`);
+  if (invoice.endpoints.length > 0) query.push(`endpoints=${invoice.endpoints.map(encodeEndpoint).join(',')}`);
+  for (const [key, value] of Object.entries(invoice.unknownQuery)) {
+    query.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
+  }
+
+  return `rgb:${path.join('/')}+${chain}${target}${query.length > 0 ? '?' + query.join('&') : ''}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Minimal secp256k1 point arithmetic for Playground (BigInt, affine coordinates)
+ * Suitable for public demonstrations only: operations are not constant-time
+ */
+
+export const SECP256K1_P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+export const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+export interface CurvePoint {
+  x: bigint;
+  y: bigint;
+}
+
+export const SECP256K1_G: CurvePoint = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+function mod(a: bigint, m: bigint = SECP256K1_P): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function invert(a: bigint, m: bigint = SECP256K1_P): bigint {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+  }
+  if (oldR !== 1n) throw new Error('Value has no modular inverse');
+  return mod(oldS, m);
+}
+
+function powMod(base: bigint, exponent: bigint, m: bigint = SECP256K1_P): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+  }
+  return result;
+}
+
+/**
+ * Check whether a point satisfies y^2 = x^3 + 7
+ */
+export function isOnCurve(point: CurvePoint): boolean {
+  return mod(point.y * point.y - point.x * point.x * point.x - 7n) === 0n;
+}
+
+/**
+ * Add two points; null is the point at infinity
+ */
+export function pointAdd(a: CurvePoint | null, b: CurvePoint | null): CurvePoint | null {
+  if (!a) return b;
+  if (!b) return a;
+  let lambda: bigint;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === 0n) return null;
+    lambda = mod(3n * a.x * a.x * invert(2n * a.y));
+  } else {
+    lambda = mod((b.y - a.y) * invert(b.x - a.x));
+  }
+  const x = mod(lambda * lambda - a.x - b.x);
+  return { x, y: mod(lambda * (a.x - x) - a.y) };
+}
+
+/**
+ * Scalar multiplication by double-and-add
+ */
+export function pointMultiply(k: bigint, point: CurvePoint = SECP256K1_G): CurvePoint | null {
+  let result: CurvePoint | null = null;
+  let addend: CurvePoint | null = point;
+  for (let n = mod(k, SECP256K1_N); n > 0n; n >>= 1n) {
+    if (n & 1n) result = pointAdd(result, addend);
+    addend = pointAdd(addend, addend);
+  }
+  return result;
+}
+
+/**
+ * Point with the given x coordinate and even y (BIP-340 lift_x)
+ */
+export function liftX(x: bigint): CurvePoint {
+  if (x <= 0n || x >= SECP256K1_P) {
+    throw new Error('X coordinate is not a field element');
+  }
+  const ySquared = mod(x * x * x + 7n);
+  const y = powMod(ySquared, (SECP256K1_P + 1n) / 4n);
+  if (mod(y * y) !== ySquared) {
+    throw new Error('X coordinate is not on the secp256k1 curve');
+  }
+  return { x, y: y % 2n === 0n ? y : SECP256K1_P - y };
+}
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+}
+
+export function bigIntToBytes(value: bigint, length: number = 32): Uint8Array {
+  const out = new Uint8Array(length);
+  let v = value;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return out;
+}
+
+/**
+ * Parse an x-only (32 bytes), compressed (33 bytes) or uncompressed (65 bytes) public key
+ */
+export function parsePublicKey(bytes: Uint8Array): CurvePoint {
+  if (bytes.length === 32) {
+    return liftX(bytesToBigInt(bytes));
+  }
+  if (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+    const point = liftX(bytesToBigInt(bytes.slice(1)));
+    const odd = bytes[0] === 0x03;
+    return (point.y % 2n === 1n) === odd ? point : { x: point.x, y: SECP256K1_P - point.y };
+  }
+  if (bytes.length === 65 && bytes[0] === 0x04) {
+    const point = { x: bytesToBigInt(bytes.slice(1, 33)), y: bytesToBigInt(bytes.slice(33)) };
+    if (!isOnCurve(point)) throw new Error('Public key is not on the secp256k1 curve');
+    return point;
+  }
+  throw new Error(`Invalid public key length ${bytes.length} (expected 32, 33 or 65 bytes)`);
+}
+
+/**
+ * 32-byte x-only serialization (BIP-340)
+ */
+export function xOnly(point: CurvePoint): Uint8Array {
+  return bigIntToBytes(point.x);
+}
+
+/**
+ * 33-byte compressed serialization
+ */
+export function compressPoint(point: CurvePoint): Uint8Array {
+  const out = new Uint8Array(33);
+  out[0] = point.y % 2n === 0n ? 0x02 : 0x03;
+  out.set(bigIntToBytes(point.x), 1);
+  return out;
+}
@@ -0,0 +1,637 @@
+/**
+ * Strict Encoding for Playground
+ * Type-definition model, encoder and annotating decoder for RGB strict types
+ */
+
+import { EncodingError } from './encodingError';
+import type { EncodingErrorRange } from './encodingError';
+import { hexToBytes, bytesToHex, concatBytes, compareBytes } from './encodingUtils';
+
+export type IntegerType =
+  | 'u8' | 'u16' | 'u24' | 'u32' | 'u64' | 'u128' | 'u256'
+  | 'i8' | 'i16' | 'i32' | 'i64' | 'i128' | 'i256';
+
+export type PrimitiveType = IntegerType | 'bool' | 'f32' | 'f64';
+
+/**
+ * Strict type definition
+ *
+ * Collections are confined: `min`/`max` bound the number of elements (or bytes
+ * for `bytes`/`string`) and `max` also selects the width of the length prefix.
+ */
+export type StrictType =
+  | { kind: 'primitive'; name: PrimitiveType }
+  | { kind: 'array'; of: StrictType; len: number }
+  | { kind: 'bytes'; min?: number; max: number }
+  | { kind: 'string'; min?: number; max: number; ascii?: boolean }
+  | { kind: 'list'; of: StrictType; min?: number; max: number }
+  | { kind: 'set'; of: StrictType; min?: number; max: number }
+  | { kind: 'map'; key: StrictType; value: StrictType; min?: number; max: number }
+  | { kind: 'option'; of: StrictType }
+  | { kind: 'enum'; variants: { name: string; tag: number }[] }
+  | { kind: 'union'; variants: { name: string; tag: number; type?: StrictType }[] }
+  | { kind: 'struct'; fields: { name: string; type: StrictType }[] };
+
+/**
+ * JavaScript representation of strict values:
+ * - integers: number, or decimal string / bigint above 32 bits
+ * - bytes and byte arrays: hex string
+ * - lists and sets: arrays; maps: arrays of [key, value] pairs
+ * - options: null or the inner value; enums: variant name
+ * - unions: `{ variant: value }`, or the variant name for unit variants
+ * - structs: objects keyed by field name
+ */
+export type StrictValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | null
+  | StrictValue[]
+  | { [field: string]: StrictValue };
+
+/**
+ * Decoded field with its byte range, used to annotate hex blobs
+ */
+export interface StrictAnnotation {
+  path: string;
+  offset: number;
+  length: number;
+  type: string;
+  value: string;
+  depth: number;
+}
+
+const INT_WIDTHS: Record<IntegerType, number> = {
+  u8: 1, u16: 2, u24: 3, u32: 4, u64: 8, u128: 16, u256: 32,
+  i8: 1, i16: 2, i32: 4, i64: 8, i128: 16, i256: 32,
+};
+
+/**
+ * Width of the little-endian length prefix for a collection bounded by `max`
+ */
+export function lengthPrefixWidth(max: number): number {
+  if (max <= 0xff) return 1;
+  if (max <= 0xffff) return 2;
+  if (max <= 0xffffff) return 3;
+  return 4;
+}
+
+/**
+ * Human-readable type expression, e.g. `[U8 ^ ..0xff]`
+ */
+export function describeType(type: StrictType): string {
+  const bound = (min: number | undefined, max: number) =>
+    `${min ? min : ''}..${max > 0xff ? '0x' + max.toString(16) : max}`;
+
+  switch (type.kind) {
+    case 'primitive': return type.name.toUpperCase();
+    case 'array': return `[${describeType(type.of)} ^ ${type.len}]`;
+    case 'bytes': return `[Byte ^ ${bound(type.min, type.max)}]`;
+    case 'string': return `[${type.ascii ? 'Ascii' : 'Unicode'} ^ ${bound(type.min, type.max)}]`;
+    case 'list': return `[${describeType(type.of)} ^ ${bound(type.min, type.max)}]`;
+    case 'set': return `{${describeType(type.of)} ^ ${bound(type.min, type.max)}}`;
+    case 'map': return `{${describeType(type.key)} -> ${describeType(type.value)} ^ ${bound(type.min, type.max)}}`;
+    case 'option': return `${describeType(type.of)}?`;
+    case 'enum': return type.variants.map(v => `${v.name}:${v.tag}`).join(' | ');
+    case 'union': return type.variants.map(v => v.type ? `${v.name}(${describeType(v.type)})` : v.name).join(' | ');
+    case 'struct': return `(${type.fields.map(f => `${f.name} ${describeType(f.type)}`).join(', ')})`;
+  }
+}
+
+function toBigInt(value: StrictValue, path: string): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^-?(0x[0-9a-fA-F]+|\d+)$/.test(value.trim())) {
+    const str = value.trim();
+    return str.startsWith('-') ? -BigInt(str.slice(1)) : BigInt(str);
+  }
+  throw new EncodingError('invalid_format', `${path}: expected integer, found ${JSON.stringify(value)}`);
+}
+
+function encodeInteger(name: IntegerType, value: StrictValue, path: string): Uint8Array {
+  const width = INT_WIDTHS[name];
+  const bits = BigInt(width * 8);
+  const signed = name.startsWith('i');
+  let n = toBigInt(value, path);
+
+  const min = signed ? -(1n << (bits - 1n)) : 0n;
+  const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+  if (n < min || n > max) {
+    throw new EncodingError('invalid_format', `${path}: ${n} is out of range for ${name.toUpperCase()}`);
+  }
+  if (n < 0n) n += 1n << bits;
+
+  const bytes = new Uint8Array(width);
+  for (let i = 0; i < width; i++) {
+    bytes[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return bytes;
+}
+
+function decodeInteger(name: IntegerType, bytes: Uint8Array): number | string {
+  const width = INT_WIDTHS[name];
+  let n = 0n;
+  for (let i = width - 1; i >= 0; i--) {
+    n = (n << 8n) | BigInt(bytes[i]);
+  }
+  if (name.startsWith('i') && n >= 1n << BigInt(width * 8 - 1)) {
+    n -= 1n << BigInt(width * 8);
+  }
+  return width <= 4 ? Number(n) : n.toString();
+}
+
+function checkBounds(
+  path: string,
+  count: number,
+  min: number | undefined,
+  max: number,
+  unit: string,
+  range: EncodingErrorRange | null = null,
+) {
+  const lower = min ?? 0;
+  if (count < lower || count > max) {
+    throw new EncodingError('invalid_length', `${path}: ${count} ${unit} is outside confinement bounds ${lower}..${max}`, {
+      range,
+    });
+  }
+}
+
+/**
+ * Ordering used for sets and map keys: numeric for integers, bytewise otherwise
+ */
+function compareValues(type: StrictType, a: StrictValue, b: StrictValue, path: string): number {
+  if (type.kind === 'primitive' && type.name in INT_WIDTHS) {
+    const x = toBigInt(a, path);
+    const y = toBigInt(b, path);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  return compareBytes(encodeValue(type, a, path), encodeValue(type, b, path));
+}
+
+function encodeValue(type: StrictType, value: StrictValue, path: string): Uint8Array {
+  const parts: Uint8Array[] = [];
+  writeValue(type, value, path, parts);
+  return concatBytes(...parts);
+}
+
+function writeLength(parts: Uint8Array[], count: number, max: number) {
+  parts.push(encodeInteger(
+    (['u8', 'u16', 'u24', 'u32'] as const)[lengthPrefixWidth(max) - 1],
+    count,
+    'length',
+  ));
+}
+
+function writeValue(type: StrictType, value: StrictValue, path: string, parts: Uint8Array[]): void {
+  switch (type.kind) {
+    case 'primitive': {
+      if (type.name === 'bool') {
+        if (typeof value !== 'boolean') throw new EncodingError('invalid_format', `${path}: expected boolean`);
+        parts.push(new Uint8Array([value ? 1 : 0]));
+      } else if (type.name === 'f32' || type.name === 'f64') {
+        if (typeof value !== 'number') throw new EncodingError('invalid_format', `${path}: expected number`);
+        const buf = new Uint8Array(type.name === 'f32' ? 4 : 8);
+        const view = new DataView(buf.buffer);
+        if (type.name === 'f32') view.setFloat32(0, value, true);
+        else view.setFloat64(0, value, true);
+        parts.push(buf);
+      } else {
+        parts.push(encodeInteger(type.name, value, path));
+      }
+      return;
+    }
+
+    case 'array': {
+      if (type.of.kind === 'primitive' && type.of.name === 'u8') {
+        if (typeof value !== 'string') throw new EncodingError('invalid_format', `${path}: expected hex string`);
+        const bytes = hexToBytes(value);
+        if (bytes.length !== type.len) {
+          throw new EncodingError('invalid_length', `${path}: expected exactly ${type.len} bytes, found ${bytes.length}`);
+        }
+        parts.push(bytes);
+        return;
+      }
+      if (!Array.isArray(value) || value.length !== type.len) {
+        throw new EncodingError('invalid_length', `${path}: expected array of exactly ${type.len} elements`);
+      }
+      value.forEach((item, i) => writeValue(type.of, item, `${path}[${i}]`, parts));
+      return;
+    }
+
+    case 'bytes': {
+      if (typeof value !== 'string') throw new EncodingError('invalid_format', `${path}: expected hex string`);
+      const bytes = hexToBytes(value);
+      checkBounds(path, bytes.length, type.min, type.max, 'bytes');
+      writeLength(parts, bytes.length, type.max);
+      parts.push(bytes);
+      return;
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') throw new EncodingError('invalid_format', `${path}: expected string`);
+      if (type.ascii && !/^[\x20-\x7e]*$/.test(value)) {
+        throw new EncodingError('invalid_character', `${path}: only printable ASCII characters are allowed`);
+      }
+      const bytes = new TextEncoder().encode(value);
+      checkBounds(path, bytes.length, type.min, type.max, 'bytes');
+      writeLength(parts, bytes.length, type.max);
+      parts.push(bytes);
+      return;
+    }
+
+    case 'list':
+    case 'set': {
+      if (!Array.isArray(value)) throw new EncodingError('invalid_format', `${path}: expected array`);
+      checkBounds(path, value.length, type.min, type.max, 'elements');
+      let items = value;
+      if (type.kind === 'set') {
+        items = [...value].sort((a, b) => compareValues(type.of, a, b, path));
+        for (let i = 1; i < items.length; i++) {
+          if (compareValues(type.of, items[i - 1], items[i], path) === 0) {
+            throw new EncodingError('invalid_format', `${path}: duplicate set element ${JSON.stringify(items[i])}`);
+          }
+        }
+      }
+      writeLength(parts, items.length, type.max);
+      items.forEach((item, i) => writeValue(type.of, item, `${path}[${i}]`, parts));
+      return;
+    }
+
+    case 'map': {
+      if (!Array.isArray(value) || !value.every(e => Array.isArray(e) && e.length === 2)) {
+        throw new EncodingError('invalid_format', `${path}: expected array of [key, value] pairs`);
+      }
+      checkBounds(path, value.length, type.min, type.max, 'entries');
+      const entries = [...value as [StrictValue, StrictValue][]]
+        .sort((a, b) => compareValues(type.key, a[0], b[0], path));
+      for (let i = 1; i < entries.length; i++) {
+        if (compareValues(type.key, entries[i - 1][0], entries[i][0], path) === 0) {
+          throw new EncodingError('invalid_format', `${path}: duplicate map key ${JSON.stringify(entries[i][0])}`);
+        }
+      }
+      writeLength(parts, entries.length, type.max);
+      for (const [k, v] of entries) {
+        writeValue(type.key, k, `${path}.key`, parts);
+        writeValue(type.value, v, `${path}[${JSON.stringify(k)}]`, parts);
+      }
+      return;
+    }
+
+    case 'option': {
+      if (value === null || value === undefined) {
+        parts.push(new Uint8Array([0]));
+      } else {
+        parts.push(new Uint8Array([1]));
+        writeValue(type.of, value, path, parts);
+      }
+      return;
+    }
+
+    case 'enum': {
+      const variant = type.variants.find(v => v.name === value);
+      if (!variant) {
+        throw new EncodingError('invalid_format', `${path}: unknown enum variant ${JSON.stringify(value)}`);
+      }
+      parts.push(new Uint8Array([variant.tag]));
+      return;
+    }
+
+    case 'union': {
+      const name = typeof value === 'string' ? value : value && Object.keys(value)[0];
+      const variant = type.variants.find(v => v.name === name);
+      if (!variant) {
+        throw new EncodingError('invalid_format', `${path}: unknown union variant ${JSON.stringify(name)}`);
+      }
+      parts.push(new Uint8Array([variant.tag]));
+      if (variant.type) {
+        if (typeof value === 'string') {
+          throw new EncodingError('invalid_format', `${path}: variant ${name} requires a value`);
+        }
+        writeValue(variant.type, value[name], `${path}.${name}`, parts);
+      }
+      return;
+    }
+
+    case 'struct': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new EncodingError('invalid_format', `${path}: expected object`);
+      }
+      for (const field of type.fields) {
+        if (!(field.name in value) && field.type.kind !== 'option') {
+          throw new EncodingError('invalid_format', `${path}: missing field ${field.name}`);
+        }
+        writeValue(field.type, value[field.name] ?? null, `${path}.${field.name}`, parts);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Strict-encode a value according to its type definition
+ */
+export function strictEncode(type: StrictType, value: StrictValue): Uint8Array {
+  return encodeValue(type, value, '$');
+}
+
+class StrictReader {
+  offset = 0;
+  annotations: StrictAnnotation[] = [];
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(count: number, path: string): Uint8Array {
+    if (this.offset + count > this.bytes.length) {
+      throw new EncodingError(
+        'invalid_length',
+        `${path}: unexpected end of data at offset ${this.offset} (need ${count} bytes, ${this.bytes.length - this.offset} left)`,
+        { range: { start: this.offset, end: this.bytes.length } },
+      );
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+}
+
+function annotate(
+  reader: StrictReader,
+  path: string,
+  start: number,
+  type: string,
+  value: string,
+  depth: number,
+): void {
+  reader.annotations.push({ path, offset: start, length: reader.offset - start, type, value, depth });
+}
+
+function readLength(reader: StrictReader, max: number, path: string, depth: number): number {
+  const start = reader.offset;
+  const width = lengthPrefixWidth(max);
+  const count = decodeInteger((['u8', 'u16', 'u24', 'u32'] as const)[width - 1], reader.read(width, path)) as number;
+  annotate(reader, `${path}.len`, start, `U${width * 8}`, String(count), depth + 1);
+  return count;
+}
+
+function readValue(type: StrictType, reader: StrictReader, path: string, depth: number): StrictValue {
+  const start = reader.offset;
+  const name = describeType(type);
+  let value: StrictValue;
+
+  switch (type.kind) {
+    case 'primitive': {
+      if (type.name === 'bool') {
+        const byte = reader.read(1, path)[0];
+        if (byte > 1) {
+          throw new EncodingError('invalid_format', `${path}: invalid boolean value ${byte} at offset ${start}`, {
+            range: { start, end: reader.offset },
+          });
+        }
+        value = byte === 1;
+      } else if (type.name === 'f32' || type.name === 'f64') {
+        const buf = reader.read(type.name === 'f32' ? 4 : 8, path);
+        const view = new DataView(buf.buffer);
+        value = type.name === 'f32' ? view.getFloat32(0, true) : view.getFloat64(0, true);
+      } else {
+        value = decodeInteger(type.name, reader.read(INT_WIDTHS[type.name], path));
+      }
+      annotate(reader, path, start, name, String(value), depth);
+      return value;
+    }
+
+    case 'array': {
+      if (type.of.kind === 'primitive' && type.of.name === 'u8') {
+        value = bytesToHex(reader.read(type.len, path));
+        annotate(reader, path, start, name, value, depth);
+        return value;
+      }
+      const index = reader.annotations.length;
+      value = [];
+      for (let i = 0; i < type.len; i++) {
+        value.push(readValue(type.of, reader, `${path}[${i}]`, depth + 1));
+      }
+      reader.annotations.splice(index, 0, {
+        path, offset: start, length: reader.offset - start, type: name, value: `${type.len} elements`, depth,
+      });
+      return value;
+    }
+
+    case 'bytes':
+    case 'string': {
+      const index = reader.annotations.length;
+      const count = readLength(reader, type.max, path, depth);
+      checkBounds(path, count, type.min, type.max, 'bytes', { start, end: reader.offset });
+      const dataStart = reader.offset;
+      const data = reader.read(count, path);
+      if (type.kind === 'bytes') {
+        value = bytesToHex(data);
+      } else {
+        try {
+          value = new TextDecoder('utf-8', { fatal: true }).decode(data);
+        } catch {
+          throw new EncodingError('invalid_character', `${path}: invalid UTF-8 at offset ${dataStart}`, {
+            range: { start: dataStart, end: reader.offset },
+          });
+        }
+        if (type.ascii && !/^[\x20-\x7e]*$/.test(value)) {
+          throw new EncodingError('invalid_character', `${path}: non-ASCII characters at offset ${dataStart}`, {
+            range: { start: dataStart, end: reader.offset },
+          });
+        }
+      }
+      reader.annotations.splice(index, 0, {
+        path, offset: start, length: reader.offset - start, type: name,
+        value: type.kind === 'string' ? JSON.stringify(value) : value, depth,
+      });
+      return value;
+    }
+
+    case 'list':
+    case 'set':
+    case 'map': {
+      const index = reader.annotations.length;
+      const count = readLength(reader, type.max, path, depth);
+      checkBounds(path, count, type.min, type.max, type.kind === 'map' ? 'entries' : 'elements', {
+        start,
+        end: reader.offset,
+      });
+      value = [];
+      for (let i = 0; i < count; i++) {
+        const itemStart = reader.offset;
+        if (type.kind === 'map') {
+          const k = readValue(type.key, reader, `${path}.key[${i}]`, depth + 1);
+          const v = readValue(type.value, reader, `${path}[${JSON.stringify(k)}]`, depth + 1);
+          if (i > 0 && compareValues(type.key, value[i - 1][0], k, path) >= 0) {
+            throw new EncodingError('invalid_format', `${path}: map keys are not in strictly ascending order`, {
+              range: { start: itemStart, end: reader.offset },
+            });
+          }
+          value.push([k, v]);
+        } else {
+          const item = readValue(type.of, reader, `${path}[${i}]`, depth + 1);
+          if (type.kind === 'set' && i > 0 && compareValues(type.of, value[i - 1], item, path) >= 0) {
+            throw new EncodingError('invalid_format', `${path}: set elements are not in strictly ascending order`, {
+              range: { start: itemStart, end: reader.offset },
+            });
+          }
+          value.push(item);
+        }
+      }
+      reader.annotations.splice(index, 0, {
+        path, offset: start, length: reader.offset - start, type: name, value: `${count} items`, depth,
+      });
+      return value;
+    }
+
+    case 'option': {
+      const tag = reader.read(1, path)[0];
+      if (tag === 0) {
+        annotate(reader, path, start, name, 'None', depth);
+        return null;
+      }
+      if (tag !== 1) {
+        throw new EncodingError('invalid_format', `${path}: invalid option tag ${tag} at offset ${start}`, {
+          range: { start, end: reader.offset },
+        });
+      }
+      annotate(reader, `${path}.some`, start, 'Tag', 'Some', depth);
+      return readValue(type.of, reader, path, depth);
+    }
+
+    case 'enum': {
+      const tag = reader.read(1, path)[0];
+      const variant = type.variants.find(v => v.tag === tag);
+      if (!variant) {
+        throw new EncodingError('invalid_format', `${path}: unknown enum tag ${tag} at offset ${start}`, {
+          range: { start, end: reader.offset },
+        });
+      }
+      annotate(reader, path, start, 'Enum', variant.name, depth);
+      return variant.name;
+    }
+
+    case 'union': {
+      const tag = reader.read(1, path)[0];
+      const variant = type.variants.find(v => v.tag === tag);
+      if (!variant) {
+        throw new EncodingError('invalid_format', `${path}: unknown union tag ${tag} at offset ${start}`, {
+          range: { start, end: reader.offset },
+        });
+      }
+      annotate(reader, `${path}.tag`, start, 'Union tag', variant.name, depth);
+      if (!variant.type) return variant.name;
+      return { [variant.name]: readValue(variant.type, reader, `${path}.${variant.name}`, depth + 1) };
+    }
+
+    case 'struct': {
+      value = {};
+      for (const field of type.fields) {
+        value[field.name] = readValue(field.type, reader, `${path}.${field.name}`, depth);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Strict-decode bytes, returning the value and a per-field annotation of the input
+ * Error ranges are byte offsets into `data`
+ */
+export function strictDecode(
+  type: StrictType,
+  data: Uint8Array,
+): { value: StrictValue; annotations: StrictAnnotation[] } {
+  const reader = new StrictReader(data);
+  const value = readValue(type, reader, '$', 0);
+  if (reader.remaining > 0) {
+    throw new EncodingError('invalid_length', `${reader.remaining} unconsumed bytes after offset ${reader.offset}`, {
+      range: { start: reader.offset, end: data.length },
+    });
+  }
+  return { value, annotations: reader.annotations };
+}
+
+/**
+ * Example type definitions modelled after RGB standard library types
+ */
+export const EXAMPLE_STRICT_TYPES: { name: string; type: StrictType; value: StrictValue }[] = [
+  {
+    name: 'RGBContract.AssetSpec',
+    type: {
+      kind: 'struct',
+      fields: [
+        { name: 'ticker', type: { kind: 'string', min: 1, max: 8, ascii: true } },
+        { name: 'name', type: { kind: 'string', min: 1, max: 40, ascii: true } },
+        { name: 'details', type: { kind: 'option', of: { kind: 'string', min: 1, max: 255 } } },
+        {
+          name: 'precision',
+          type: {
+            kind: 'enum',
+            variants: [
+              { name: 'indivisible', tag: 0 },
+              { name: 'deci', tag: 1 },
+              { name: 'centi', tag: 2 },
+              { name: 'milli', tag: 3 },
+              { name: 'deciMilli', tag: 4 },
+              { name: 'centiMilli', tag: 5 },
+              { name: 'micro', tag: 6 },
+              { name: 'deciMicro', tag: 7 },
+              { name: 'centiMicro', tag: 8 },
+              { name: 'nano', tag: 9 },
+              { name: 'deciNano', tag: 10 },
+              { name: 'centiNano', tag: 11 },
+              { name: 'pico', tag: 12 },
+              { name: 'deciPico', tag: 13 },
+              { name: 'centiPico', tag: 14 },
+              { name: 'femto', tag: 15 },
+              { name: 'deciFemto', tag: 16 },
+              { name: 'centiFemto', tag: 17 },
+              { name: 'atto', tag: 18 },
+            ],
+          },
+        },
+      ],
+    },
+    value: { ticker: 'TUSD', name: 'Test USD', details: null, precision: 'centiMicro' },
+  },
+  {
+    name: 'BPCore.Outpoint',
+    type: {
+      kind: 'struct',
+      fields: [
+        { name: 'txid', type: { kind: 'array', of: { kind: 'primitive', name: 'u8' }, len: 32 } },
+        { name: 'vout', type: { kind: 'primitive', name: 'u32' } },
+      ],
+    },
+    value: { txid: '1e4a9f8b6d2c3e5f7a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f708192a3b4c5', vout: 1 },
+  },
+  {
+    name: 'Allocations (map of U32 -> U64)',
+    type: {
+      kind: 'map',
+      key: { kind: 'primitive', name: 'u32' },
+      value: { kind: 'primitive', name: 'u64' },
+      min: 1,
+      max: 0xffff,
+    },
+    value: [[0, '1000000'], [1, '250000']],
+  },
+  {
+    name: 'Seal (union)',
+    type: {
+      kind: 'union',
+      variants: [
+        { name: 'opret', tag: 0, type: { kind: 'primitive', name: 'u32' } },
+        { name: 'tapret', tag: 1, type: { kind: 'primitive', name: 'u32' } },
+        { name: 'none', tag: 0xff },
+      ],
+    },
+    value: { tapret: 2 },
+  },
+];
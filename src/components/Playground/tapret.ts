@@ -0,0 +1,252 @@
+/**
+ * Tapret commitments: RGB MPC commitments embedded in a taproot script tree
+ *
+ * Commitment leaf script (64 bytes):
+ *   OP_RESERVED x29 || OP_RETURN || OP_PUSHBYTES_33 || mpc_commitment (32) || nonce (1)
+ *
+ * The leaf is placed at depth 1, as the right sibling of the existing script tree root
+ * (if any). TapBranch sorts its children, so the nonce is chosen to make the commitment
+ * leaf hash sort after its partner node.
+ */
+
+import {
+  taggedHash,
+  compareBytes,
+  concatBytes,
+  encodeCompactSize,
+  encodeSegwitAddress,
+  bytesToHex,
+} from './encodingUtils';
+import {
+  SECP256K1_N,
+  pointAdd,
+  pointMultiply,
+  parsePublicKey,
+  bytesToBigInt,
+  xOnly,
+} from './secp256k1';
+import type { CurvePoint } from './secp256k1';
+import { OP_RESERVED, OP_RETURN } from './bitcoinScript';
+
+export const TAPSCRIPT_LEAF_VERSION = 0xc0;
+export const TAPRET_RESERVED_COUNT = 29;
+export const TAPRET_SCRIPT_LEN = 64;
+
+const OP_PUSHBYTES_33 = 0x21;
+
+export interface TapTree {
+  leafHashes: Uint8Array[];
+  /** Branch levels from the leaves up; the last level holds the root */
+  levels: Uint8Array[][];
+  root: Uint8Array;
+}
+
+export interface TapretCommitment {
+  script: Uint8Array;
+  nonce: number;
+  leafHash: Uint8Array;
+  /** Root of the existing script tree, null if the commitment is the only leaf */
+  partner: Uint8Array | null;
+  merkleRoot: Uint8Array;
+  tweak: Uint8Array;
+  internalKey: Uint8Array;
+  outputKey: Uint8Array;
+  /** Parity of the tweaked output key, needed for script-path control blocks */
+  outputKeyParity: 0 | 1;
+  scriptPubkey: Uint8Array;
+  address: string;
+}
+
+/**
+ * Build the 64-byte tapret commitment leaf script
+ */
+export function tapretScript(commitment: Uint8Array, nonce: number): Uint8Array {
+  if (commitment.length !== 32) {
+    throw new Error(`MPC commitment must be 32 bytes, got ${commitment.length}`);
+  }
+  if (!Number.isInteger(nonce) || nonce < 0 || nonce > 255) {
+    throw new Error('Nonce must be an integer between 0 and 255');
+  }
+  const script = new Uint8Array(TAPRET_SCRIPT_LEN);
+  script.fill(OP_RESERVED, 0, TAPRET_RESERVED_COUNT);
+  script[TAPRET_RESERVED_COUNT] = OP_RETURN;
+  script[TAPRET_RESERVED_COUNT + 1] = OP_PUSHBYTES_33;
+  script.set(commitment, TAPRET_RESERVED_COUNT + 2);
+  script[TAPRET_SCRIPT_LEN - 1] = nonce;
+  return script;
+}
+
+/**
+ * Extract commitment and nonce from a tapret leaf script, or null if it is not one
+ */
+export function parseTapretScript(script: Uint8Array): { commitment: Uint8Array; nonce: number } | null {
+  if (script.length !== TAPRET_SCRIPT_LEN) return null;
+  for (let i = 0; i < TAPRET_RESERVED_COUNT; i++) {
+    if (script[i] !== OP_RESERVED) return null;
+  }
+  if (script[TAPRET_RESERVED_COUNT] !== OP_RETURN || script[TAPRET_RESERVED_COUNT + 1] !== OP_PUSHBYTES_33) {
+    return null;
+  }
+  return {
+    commitment: script.slice(TAPRET_RESERVED_COUNT + 2, TAPRET_SCRIPT_LEN - 1),
+    nonce: script[TAPRET_SCRIPT_LEN - 1],
+  };
+}
+
+/**
+ * BIP-341 leaf hash: tagged_hash("TapLeaf", leaf_version || compact_size(len) || script)
+ */
+export function tapLeafHash(script: Uint8Array, leafVersion: number = TAPSCRIPT_LEAF_VERSION): Uint8Array {
+  return taggedHash('TapLeaf', concatBytes(new Uint8Array([leafVersion]), encodeCompactSize(script.length), script));
+}
+
+/**
+ * BIP-341 branch hash over lexicographically sorted children
+ */
+export function tapBranchHash(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const [first, second] = compareBytes(a, b) <= 0 ? [a, b] : [b, a];
+  return taggedHash('TapBranch', concatBytes(first, second));
+}
+
+/**
+ * BIP-341 tweak: tagged_hash("TapTweak", internal_key || merkle_root)
+ */
+export function tapTweakHash(internalKey: Uint8Array, merkleRoot: Uint8Array | null): Uint8Array {
+  return taggedHash('TapTweak', merkleRoot ? concatBytes(internalKey, merkleRoot) : internalKey);
+}
+
+/**
+ * Script tree from tapscript leaves, pairing neighbours level by level
+ * (an odd node at the end of a level moves up unchanged)
+ */
+export function buildTapTree(scripts: Uint8Array[]): TapTree {
+  if (scripts.length === 0) {
+    throw new Error('A script tree needs at least one leaf');
+  }
+  const leafHashes = scripts.map(s => tapLeafHash(s));
+  const levels: Uint8Array[][] = [leafHashes];
+  while (levels[levels.length - 1].length > 1) {
+    const below = levels[levels.length - 1];
+    const level: Uint8Array[] = [];
+    for (let i = 0; i < below.length; i += 2) {
+      level.push(i + 1 < below.length ? tapBranchHash(below[i], below[i + 1]) : below[i]);
+    }
+    levels.push(level);
+  }
+  return { leafHashes, levels, root: levels[levels.length - 1][0] };
+}
+
+/**
+ * Tweak an internal key with a script tree root: Q = P + t*G
+ */
+export function tweakPublicKey(
+  internalKey: Uint8Array,
+  merkleRoot: Uint8Array | null,
+): { tweak: Uint8Array; outputKey: CurvePoint } {
+  const point = parsePublicKey(internalKey);
+  const xonly = xOnly(point);
+  const tweak = tapTweakHash(xonly, merkleRoot);
+  const t = bytesToBigInt(tweak);
+  if (t >= SECP256K1_N) {
+    throw new Error('Tweak exceeds the curve order');
+  }
+  // Taproot uses the even-y lift of the internal key
+  const even = parsePublicKey(xonly);
+  const outputKey = pointAdd(even, pointMultiply(t));
+  if (!outputKey) {
+    throw new Error('Tweaked key is the point at infinity');
+  }
+  return { tweak, outputKey };
+}
+
+/**
+ * Embed an MPC commitment into a taproot output
+ * Without an explicit nonce, the smallest nonce giving the required ordering is used
+ */
+export function buildTapretCommitment(options: {
+  internalKey: Uint8Array;
+  commitment: Uint8Array;
+  scriptTreeRoot?: Uint8Array | null;
+  nonce?: number;
+  hrp?: string;
+}): TapretCommitment {
+  const { internalKey, commitment, hrp = 'bc' } = options;
+  const partner = options.scriptTreeRoot ?? null;
+  if (partner && partner.length !== 32) {
+    throw new Error(`Script tree root must be 32 bytes, got ${partner.length}`);
+  }
+
+  const placed = (leafHash: Uint8Array) => !partner || compareBytes(leafHash, partner) > 0;
+  let nonce = options.nonce;
+  if (nonce === undefined) {
+    nonce = 0;
+    while (nonce <= 255 && !placed(tapLeafHash(tapretScript(commitment, nonce)))) nonce++;
+    if (nonce > 255) {
+      throw new Error('No nonce places the commitment leaf to the right of the script tree');
+    }
+  }
+
+  const script = tapretScript(commitment, nonce);
+  const leafHash = tapLeafHash(script);
+  if (!placed(leafHash)) {
+    throw new Error(`With nonce ${nonce} the commitment leaf sorts before the script tree root; try another nonce`);
+  }
+  const merkleRoot = partner ? tapBranchHash(partner, leafHash) : leafHash;
+
+  const xonlyInternal = xOnly(parsePublicKey(internalKey));
+  const { tweak, outputKey } = tweakPublicKey(xonlyInternal, merkleRoot);
+  const outputKeyBytes = xOnly(outputKey);
+
+  return {
+    script,
+    nonce,
+    leafHash,
+    partner,
+    merkleRoot,
+    tweak,
+    internalKey: xonlyInternal,
+    outputKey: outputKeyBytes,
+    outputKeyParity: outputKey.y % 2n === 0n ? 0 : 1,
+    scriptPubkey: concatBytes(new Uint8Array([0x51, 0x20]), outputKeyBytes),
+    address: encodeSegwitAddress(hrp, 1, outputKeyBytes),
+  };
+}
+
+/**
+ * Human-readable assembly of a tapret leaf script
+ */
+export function tapretScriptAsm(script: Uint8Array): string {
+  const parsed = parseTapretScript(script);
+  if (!parsed) return bytesToHex(script);
+  return `OP_RESERVED x${TAPRET_RESERVED_COUNT} OP_RETURN OP_PUSHBYTES_33 `
+    + `${bytesToHex(parsed.commitment)}${parsed.nonce.toString(16).padStart(2, '0')}`;
+}
+
+export interface TapretVerification {
+  valid: boolean;
+  reason: string;
+  /** Commitment reconstructed from the proof data */
+  expected: TapretCommitment;
+}
+
+/**
+ * Check a taproot output key against a tapret proof (internal key, partner node, nonce)
+ * Without a nonce, the smallest nonce giving the required ordering is assumed
+ */
+export function verifyTapretOutput(options: {
+  outputKey: Uint8Array;
+  internalKey: Uint8Array;
+  commitment: Uint8Array;
+  scriptTreeRoot?: Uint8Array | null;
+  nonce?: number;
+  hrp?: string;
+}): TapretVerification {
+  const { outputKey, ...proof } = options;
+  const expected = buildTapretCommitment(proof);
+  const valid = bytesToHex(expected.outputKey) === bytesToHex(outputKey);
+  return {
+    valid,
+    reason: valid ? '' : `Output key is ${bytesToHex(outputKey)}, the proof gives ${bytesToHex(expected.outputKey)}`,
+    expected,
+  };
+}
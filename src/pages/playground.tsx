@@ -137,6 +137,12 @@ export default function Playground(): ReactNode {
 
 function PlaygroundModules() {
   const [activeModule, setActiveModule] = useState<Module>('encoding');
+  const [consignment, setConsignment] = useState('');
+
+  const openConsignment = (json: string) => {
+    setConsignment(json);
+    setActiveModule('consignments');
+  };
 
   return (
     <section style={{
@@ -204,7 +210,7 @@ function PlaygroundModules() {
               }}>
                 Work with all RGB encoding formats: BAID64, Base58, Base64, Bech32, hex conversions, and hashing.
               </p>
-              <EncodingPlayground />
+              <EncodingPlayground onOpenConsignment={openConsignment} />
             </>
           )}
 
@@ -267,7 +273,7 @@ function PlaygroundModules() {
               }}>
                 Inspect RGB consignments: view state history DAG, transitions, and Bitcoin anchors.
               </p>
-              <ConsignmentInspector />
+              <ConsignmentInspector initialData={consignment} />
             </>
           )}
         </div>